@@ -0,0 +1,140 @@
+/**
+ * FireProtector service worker
+ *
+ * - Keeps the app shell cached so the app opens without a connection
+ * - Keeps the last locations and alerts read from Supabase, served when the
+ *   network is unavailable (network first, so online users always see live data)
+ * - Shows Web Push notifications sent by notification-dispatcher and opens
+ *   the alert when one is clicked
+ *
+ * Registered from src/lib/push.ts in production builds only.
+ */
+
+const CACHE_VERSION = "v1";
+const SHELL_CACHE = `fireprotector-shell-${CACHE_VERSION}`;
+const DATA_CACHE = `fireprotector-data-${CACHE_VERSION}`;
+
+const SHELL_URLS = ["/", "/index.html", "/manifest.webmanifest", "/icons/icon-192.png", "/icons/icon-512.png"];
+
+/** Supabase REST tables whose last response is kept for offline use */
+const OFFLINE_TABLES = ["locations", "alerts"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(SHELL_CACHE).then((cache) => cache.addAll(SHELL_URLS)));
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys
+          .filter((key) => key.startsWith("fireprotector-") && key !== SHELL_CACHE && key !== DATA_CACHE)
+          .map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isOfflineData = (url) =>
+  OFFLINE_TABLES.some((table) => url.pathname === `/rest/v1/${table}`);
+
+/** Try the network and remember the response; fall back to the last one */
+const networkFirst = async (request, cacheName) => {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+/**
+ * Answer from the cache straight away and refresh it in the background. The
+ * refresh is kept alive until the cache is updated, and failing while offline
+ * is expected when there is a cached copy.
+ */
+const staleWhileRevalidate = async (event) => {
+  const { request } = event;
+  const cache = await caches.open(SHELL_CACHE);
+  const cached = await cache.match(request);
+  const refresh = fetch(request).then(async (response) => {
+    if (response.ok) await cache.put(request, response.clone());
+    return response;
+  });
+
+  if (!cached) return refresh;
+
+  event.waitUntil(refresh.catch(() => cached));
+  return cached;
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (isOfflineData(url)) {
+    event.respondWith(networkFirst(request, DATA_CACHE));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    // Every route is the single-page app
+    event.respondWith(
+      fetch(request).catch(() => caches.match("/index.html", { cacheName: SHELL_CACHE }))
+    );
+    return;
+  }
+
+  event.respondWith(staleWhileRevalidate(event));
+});
+
+self.addEventListener("message", (event) => {
+  // Sent on sign-out so the next user of the device cannot read the last data
+  if (event.data?.type === "clear-data") {
+    event.waitUntil(caches.delete(DATA_CACHE));
+  }
+});
+
+self.addEventListener("push", (event) => {
+  const data = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(data.title || "FireProtector alert", {
+      body: data.body,
+      icon: "/icons/icon-192.png",
+      badge: "/icons/icon-192.png",
+      // One notification per alert; escalations replace it and alert again
+      tag: data.alertId,
+      renotify: !!data.alertId,
+      requireInteraction: data.level === "critical",
+      data: { url: data.url || "/alerts" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = event.notification.data?.url || "/alerts";
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const client = windows.find((window) => new URL(window.url).origin === self.location.origin);
+      if (client) {
+        // navigate() only works on windows this worker controls
+        return client.focus()
+          .then(() => client.navigate(url))
+          .catch(() => self.clients.openWindow(url));
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
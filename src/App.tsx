@@ -20,6 +20,12 @@ import Locations from "./pages/Locations";
 import LocationDetails from "./pages/LocationDetails";
 import AlertDetails from "./pages/AlertDetails";
 import MapView from "./pages/MapView";
+import ManageRoles from "./pages/ManageRoles";
+import AuthorityVerifications from "./pages/AuthorityVerifications";
+import FireStations from "./pages/FireStations";
+import EscalationPolicies from "./pages/EscalationPolicies";
+import AlertRules from "./pages/AlertRules";
+import { VerificationNotice } from "@/components/VerificationNotice";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -33,6 +39,7 @@ const AppLayout = ({ children }: { children: React.ReactNode }) => (
           <SidebarTrigger />
         </header>
         <main className="flex-1 p-6 bg-background overflow-auto">
+          <VerificationNotice />
           {children}
         </main>
       </div>
@@ -62,6 +69,11 @@ const App = () => (
           <Route path="/location/:id" element={<AppLayout><LocationDetails /></AppLayout>} />
           <Route path="/alert/:id" element={<AppLayout><AlertDetails /></AppLayout>} />
           <Route path="/map" element={<AppLayout><MapView /></AppLayout>} />
+          <Route path="/admin/roles" element={<AppLayout><ManageRoles /></AppLayout>} />
+          <Route path="/admin/verifications" element={<AppLayout><AuthorityVerifications /></AppLayout>} />
+          <Route path="/admin/stations" element={<AppLayout><FireStations /></AppLayout>} />
+          <Route path="/admin/escalation" element={<AppLayout><EscalationPolicies /></AppLayout>} />
+          <Route path="/admin/rules" element={<AppLayout><AlertRules /></AppLayout>} />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,316 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { format } from "date-fns";
+import { Truck, Wand2 } from "lucide-react";
+import { CLOSED_STATUSES, type AlertStatus } from "@/lib/alert-status";
+import {
+  assignAlert,
+  DISPATCH_STEP_COLUMNS,
+  DISPATCH_STEP_LABELS,
+  DISPATCH_STEPS,
+  nextDispatchStep,
+  reportDispatchStep,
+  type DispatchProgress,
+} from "@/lib/dispatch";
+import {
+  ESCALATION_TARGET_LABELS,
+  NOTIFICATION_LEVEL_LABELS,
+  type EscalationTarget,
+  type NotificationLevel,
+} from "@/lib/escalation";
+
+export interface DispatchedAlert extends DispatchProgress {
+  id: string;
+  status: string;
+  assigned_station_id: string | null;
+  assigned_to: string | null;
+  assigned_at: string | null;
+  escalation_level: number;
+  escalation_target: string | null;
+  escalated_at: string | null;
+  notification_level: string;
+  supporting_station_ids: string[];
+}
+
+interface AlertDispatchCardProps {
+  alert: DispatchedAlert;
+  onChanged?: () => void;
+}
+
+interface StationOption {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
+interface OfficerOption {
+  user_id: string;
+  full_name: string | null;
+}
+
+/** Sentinel for "any officer at the station" in the officer select */
+const ANY_OFFICER = "any";
+
+/**
+ * Who is responding to an alert and how far they have got, with controls for
+ * staff to (re)assign it and for the crew to report the next step.
+ */
+export const AlertDispatchCard = ({ alert, onChanged }: AlertDispatchCardProps) => {
+  const { toast } = useToast();
+  const { userId, stationId, isStaff, hasMinRole } = useRole();
+  const [stations, setStations] = useState<StationOption[]>([]);
+  const [officers, setOfficers] = useState<OfficerOption[]>([]);
+  const [assigneeName, setAssigneeName] = useState<string | null>(null);
+  const [selectedStationId, setSelectedStationId] = useState("");
+  const [selectedOfficerId, setSelectedOfficerId] = useState(ANY_OFFICER);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchStations = async () => {
+      const { data } = await supabase
+        .from("fire_stations")
+        .select("id, name, phone")
+        .order("name");
+
+      setStations(data || []);
+    };
+
+    fetchStations();
+  }, []);
+
+  useEffect(() => {
+    setSelectedStationId(alert.assigned_station_id ?? "");
+    setSelectedOfficerId(alert.assigned_to ?? ANY_OFFICER);
+  }, [alert.assigned_station_id, alert.assigned_to]);
+
+  useEffect(() => {
+    if (!alert.assigned_to) {
+      setAssigneeName(null);
+      return;
+    }
+
+    supabase
+      .from("profiles")
+      .select("full_name")
+      .eq("user_id", alert.assigned_to)
+      .maybeSingle()
+      .then(({ data }) => setAssigneeName(data?.full_name || "Unnamed officer"));
+  }, [alert.assigned_to]);
+
+  useEffect(() => {
+    if (!selectedStationId) {
+      setOfficers([]);
+      return;
+    }
+
+    const fetchOfficers = async () => {
+      const { data: members } = await supabase
+        .from("fire_station_members")
+        .select("user_id")
+        .eq("station_id", selectedStationId);
+
+      const userIds = (members || []).map((member) => member.user_id);
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name").in("user_id", userIds)
+        : { data: [] };
+
+      setOfficers(profiles || []);
+    };
+
+    fetchOfficers();
+  }, [selectedStationId]);
+
+  const handleAssign = async (auto: boolean) => {
+    setIsSaving(true);
+    try {
+      await assignAlert(alert.id, auto ? {} : {
+        stationId: selectedStationId,
+        officerId: selectedOfficerId === ANY_OFFICER ? undefined : selectedOfficerId,
+      });
+
+      toast({
+        title: "Alert Assigned",
+        description: auto ? "Assigned to the nearest available station." : "The crew has been notified.",
+      });
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error assigning alert",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReportStep = async () => {
+    if (!nextStep) return;
+
+    setIsSaving(true);
+    try {
+      await reportDispatchStep(alert.id, nextStep);
+
+      toast({
+        title: DISPATCH_STEP_LABELS[nextStep],
+        description: "Dispatch progress recorded.",
+      });
+      onChanged?.();
+    } catch (error) {
+      toast({
+        title: "Error reporting progress",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const station = stations.find((s) => s.id === alert.assigned_station_id);
+  const isOpen = !CLOSED_STATUSES.includes(alert.status as AlertStatus);
+  const nextStep = nextDispatchStep(alert);
+  const isAssigned = !!alert.assigned_station_id || !!alert.assigned_to;
+  const supportingStations = stations.filter((s) => alert.supporting_station_ids.includes(s.id));
+  // Mirrors the check in alert-manager; the server has the final say
+  const isSupporting = nextStep === "acknowledged" && !!stationId && alert.supporting_station_ids.includes(stationId);
+  const isResponder = isSupporting || (alert.assigned_to
+    ? alert.assigned_to === userId
+    : !!stationId && stationId === alert.assigned_station_id);
+  const canReport = isStaff && isOpen && isAssigned && !!nextStep && (isResponder || hasMinRole("incharge"));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Truck className="h-5 w-5" />
+          Dispatch
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Station</span>
+          <span className="text-sm font-medium">
+            {station ? station.name : "Unassigned"}
+            {station?.phone && <span className="text-muted-foreground font-normal"> · {station.phone}</span>}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-muted-foreground">Officer</span>
+          <span className="text-sm">
+            {alert.assigned_to
+              ? alert.assigned_to === userId ? "You" : assigneeName
+              : isAssigned ? "Any officer at the station" : "—"}
+          </span>
+        </div>
+        {alert.assigned_at && (
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-muted-foreground">Assigned</span>
+            <span className="text-sm">{format(new Date(alert.assigned_at), "PPpp")}</span>
+          </div>
+        )}
+        {alert.escalation_level > 0 && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Escalated to</span>
+              <span className="text-sm font-medium">
+                {ESCALATION_TARGET_LABELS[alert.escalation_target as EscalationTarget] ?? `Level ${alert.escalation_level}`}
+                <span className="text-muted-foreground font-normal">
+                  {" · "}{NOTIFICATION_LEVEL_LABELS[alert.notification_level as NotificationLevel] ?? alert.notification_level}
+                </span>
+              </span>
+            </div>
+            {alert.escalated_at && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Escalated</span>
+                <span className="text-sm">{format(new Date(alert.escalated_at), "PPpp")}</span>
+              </div>
+            )}
+            {supportingStations.length > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">Supporting</span>
+                <span className="text-sm">{supportingStations.map((s) => s.name).join(", ")}</span>
+              </div>
+            )}
+          </>
+        )}
+        {DISPATCH_STEPS.map((step) => {
+          const reportedAt = alert[DISPATCH_STEP_COLUMNS[step]];
+          return (
+            <div key={step} className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">{DISPATCH_STEP_LABELS[step]}</span>
+              <span className="text-sm">{reportedAt ? format(new Date(reportedAt), "PPpp") : "—"}</span>
+            </div>
+          );
+        })}
+
+        {canReport && nextStep && (
+          <Button className="w-full" onClick={handleReportStep} disabled={isSaving}>
+            Mark {DISPATCH_STEP_LABELS[nextStep]}
+          </Button>
+        )}
+
+        {isStaff && isOpen && (
+          <div className="border-t pt-4 space-y-3">
+            <Label>{isAssigned ? "Reassign" : "Assign"}</Label>
+            <Select
+              value={selectedStationId}
+              onValueChange={(value) => {
+                setSelectedStationId(value);
+                setSelectedOfficerId(ANY_OFFICER);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a station" />
+              </SelectTrigger>
+              <SelectContent>
+                {stations.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={selectedOfficerId} onValueChange={setSelectedOfficerId} disabled={!selectedStationId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_OFFICER}>Any officer at the station</SelectItem>
+                {officers.map((officer) => (
+                  <SelectItem key={officer.user_id} value={officer.user_id}>
+                    {officer.full_name || "Unnamed officer"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => handleAssign(true)}
+                disabled={isSaving}
+              >
+                <Wand2 className="h-4 w-4 mr-2" />
+                Auto-assign
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => handleAssign(false)}
+                disabled={isSaving || !selectedStationId}
+              >
+                Assign
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Pencil, Plus } from "lucide-react";
+import { RuleConditionsEditor } from "@/components/RuleConditionsEditor";
+import { AlertRuleDryRun } from "@/components/AlertRuleDryRun";
+import { parseRuleConditions, RULE_ALERT_TYPE_LABELS, RULE_ALERT_TYPES, type RuleCondition } from "@/lib/alert-rules";
+import { SEVERITY_LEVELS, type SensorAlertType, type Severity } from "@/lib/severity";
+import type { Json } from "@/integrations/supabase/types";
+
+export interface StoredAlertRule {
+  id: string;
+  location_id: string | null;
+  name: string;
+  description: string | null;
+  enabled: boolean;
+  conditions: Json;
+  sustain_readings: number;
+  alert_type: string;
+  severity: string;
+}
+
+interface AlertRuleDialogProps {
+  /** Rule to edit; omit to add a new one */
+  rule?: StoredAlertRule;
+  locations: { id: string; name: string }[];
+  onSaved?: () => void;
+}
+
+/** Select value of the "every location" scope */
+const ALL_LOCATIONS = "all";
+
+interface RuleForm {
+  name: string;
+  description: string;
+  scope: string;
+  conditions: RuleCondition[];
+  sustainReadings: string;
+  alertType: SensorAlertType;
+  severity: Severity;
+}
+
+const toFormData = (rule?: StoredAlertRule): RuleForm => ({
+  name: rule?.name ?? "",
+  description: rule?.description ?? "",
+  scope: rule?.location_id ?? ALL_LOCATIONS,
+  conditions: rule ? parseRuleConditions(rule.conditions) : [{ sensor: "gas", operator: "above", value: 400 }],
+  sustainReadings: rule ? String(rule.sustain_readings) : "1",
+  alertType: (rule?.alert_type as SensorAlertType) ?? "fire",
+  severity: (rule?.severity as Severity) ?? "high",
+});
+
+export const AlertRuleDialog = ({ rule, locations, onSaved }: AlertRuleDialogProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<RuleForm>(toFormData(rule));
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setFormData(toFormData(rule));
+  };
+
+  const sustainReadings = parseInt(formData.sustainReadings, 10);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.conditions.length === 0) {
+      toast({ title: "No conditions", description: "Add at least one condition.", variant: "destructive" });
+      return;
+    }
+
+    if (!(sustainReadings >= 1)) {
+      toast({ title: "Invalid sustain window", description: "A rule must hold for at least 1 reading.", variant: "destructive" });
+      return;
+    }
+
+    const { data: { user } } = await supabase.auth.getUser();
+
+    const values = {
+      name: formData.name.trim(),
+      description: formData.description.trim() || null,
+      location_id: formData.scope === ALL_LOCATIONS ? null : formData.scope,
+      conditions: formData.conditions,
+      sustain_readings: sustainReadings,
+      alert_type: formData.alertType,
+      severity: formData.severity,
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = rule
+        ? await supabase.from("alert_rules").update(values).eq("id", rule.id)
+        : await supabase.from("alert_rules").insert({ ...values, created_by: user?.id ?? null });
+
+      if (error) throw error;
+
+      toast({
+        title: rule ? "Rule Updated" : "Rule Added",
+        description: `${values.name} has been saved.`,
+      });
+      setIsOpen(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error saving rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {rule ? (
+          <Button variant="outline" size="icon" title="Edit rule">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Rule
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? "Edit Alert Rule" : "Add Alert Rule"}</DialogTitle>
+          <DialogDescription>
+            The rule raises an alert when every condition holds for the sustain window, next to the
+            location's thresholds.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Gas leak in dry air"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Applies to</Label>
+              <Select value={formData.scope} onValueChange={(scope) => setFormData({ ...formData, scope })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_LOCATIONS}>All locations</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="rule-description">Description</Label>
+              <Textarea
+                id="rule-description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                placeholder="Why this combination of readings matters"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Conditions (all must hold)</Label>
+            <RuleConditionsEditor
+              value={formData.conditions}
+              onChange={(conditions) => setFormData({ ...formData, conditions })}
+            />
+          </div>
+
+          <div className="grid gap-4 grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-sustain">Sustain (readings)</Label>
+              <Input
+                id="rule-sustain"
+                type="number"
+                min="1"
+                step="1"
+                value={formData.sustainReadings}
+                onChange={(e) => setFormData({ ...formData, sustainReadings: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Alert type</Label>
+              <Select
+                value={formData.alertType}
+                onValueChange={(alertType) => setFormData({ ...formData, alertType: alertType as SensorAlertType })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RULE_ALERT_TYPES.map((alertType) => (
+                    <SelectItem key={alertType} value={alertType}>
+                      {RULE_ALERT_TYPE_LABELS[alertType]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Severity</Label>
+              <Select
+                value={formData.severity}
+                onValueChange={(severity) => setFormData({ ...formData, severity: severity as Severity })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SEVERITY_LEVELS.map((severity) => (
+                    <SelectItem key={severity} value={severity} className="capitalize">
+                      {severity}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <AlertRuleDryRun
+            conditions={formData.conditions}
+            sustainReadings={sustainReadings >= 1 ? sustainReadings : 1}
+            locations={locations}
+            defaultLocationId={rule?.location_id ?? undefined}
+          />
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Rule"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAlertSettings } from "@/hooks/use-alert-settings";
+import { FlaskConical } from "lucide-react";
+import { format } from "date-fns";
+import { dryRunRule, maxRuleGapMs, type RuleCondition, type RuleDryRun } from "@/lib/alert-rules";
+import type { SensorReading } from "@/lib/sensors";
+
+interface AlertRuleDryRunProps {
+  conditions: RuleCondition[];
+  sustainReadings: number;
+  locations: { id: string; name: string }[];
+  /** Location picked first; the rule's own location when it has one */
+  defaultLocationId?: string;
+}
+
+const dryRunRanges = {
+  "24h": { label: "Last 24 hours", ms: 24 * 60 * 60 * 1000 },
+  "7d": { label: "Last 7 days", ms: 7 * 24 * 60 * 60 * 1000 },
+};
+
+type DryRunRange = keyof typeof dryRunRanges;
+
+/** Firings listed before the rest are summarised */
+const MAX_LISTED_FIRINGS = 5;
+
+/**
+ * Replays a rule, saved or not, over a location's stored readings to show how
+ * often it would have raised an alert.
+ */
+export const AlertRuleDryRun = ({ conditions, sustainReadings, locations, defaultLocationId }: AlertRuleDryRunProps) => {
+  const { toast } = useToast();
+  const getAlertSettings = useAlertSettings();
+  const [locationId, setLocationId] = useState(defaultLocationId ?? locations[0]?.id ?? "");
+  const [range, setRange] = useState<DryRunRange>("24h");
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<RuleDryRun | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      const { data, error } = await supabase.functions.invoke("thingspeak-service", {
+        body: {
+          action: "history",
+          locationId,
+          from: new Date(Date.now() - dryRunRanges[range].ms).toISOString(),
+          bucket: "raw",
+        },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error ?? "Failed to load readings");
+
+      const maxGapMs = maxRuleGapMs(getAlertSettings(locationId).reportingIntervalSeconds);
+      setResult(dryRunRule({ conditions, sustainReadings }, data.data as SensorReading[], maxGapMs));
+    } catch (error) {
+      toast({
+        title: "Error running dry run",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <p className="text-sm font-medium">Dry Run</p>
+      <div className="grid gap-2 grid-cols-[1fr_10rem_auto] items-end">
+        <div className="space-y-2">
+          <Label>Location</Label>
+          <Select value={locationId} onValueChange={(id) => { setLocationId(id); setResult(null); }}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a location" />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Period</Label>
+          <Select value={range} onValueChange={(value) => { setRange(value as DryRunRange); setResult(null); }}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(dryRunRanges) as DryRunRange[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {dryRunRanges[key].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleRun}
+          disabled={isRunning || !locationId || conditions.length === 0}
+        >
+          <FlaskConical className="h-4 w-4 mr-2" />
+          {isRunning ? "Running..." : "Run"}
+        </Button>
+      </div>
+
+      {result && (
+        <div className="bg-muted/50 rounded-lg p-3 text-sm space-y-1">
+          {result.readings === 0 ? (
+            <p className="text-muted-foreground">No stored readings in this period.</p>
+          ) : (
+            <>
+              <p>
+                Conditions held for {result.matching} of {result.readings} readings; the rule would have
+                raised {result.firings.length === 1 ? "1 alert" : `${result.firings.length} alerts`}.
+              </p>
+              {result.firings.slice(0, MAX_LISTED_FIRINGS).map((timestamp) => (
+                <p key={timestamp} className="text-xs text-muted-foreground">
+                  {format(new Date(timestamp), "MMM d, HH:mm")}
+                </p>
+              ))}
+              {result.firings.length > MAX_LISTED_FIRINGS && (
+                <p className="text-xs text-muted-foreground">
+                  and {result.firings.length - MAX_LISTED_FIRINGS} more
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,168 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { Loader2 } from "lucide-react";
+import { ESCALATION_TARGET_LABELS, type EscalationTarget } from "@/lib/escalation";
+import { formatSensorValue, normalizeReading, SENSOR_UNITS } from "@/lib/sensors";
+
+interface AlertTimelineProps {
+  alertId: string;
+  /** Changes whenever the alert row changes (e.g. its updated_at) to reload the events */
+  refreshKey?: string;
+}
+
+interface AlertEvent {
+  id: string;
+  event_type: string;
+  from_status: string | null;
+  to_status: string | null;
+  from_severity: string | null;
+  to_severity: string | null;
+  sensor_values: unknown;
+  station_id: string | null;
+  assignee_id: string | null;
+  escalation_level: number | null;
+  escalation_target: string | null;
+  actor_id: string | null;
+  created_at: string;
+}
+
+const formatStatus = (status: string | null) => (status ?? "unknown").replace(/_/g, " ");
+
+const describeEvent = (event: AlertEvent, userNames: Record<string, string>, stationNames: Record<string, string>) => {
+  const station = event.station_id ? stationNames[event.station_id] ?? "a station" : null;
+
+  switch (event.event_type) {
+    case "created":
+      return `Alert raised (${event.to_severity})`;
+    case "status_changed":
+      return `Status changed from ${formatStatus(event.from_status)} to ${formatStatus(event.to_status)}`;
+    case "severity_changed":
+      return `Severity changed from ${event.from_severity} to ${event.to_severity}`;
+    case "readings_updated":
+      return "Sensor readings updated";
+    case "clear_suggested":
+      return "Sensors back to normal";
+    case "assigned":
+      if (!station && !event.assignee_id) return "Assignment removed";
+      return event.assignee_id
+        ? `Assigned to ${userNames[event.assignee_id] ?? "an officer"}${station ? ` (${station})` : ""}`
+        : `Assigned to ${station}`;
+    case "acknowledged":
+      return "Crew acknowledged";
+    case "en_route":
+      return "Crew en route";
+    case "on_scene":
+      return "Crew on scene";
+    case "escalated":
+      return `Not acknowledged; escalated to ${
+        ESCALATION_TARGET_LABELS[event.escalation_target as EscalationTarget]?.toLowerCase() ?? `level ${event.escalation_level}`
+      }`;
+    default:
+      return event.event_type;
+  }
+};
+
+/**
+ * Audit timeline of an alert from the alert_events table: every status change,
+ * severity change, readings update and dispatch step, with who made it.
+ */
+export const AlertTimeline = ({ alertId, refreshKey }: AlertTimelineProps) => {
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [actorNames, setActorNames] = useState<Record<string, string>>({});
+  const [stationNames, setStationNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [alertId, refreshKey]);
+
+  const fetchEvents = async () => {
+    const { data, error } = await supabase
+      .from("alert_events")
+      .select("*")
+      .eq("alert_id", alertId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching alert events:", error);
+      setLoading(false);
+      return;
+    }
+
+    const actorIds = [...new Set((data || [])
+      .flatMap((event) => [event.actor_id, event.assignee_id])
+      .filter((id): id is string => !!id))];
+    if (actorIds.length > 0) {
+      const { data: profiles } = await supabase
+        .from("profiles")
+        .select("user_id, full_name, badge_number")
+        .in("user_id", actorIds);
+
+      const names: Record<string, string> = {};
+      for (const profile of profiles || []) {
+        names[profile.user_id] = profile.full_name || profile.badge_number || "Unknown user";
+      }
+      setActorNames(names);
+    }
+
+    const stationIds = [...new Set((data || []).map((event) => event.station_id).filter((id): id is string => !!id))];
+    if (stationIds.length > 0) {
+      const { data: stations } = await supabase
+        .from("fire_stations")
+        .select("id, name")
+        .in("id", stationIds);
+
+      setStationNames(Object.fromEntries((stations || []).map((station) => [station.id, station.name])));
+    }
+
+    setEvents(data || []);
+    setLoading(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Timeline</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No history recorded for this alert.</p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {events.map((event) => {
+              const reading = normalizeReading(event.sensor_values);
+              return (
+                <li key={event.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium">{describeEvent(event, actorNames, stationNames)}</span>
+                    <Badge variant="outline">
+                      {event.actor_id ? actorNames[event.actor_id] ?? "Unknown user" : "System"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {format(new Date(event.created_at), "PPpp")}
+                  </p>
+                  {reading && (event.event_type === "readings_updated" || event.event_type === "created") && (
+                    <p className="text-xs text-muted-foreground">
+                      {formatSensorValue(reading.temperature)}{SENSOR_UNITS.temperature}
+                      {" · "}{formatSensorValue(reading.gas, 0)} {SENSOR_UNITS.gas}
+                      {reading.flameDetected && " · flame detected"}
+                    </p>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
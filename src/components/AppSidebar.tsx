@@ -1,8 +1,10 @@
-import { useState, useEffect } from "react";
-import { Home, AlertTriangle, MapPin, BarChart3, LogOut, User, Clock, Map } from "lucide-react";
+import { Home, AlertTriangle, MapPin, BarChart3, LogOut, User, Clock, Map, ShieldCheck, BadgeCheck, Building2, Siren, ListChecks } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { releaseDevice } from "@/lib/push";
+import { useRole } from "@/hooks/use-role";
+import type { AppRole } from "@/lib/roles";
 import {
   Sidebar,
   SidebarContent,
@@ -30,29 +32,21 @@ const authorityMenuItems = [
   { title: "Pending Requests", url: "/pending-requests", icon: Clock },
 ];
 
+const adminMenuItems: { title: string; url: string; icon: typeof Home; minRole: AppRole }[] = [
+  { title: "Verify Authorities", url: "/admin/verifications", icon: BadgeCheck, minRole: "incharge" },
+  { title: "Fire Stations", url: "/admin/stations", icon: Building2, minRole: "incharge" },
+  { title: "Escalation", url: "/admin/escalation", icon: Siren, minRole: "incharge" },
+  { title: "Alert Rules", url: "/admin/rules", icon: ListChecks, minRole: "incharge" },
+  { title: "Manage Roles", url: "/admin/roles", icon: ShieldCheck, minRole: "admin" },
+];
+
 export function AppSidebar() {
   const { open } = useSidebar();
   const navigate = useNavigate();
-  const [isAuthority, setIsAuthority] = useState(false);
-
-  useEffect(() => {
-    checkUserType();
-  }, []);
-
-  const checkUserType = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (user) {
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("user_type")
-        .eq("user_id", user.id)
-        .single();
-
-      setIsAuthority(profile?.user_type === "authority");
-    }
-  };
+  const { isStaff, hasMinRole } = useRole();
 
   const handleLogout = async () => {
+    await releaseDevice();
     await supabase.auth.signOut();
     navigate("/auth");
   };
@@ -88,7 +82,7 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
 
-        {isAuthority && (
+        {isStaff && (
           <SidebarGroup>
             <SidebarGroupLabel>Authority</SidebarGroupLabel>
             <SidebarGroupContent>
@@ -112,6 +106,31 @@ export function AppSidebar() {
             </SidebarGroupContent>
           </SidebarGroup>
         )}
+
+        {hasMinRole("incharge") && (
+          <SidebarGroup>
+            <SidebarGroupLabel>Admin</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {adminMenuItems.filter((item) => hasMinRole(item.minRole)).map((item) => (
+                  <SidebarMenuItem key={item.title}>
+                    <SidebarMenuButton asChild>
+                      <NavLink
+                        to={item.url}
+                        end
+                        className="flex items-center gap-3 hover:bg-accent/50 transition-colors"
+                        activeClassName="bg-accent text-accent-foreground font-medium"
+                      >
+                        <item.icon className="h-4 w-4" />
+                        {open && <span>{item.title}</span>}
+                      </NavLink>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        )}
       </SidebarContent>
 
       <SidebarFooter className="border-t border-border p-4">
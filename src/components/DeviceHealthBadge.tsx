@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import { Wifi, WifiOff } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { DEVICE_HEALTH_LABELS, getDeviceHealth, type DeviceHealth } from "@/lib/device-health";
+
+interface DeviceHealthBadgeProps {
+  /** Timestamp of the board's latest ThingSpeak entry */
+  lastReadingAt: string | null | undefined;
+  reportingIntervalSeconds: number;
+}
+
+const healthVariants: Record<DeviceHealth, "secondary" | "default" | "destructive" | "outline"> = {
+  online: "secondary",
+  stale: "default",
+  offline: "destructive",
+  unknown: "outline",
+};
+
+/** Whether a location's board is still reporting, with the age of its last entry */
+export const DeviceHealthBadge = ({ lastReadingAt, reportingIntervalSeconds }: DeviceHealthBadgeProps) => {
+  const health = getDeviceHealth(lastReadingAt, reportingIntervalSeconds);
+  const Icon = health === "online" ? Wifi : WifiOff;
+
+  return (
+    <Badge
+      variant={healthVariants[health]}
+      className="flex items-center gap-1"
+      title={`Expected every ${reportingIntervalSeconds}s`}
+    >
+      <Icon className="h-3 w-3" />
+      {DEVICE_HEALTH_LABELS[health]}
+      {lastReadingAt && health !== "online" && (
+        <span className="font-normal">
+          · {formatDistanceToNow(new Date(lastReadingAt), { addSuffix: true })}
+        </span>
+      )}
+    </Badge>
+  );
+};
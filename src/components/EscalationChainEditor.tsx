@@ -0,0 +1,103 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ESCALATION_TARGET_LABELS,
+  ESCALATION_TARGETS,
+  NOTIFICATION_LEVEL_LABELS,
+  NOTIFICATION_LEVELS,
+  type EscalationTarget,
+  type EscalationTier,
+  type NotificationLevel,
+} from "@/lib/escalation";
+
+interface EscalationChainEditorProps {
+  value: EscalationTier[];
+  onChange: (value: EscalationTier[]) => void;
+}
+
+/**
+ * Editor for an escalation chain: for each tier, how many minutes after an
+ * unacknowledged alert was raised it applies, who is brought in and how loudly.
+ */
+export const EscalationChainEditor = ({ value, onChange }: EscalationChainEditorProps) => {
+  const updateTier = (index: number, tier: EscalationTier) => {
+    onChange(value.map((current, i) => (i === index ? tier : current)));
+  };
+
+  const addTier = () => {
+    const last = value[value.length - 1];
+    onChange([
+      ...value,
+      {
+        afterMinutes: last ? last.afterMinutes + 5 : 5,
+        target: last?.target ?? "incharge",
+        notificationLevel: last?.notificationLevel ?? "urgent",
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">No tiers; alerts in this region are never escalated.</p>
+      )}
+      {value.map((tier, index) => (
+        <div key={index} className="grid gap-2 grid-cols-[7rem_1fr_1fr_auto] items-center">
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              value={tier.afterMinutes}
+              onChange={(e) => updateTier(index, { ...tier, afterMinutes: parseFloat(e.target.value) || 0 })}
+            />
+            <span className="text-sm text-muted-foreground">min</span>
+          </div>
+          <Select
+            value={tier.target}
+            onValueChange={(target) => updateTier(index, { ...tier, target: target as EscalationTarget })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ESCALATION_TARGETS.map((target) => (
+                <SelectItem key={target} value={target}>
+                  {ESCALATION_TARGET_LABELS[target]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={tier.notificationLevel}
+            onValueChange={(level) => updateTier(index, { ...tier, notificationLevel: level as NotificationLevel })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NOTIFICATION_LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {NOTIFICATION_LEVEL_LABELS[level]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={addTier}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Tier
+      </Button>
+    </div>
+  );
+};
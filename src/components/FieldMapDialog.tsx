@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Cable } from "lucide-react";
+import { FieldMapEditor } from "@/components/FieldMapEditor";
+import { DEFAULT_FIELD_MAP, resolveFieldMap, type FieldMap } from "@/lib/sensors";
+import type { Json } from "@/integrations/supabase/types";
+
+interface FieldMapDialogProps {
+  locationId: string;
+  locationName: string;
+  fieldMap: Json | null;
+  onSaved?: () => void;
+}
+
+export const FieldMapDialog = ({ locationId, locationName, fieldMap, onSaved }: FieldMapDialogProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [value, setValue] = useState<FieldMap>(DEFAULT_FIELD_MAP);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setValue(resolveFieldMap(fieldMap));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("locations")
+        .update({ field_map: value })
+        .eq("id", locationId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Sensor Wiring Saved",
+        description: `ThingSpeak field mapping for ${locationName} has been updated.`,
+      });
+      setIsOpen(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error saving sensor wiring",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Sensor wiring">
+          <Cable className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sensor Wiring</DialogTitle>
+          <DialogDescription>
+            {locationName} — which ThingSpeak field carries each sensor.
+          </DialogDescription>
+        </DialogHeader>
+        <FieldMapEditor value={value} onChange={setValue} />
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" className="flex-1" onClick={() => setValue(DEFAULT_FIELD_MAP)}>
+            Reset to Default
+          </Button>
+          <Button type="button" className="flex-1" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Wiring"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,105 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DIGITAL_SENSORS,
+  NUMERIC_SENSORS,
+  SENSOR_LABELS,
+  THINGSPEAK_FIELDS,
+  type DigitalSensor,
+  type FieldMap,
+  type FieldMapping,
+  type SensorKey,
+  type ThingSpeakField,
+} from "@/lib/sensors";
+
+interface FieldMapEditorProps {
+  value: FieldMap;
+  onChange: (value: FieldMap) => void;
+}
+
+const NOT_WIRED = "none";
+
+const parseOptionalNumber = (value: string) => (value === "" ? undefined : parseFloat(value));
+
+/**
+ * Editor for a location's ThingSpeak field mapping: which field carries each
+ * sensor, whether digital sensors are active low, and scaling of numeric ones.
+ */
+export const FieldMapEditor = ({ value, onChange }: FieldMapEditorProps) => {
+  const updateMapping = (sensor: SensorKey, mapping: FieldMapping | undefined) => {
+    const next = { ...value };
+    if (mapping) {
+      next[sensor] = mapping;
+    } else {
+      delete next[sensor];
+    }
+    onChange(next);
+  };
+
+  const handleFieldChange = (sensor: SensorKey, field: string) => {
+    if (field === NOT_WIRED) {
+      updateMapping(sensor, undefined);
+      return;
+    }
+    updateMapping(sensor, { ...value[sensor], field: field as ThingSpeakField });
+  };
+
+  return (
+    <div className="space-y-3">
+      {[...NUMERIC_SENSORS, ...DIGITAL_SENSORS].map((sensor) => {
+        const mapping = value[sensor];
+        const isDigital = DIGITAL_SENSORS.includes(sensor as DigitalSensor);
+
+        return (
+          <div key={sensor} className="grid gap-2 grid-cols-[8rem_1fr_1fr_1fr] items-center">
+            <Label className="text-sm">{SENSOR_LABELS[sensor]}</Label>
+            <Select value={mapping?.field ?? NOT_WIRED} onValueChange={(field) => handleFieldChange(sensor, field)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NOT_WIRED}>Not wired</SelectItem>
+                {THINGSPEAK_FIELDS.map((field) => (
+                  <SelectItem key={field} value={field}>
+                    {field}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {mapping && isDigital && (
+              <label className="flex items-center gap-2 text-sm col-span-2">
+                <Checkbox
+                  checked={mapping.invert ?? false}
+                  onCheckedChange={(checked) => updateMapping(sensor, { ...mapping, invert: checked === true })}
+                />
+                Active low ("0" = triggered)
+              </label>
+            )}
+
+            {mapping && !isDigital && (
+              <>
+                <Input
+                  type="number"
+                  step="any"
+                  value={mapping.scale ?? ""}
+                  onChange={(e) => updateMapping(sensor, { ...mapping, scale: parseOptionalNumber(e.target.value) })}
+                  placeholder="Scale (1)"
+                />
+                <Input
+                  type="number"
+                  step="any"
+                  value={mapping.offset ?? ""}
+                  onChange={(e) => updateMapping(sensor, { ...mapping, offset: parseOptionalNumber(e.target.value) })}
+                  placeholder="Offset (0)"
+                />
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
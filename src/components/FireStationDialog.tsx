@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Navigation, Pencil, Plus } from "lucide-react";
+
+export interface FireStation {
+  id: string;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  latitude: number;
+  longitude: number;
+  total_units: number;
+  available_units: number;
+  coverage_radius_km: number | null;
+}
+
+interface FireStationDialogProps {
+  /** Station to edit; omit to add a new one */
+  station?: FireStation;
+  onSaved?: () => void;
+}
+
+const toFormData = (station?: FireStation) => ({
+  name: station?.name ?? "",
+  address: station?.address ?? "",
+  phone: station?.phone ?? "",
+  latitude: station ? String(station.latitude) : "",
+  longitude: station ? String(station.longitude) : "",
+  total_units: station ? String(station.total_units) : "",
+  available_units: station ? String(station.available_units) : "",
+  coverage_radius_km: station?.coverage_radius_km != null ? String(station.coverage_radius_km) : "",
+});
+
+export const FireStationDialog = ({ station, onSaved }: FireStationDialogProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [gettingLocation, setGettingLocation] = useState(false);
+  const [formData, setFormData] = useState(toFormData(station));
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) setFormData(toFormData(station));
+  };
+
+  const getCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast({
+        title: "Geolocation not supported",
+        description: "Your browser doesn't support location access.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setGettingLocation(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setFormData((current) => ({
+          ...current,
+          latitude: position.coords.latitude.toString(),
+          longitude: position.coords.longitude.toString(),
+        }));
+        setGettingLocation(false);
+      },
+      () => {
+        toast({
+          title: "Location access denied",
+          description: "Please allow location access or enter coordinates manually.",
+          variant: "destructive",
+        });
+        setGettingLocation(false);
+      }
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const totalUnits = parseInt(formData.total_units, 10);
+    const availableUnits = parseInt(formData.available_units, 10);
+    const coverageRadius = formData.coverage_radius_km.trim() === "" ? null : parseFloat(formData.coverage_radius_km);
+
+    if (!(totalUnits >= 0) || !(availableUnits >= 0) || availableUnits > totalUnits) {
+      toast({
+        title: "Invalid units",
+        description: "Available units must be between 0 and the station's total units.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (coverageRadius !== null && !(coverageRadius > 0)) {
+      toast({
+        title: "Invalid coverage area",
+        description: "Coverage radius must be greater than 0, or left empty to cover everywhere.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const values = {
+      name: formData.name.trim(),
+      address: formData.address.trim() || null,
+      phone: formData.phone.trim() || null,
+      latitude: parseFloat(formData.latitude),
+      longitude: parseFloat(formData.longitude),
+      total_units: totalUnits,
+      available_units: availableUnits,
+      coverage_radius_km: coverageRadius,
+    };
+
+    setIsSaving(true);
+    try {
+      const { error } = station
+        ? await supabase.from("fire_stations").update(values).eq("id", station.id)
+        : await supabase.from("fire_stations").insert(values);
+
+      if (error) throw error;
+
+      toast({
+        title: station ? "Station Updated" : "Station Added",
+        description: `${values.name} has been saved.`,
+      });
+      setIsOpen(false);
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error saving station",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {station ? (
+          <Button variant="outline" size="icon" title="Edit station">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Station
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{station ? "Edit Fire Station" : "Add Fire Station"}</DialogTitle>
+          <DialogDescription>
+            Stations are shown on the map and used to pick who responds to an alert.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="station-name">Station Name</Label>
+              <Input
+                id="station-name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="Delhi Fire Station Central"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="station-phone">Phone</Label>
+              <Input
+                id="station-phone"
+                type="tel"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                placeholder="+91 11 2345 6789"
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="station-address">Address</Label>
+              <Input
+                id="station-address"
+                value={formData.address}
+                onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                placeholder="Connaught Place, New Delhi"
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <div className="flex items-center justify-between mb-2">
+                <Label>Station Coordinates</Label>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={getCurrentLocation}
+                  disabled={gettingLocation}
+                >
+                  <Navigation className="h-4 w-4 mr-2" />
+                  {gettingLocation ? "Getting..." : "Use Current Location"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="station-latitude">Latitude</Label>
+              <Input
+                id="station-latitude"
+                type="number"
+                step="any"
+                value={formData.latitude}
+                onChange={(e) => setFormData({ ...formData, latitude: e.target.value })}
+                placeholder="28.6139"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="station-longitude">Longitude</Label>
+              <Input
+                id="station-longitude"
+                type="number"
+                step="any"
+                value={formData.longitude}
+                onChange={(e) => setFormData({ ...formData, longitude: e.target.value })}
+                placeholder="77.2090"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="station-total-units">Total Units</Label>
+              <Input
+                id="station-total-units"
+                type="number"
+                min="0"
+                value={formData.total_units}
+                onChange={(e) => setFormData({ ...formData, total_units: e.target.value })}
+                placeholder="4"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="station-available-units">Available Units</Label>
+              <Input
+                id="station-available-units"
+                type="number"
+                min="0"
+                value={formData.available_units}
+                onChange={(e) => setFormData({ ...formData, available_units: e.target.value })}
+                placeholder="4"
+                required
+              />
+            </div>
+
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="station-coverage">Coverage Radius (km)</Label>
+              <Input
+                id="station-coverage"
+                type="number"
+                step="any"
+                min="0"
+                value={formData.coverage_radius_km}
+                onChange={(e) => setFormData({ ...formData, coverage_radius_km: e.target.value })}
+                placeholder="Leave empty to cover everywhere"
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? "Saving..." : station ? "Save Station" : "Add Station"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -2,21 +2,40 @@ import { useEffect, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useNavigate } from "react-router-dom";
+import { useRole } from "@/hooks/use-role";
+import { reportDispatchStep } from "@/lib/dispatch";
+import { isMaintenanceAlert, MAINTENANCE_ALERT_TYPES } from "@/lib/device-health";
+import { ESCALATION_TARGET_LABELS, type EscalationTarget, type NotificationLevel } from "@/lib/escalation";
+
+const TOAST_COLORS: Record<NotificationLevel, string> = {
+  standard: "#dc2626",
+  urgent: "#b91c1c",
+  critical: "#7f1d1d",
+};
 
 export const GlobalAlertListener = () => {
   const navigate = useNavigate();
-  // Track by location_id to ensure only one alert per location
-  const shownLocations = useRef<Set<string>>(new Set());
+  const { isStaff } = useRole();
+  // Read from the realtime handler, which is only subscribed once
+  const isStaffRef = useRef(isStaff);
+  isStaffRef.current = isStaff;
+  // Track by location_id to ensure only one alert per location, with the
+  // escalation level it was shown at so an escalation shows it again
+  const shownLocations = useRef<Map<string, number>>(new Map());
 
   useEffect(() => {
     const showAlertToast = async (alert: any) => {
       if (!alert) return;
 
+      // Offline boards and faulty sensors need upkeep, not a fire alarm; they
+      // are listed on the Alerts page
+      if (isMaintenanceAlert(alert.alert_type)) return;
+
       const locationId = String(alert.location_id);
       const status = (alert.status as string | null) ?? "active";
 
-      // If alert has been resolved, dismiss toast for that location
-      if (status === "resolved" || status === "unsolved" || status === "false_alarm") {
+      // If alert has been resolved or auto-cleared, dismiss toast for that location
+      if (status === "resolved" || status === "unsolved" || status === "false_alarm" || status === "auto_cleared") {
         toast.dismiss(locationId);
         shownLocations.current.delete(locationId);
         return;
@@ -27,12 +46,24 @@ export const GlobalAlertListener = () => {
         return;
       }
 
-      // Only one alert per location
-      if (shownLocations.current.has(locationId)) {
+      // Once a crew acknowledges the alert it no longer needs attention
+      if (alert.acknowledged_at) {
+        toast.dismiss(locationId);
+        shownLocations.current.delete(locationId);
         return;
       }
 
-      shownLocations.current.add(locationId);
+      // Only one alert per location, shown again when it escalates
+      const escalationLevel = Number(alert.escalation_level ?? 0);
+      const shownLevel = shownLocations.current.get(locationId);
+      if (shownLevel !== undefined && escalationLevel <= shownLevel) {
+        return;
+      }
+
+      shownLocations.current.set(locationId, escalationLevel);
+
+      const notificationLevel: NotificationLevel = alert.notification_level ?? "standard";
+      const escalationTarget = ESCALATION_TARGET_LABELS[alert.escalation_target as EscalationTarget];
 
       // Fetch location name
       const { data: location } = await supabase
@@ -55,6 +86,9 @@ export const GlobalAlertListener = () => {
         case "temperature":
           typeDisplay = "HIGH TEMPERATURE";
           break;
+        case "life_safety":
+          typeDisplay = "LIFE SAFETY";
+          break;
         default:
           typeDisplay = alert.alert_type?.toUpperCase() || "ALERT";
       }
@@ -63,14 +97,16 @@ export const GlobalAlertListener = () => {
       toast.custom(
         (t) => (
           <div
-            style={{ backgroundColor: '#dc2626' }}
-            className="text-white p-4 rounded-lg shadow-2xl border border-red-800 w-[350px] cursor-pointer"
+            style={{ backgroundColor: TOAST_COLORS[notificationLevel] ?? TOAST_COLORS.standard }}
+            className={`text-white p-4 rounded-lg shadow-2xl border border-red-800 w-[350px] cursor-pointer${
+              notificationLevel === "critical" ? " animate-pulse" : ""
+            }`}
             onClick={() => navigate(`/alert/${alert.id}`)}
           >
             <div className="flex justify-between items-start gap-3">
               <div className="space-y-2 flex-1">
                 <h3 className="text-lg font-bold text-white">
-                  🔥 FIRE DETECTED!
+                  🔥 {notificationLevel === "standard" ? "" : `${notificationLevel.toUpperCase()}: `}FIRE DETECTED!
                 </h3>
                 <p className="text-sm">
                   <span className="text-red-100">LOCATION:</span>{" "}
@@ -80,6 +116,12 @@ export const GlobalAlertListener = () => {
                   <span className="text-red-100">TYPE:</span>{" "}
                   <span className="font-semibold">{typeDisplay}</span>
                 </p>
+                {escalationTarget && (
+                  <p className="text-sm">
+                    <span className="text-red-100">NOT ACKNOWLEDGED:</span>{" "}
+                    <span className="font-semibold">escalated to {escalationTarget.toLowerCase()}</span>
+                  </p>
+                )}
               </div>
               <div className="flex flex-col items-end gap-2">
                 <button
@@ -101,6 +143,21 @@ export const GlobalAlertListener = () => {
                 >
                   VIEW DETAILS
                 </button>
+                {isStaffRef.current && (
+                  <button
+                    onClick={async (e) => {
+                      e.stopPropagation();
+                      try {
+                        await reportDispatchStep(alert.id, "acknowledged");
+                      } catch (error) {
+                        toast.error(error instanceof Error ? error.message : "Unknown error");
+                      }
+                    }}
+                    className="bg-white text-red-600 px-3 py-1 rounded text-xs font-bold hover:bg-red-100 transition-colors"
+                  >
+                    ACKNOWLEDGE
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -131,6 +188,7 @@ export const GlobalAlertListener = () => {
         .from("alerts")
         .select("*")
         .in("status", ["active", "in_queue"])
+        .not("alert_type", "in", `(${MAINTENANCE_ALERT_TYPES.join(",")})`)
         .order("created_at", { ascending: false });
 
       if (alerts && alerts.length > 0) {
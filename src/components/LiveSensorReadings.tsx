@@ -6,30 +6,27 @@ import { SensorCard } from "@/components/SensorCard";
 import { Thermometer, Wind, Flame, Droplets, Activity, RefreshCw } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow } from "date-fns";
-
-interface SensorData {
-  flame: string;
-  gas: number;
-  temperature: number;
-  humidity: number;
-  pir: string;
-  timestamp: string;
-}
+import { useLocationThresholds } from "@/hooks/use-location-thresholds";
+import { getThresholdStatus } from "@/lib/thresholds";
+import { formatSensorValue, SENSOR_UNITS, type SensorReading } from "@/lib/sensors";
+import { DeviceHealthBadge } from "@/components/DeviceHealthBadge";
+import { useAlertSettings } from "@/hooks/use-alert-settings";
 
 interface Location {
   id: string;
   name: string;
   region: string;
   thingspeak_channel_id: string | null;
-  thingspeak_read_key: string | null;
 }
 
 export const LiveSensorReadings = () => {
   const { toast } = useToast();
-  const [sensorData, setSensorData] = useState<SensorData | null>(null);
+  const [sensorData, setSensorData] = useState<SensorReading | null>(null);
   const [location, setLocation] = useState<Location | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const thresholds = useLocationThresholds(location?.id);
+  const getAlertSettings = useAlertSettings();
 
   useEffect(() => {
     fetchLocationAndSensorData();
@@ -41,10 +38,10 @@ export const LiveSensorReadings = () => {
 
   const fetchLocationAndSensorData = async () => {
     try {
-      // Get location with ThingSpeak credentials
+      // Get a location with a ThingSpeak channel
       const { data: locations, error: locationError } = await supabase
         .from("locations")
-        .select("id, name, region, thingspeak_channel_id, thingspeak_read_key")
+        .select("id, name, region, thingspeak_channel_id")
         .not("thingspeak_channel_id", "is", null)
         .limit(1)
         .single();
@@ -62,7 +59,7 @@ export const LiveSensorReadings = () => {
       const { data, error } = await supabase.functions.invoke("thingspeak-service", {
         body: {
           action: "latest",
-          location: locations,
+          locationId: locations.id,
         },
       });
 
@@ -88,28 +85,9 @@ export const LiveSensorReadings = () => {
     });
   };
 
-  const getSensorStatus = (type: string, value: number | string): "normal" | "warning" | "danger" => {
-    if (type === "temperature") {
-      const temp = typeof value === "number" ? value : parseFloat(value);
-      if (temp > 45) return "danger";
-      if (temp > 35) return "warning";
-      return "normal";
-    }
-    if (type === "gas") {
-      const gas = typeof value === "number" ? value : parseFloat(value);
-      if (gas > 800) return "danger";
-      if (gas > 400) return "warning";
-      return "normal";
-    }
-    if (type === "flame") {
-      return value === "1" || value === 1 ? "danger" : "normal";
-    }
-    if (type === "humidity") {
-      const hum = typeof value === "number" ? value : parseFloat(value);
-      if (hum < 20 || hum > 80) return "warning";
-      return "normal";
-    }
-    return "normal";
+  const getHumidityStatus = (humidity: number | null): "normal" | "warning" => {
+    if (humidity === null) return "normal";
+    return humidity < 20 || humidity > 80 ? "warning" : "normal";
   };
 
   if (isLoading) {
@@ -141,9 +119,15 @@ export const LiveSensorReadings = () => {
             {location.name} - {location.region}
           </p>
           {sensorData?.timestamp && (
-            <p className="text-xs text-muted-foreground mt-1">
-              Last updated: {formatDistanceToNow(new Date(sensorData.timestamp), { addSuffix: true })}
-            </p>
+            <div className="flex items-center gap-2 mt-1">
+              <p className="text-xs text-muted-foreground">
+                Last updated: {formatDistanceToNow(new Date(sensorData.timestamp), { addSuffix: true })}
+              </p>
+              <DeviceHealthBadge
+                lastReadingAt={sensorData.timestamp}
+                reportingIntervalSeconds={getAlertSettings(location.id).reportingIntervalSeconds}
+              />
+            </div>
           )}
         </div>
         <Button
@@ -161,36 +145,39 @@ export const LiveSensorReadings = () => {
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
             <SensorCard
               title="Temperature"
-              value={sensorData.temperature?.toFixed(1) ?? "--"}
-              unit="°C"
+              value={formatSensorValue(sensorData.temperature)}
+              unit={SENSOR_UNITS.temperature}
               icon={Thermometer}
-              status={getSensorStatus("temperature", sensorData.temperature)}
+              status={getThresholdStatus(sensorData.temperature, thresholds.temperature)}
+              fault={sensorData.faults?.temperature}
             />
             <SensorCard
               title="Gas Level"
-              value={sensorData.gas?.toFixed(0) ?? "--"}
-              unit="ppm"
+              value={formatSensorValue(sensorData.gas, 0)}
+              unit={SENSOR_UNITS.gas}
               icon={Wind}
-              status={getSensorStatus("gas", sensorData.gas)}
+              status={getThresholdStatus(sensorData.gas, thresholds.gas)}
+              fault={sensorData.faults?.gas}
             />
             <SensorCard
               title="Flame Detected"
-              value={String(sensorData.flame) === "1" ? "Yes" : "No"}
+              value={sensorData.flameDetected ? "Yes" : "No"}
               icon={Flame}
-              status={getSensorStatus("flame", sensorData.flame)}
+              status={sensorData.flameDetected ? "danger" : "normal"}
             />
             <SensorCard
               title="Humidity"
-              value={sensorData.humidity?.toFixed(1) ?? "--"}
-              unit="%"
+              value={formatSensorValue(sensorData.humidity)}
+              unit={SENSOR_UNITS.humidity}
               icon={Droplets}
-              status={getSensorStatus("humidity", sensorData.humidity)}
+              status={getHumidityStatus(sensorData.humidity)}
+              fault={sensorData.faults?.humidity}
             />
             <SensorCard
               title="Motion (PIR)"
-              value={String(sensorData.pir) === "1" ? "Detected" : "None"}
+              value={sensorData.motionDetected ? "Detected" : "None"}
               icon={Activity}
-              status={String(sensorData.pir) === "1" ? "warning" : "normal"}
+              status={sensorData.motionDetected ? "warning" : "normal"}
             />
           </div>
         ) : (
@@ -1,39 +1,49 @@
-import { MapPin } from "lucide-react";
+import { BellOff, BellPlus, MapPin } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useNavigate } from "react-router-dom";
+import type { LocationStatus } from "@/lib/location-status";
 
 interface LocationCardProps {
   id: string;
   name: string;
   region: string;
-  status: "normal" | "warning" | "alert";
+  status: LocationStatus;
   latitude: number;
   longitude: number;
   onCheckSensors?: (locationId: string) => void;
   isChecking?: boolean;
+  isFollowing?: boolean;
+  /** The signed-in user requested this location */
+  isOwner?: boolean;
+  onToggleFollow?: (locationId: string) => void;
 }
 
-const statusConfig = {
+const statusConfig: Record<LocationStatus, { color: string; label: string; variant: "secondary" | "default" | "destructive" | "outline" }> = {
   normal: {
     color: "bg-status-normal",
     label: "Normal",
-    variant: "secondary" as const,
+    variant: "secondary",
   },
   warning: {
     color: "bg-status-warning",
     label: "Warning",
-    variant: "default" as const,
+    variant: "default",
   },
   alert: {
     color: "bg-status-alert glow-alert",
     label: "Alert",
-    variant: "destructive" as const,
+    variant: "destructive",
+  },
+  offline: {
+    color: "bg-muted-foreground",
+    label: "Offline",
+    variant: "outline",
   },
 };
 
-export const LocationCard = ({ id, name, region, status, latitude, longitude, onCheckSensors, isChecking }: LocationCardProps) => {
+export const LocationCard = ({ id, name, region, status, latitude, longitude, onCheckSensors, isChecking, isFollowing, isOwner, onToggleFollow }: LocationCardProps) => {
   const navigate = useNavigate();
   const config = statusConfig[status];
 
@@ -53,7 +63,10 @@ export const LocationCard = ({ id, name, region, status, latitude, longitude, on
               <p className="text-sm text-muted-foreground">{region}</p>
             </div>
           </div>
-          <Badge variant={config.variant}>{config.label}</Badge>
+          <div className="flex flex-col items-end gap-1">
+            <Badge variant={config.variant}>{config.label}</Badge>
+            {isOwner && <Badge variant="outline">Your location</Badge>}
+          </div>
         </div>
       </CardHeader>
       <CardContent>
@@ -90,6 +103,19 @@ export const LocationCard = ({ id, name, region, status, latitude, longitude, on
                 {isChecking ? "Checking..." : "Check Sensors"}
               </Button>
             )}
+            {onToggleFollow && !isOwner && (
+              <Button
+                size="sm"
+                variant={isFollowing ? "secondary" : "outline"}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleFollow(id);
+                }}
+                title={isFollowing ? "Stop getting alerts for this location" : "Get alerts for this location"}
+              >
+                {isFollowing ? <BellOff className="h-4 w-4" /> : <BellPlus className="h-4 w-4" />}
+              </Button>
+            )}
           </div>
         </div>
       </CardContent>
@@ -1,18 +1,19 @@
-import { AlertTriangle, Flame, Gauge, Wind } from "lucide-react";
+import { AlertTriangle, Flame, Gauge, LifeBuoy, Wind, WifiOff, Wrench } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { formatDistanceToNow } from "date-fns";
 import { useNavigate } from "react-router-dom";
+import { canTransition, type AlertStatus } from "@/lib/alert-status";
 
 interface NotificationCardProps {
   id: string;
   locationType: string;
-  alertType: "fire" | "gas_leak" | "temperature" | "motion";
+  alertType: "fire" | "gas_leak" | "temperature" | "motion" | "device_offline" | "sensor_fault" | "life_safety";
   timestamp: string;
   severity: "low" | "medium" | "high" | "critical";
-  status: "active" | "resolved" | "false_alarm" | "in_queue" | "unsolved";
-  onStatusChange?: (alertId: string, newStatus: string) => void;
+  status: AlertStatus;
+  onStatusChange?: (alertId: string, newStatus: AlertStatus) => void;
   isAuthorityUser?: boolean;
 }
 
@@ -21,6 +22,9 @@ const alertIcons = {
   gas_leak: Wind,
   temperature: Gauge,
   motion: AlertTriangle,
+  device_offline: WifiOff,
+  sensor_fault: Wrench,
+  life_safety: LifeBuoy,
 };
 
 const severityColors = {
@@ -44,7 +48,7 @@ export const NotificationCard = ({
   const Icon = alertIcons[alertType];
   const isActive = status === "active";
 
-  const handleStatusChange = (newStatus: string) => {
+  const handleStatusChange = (newStatus: AlertStatus) => {
     if (onStatusChange) {
       onStatusChange(id, newStatus);
     }
@@ -94,6 +98,7 @@ export const NotificationCard = ({
                 size="sm" 
                 variant={status === "in_queue" ? "default" : "outline"}
                 onClick={() => handleStatusChange("in_queue")}
+                disabled={!canTransition(status, "in_queue")}
                 className="flex-1 min-w-[100px]"
               >
                 In Queue
@@ -102,6 +107,7 @@ export const NotificationCard = ({
                 size="sm" 
                 variant={status === "resolved" ? "default" : "outline"}
                 onClick={() => handleStatusChange("resolved")}
+                disabled={!canTransition(status, "resolved")}
                 className="flex-1 min-w-[100px]"
               >
                 Solved
@@ -110,6 +116,7 @@ export const NotificationCard = ({
                 size="sm" 
                 variant={status === "unsolved" ? "default" : "outline"}
                 onClick={() => handleStatusChange("unsolved")}
+                disabled={!canTransition(status, "unsolved")}
                 className="flex-1 min-w-[100px]"
               >
                 Unsolved
@@ -0,0 +1,99 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { format } from "date-fns";
+import { Send } from "lucide-react";
+import {
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_EVENT_LABELS,
+  type NotificationChannel,
+  type NotificationEvent,
+} from "@/lib/notifications";
+
+interface NotificationDeliveriesProps {
+  /** Show deliveries for one alert... */
+  alertId?: string;
+  /** ...or the latest deliveries to one user */
+  userId?: string;
+  /** Changes whenever new deliveries may exist (e.g. the alert's updated_at) to reload them */
+  refreshKey?: string;
+}
+
+interface Delivery {
+  id: string;
+  alert_id: string;
+  event: string;
+  channel: string;
+  recipient: string;
+  provider: string;
+  status: string;
+  error: string | null;
+  created_at: string;
+}
+
+/** How many deliveries to a user are listed */
+const USER_DELIVERY_LIMIT = 20;
+
+/**
+ * Log of the email, SMS and webhook notifications sent for an alert or to a
+ * user, including failed attempts.
+ */
+export const NotificationDeliveries = ({ alertId, userId, refreshKey }: NotificationDeliveriesProps) => {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+
+  useEffect(() => {
+    const fetchDeliveries = async () => {
+      let query = supabase
+        .from("notification_deliveries")
+        .select("id, alert_id, event, channel, recipient, provider, status, error, created_at")
+        .order("created_at", { ascending: false });
+
+      if (alertId) query = query.eq("alert_id", alertId);
+      if (userId) query = query.eq("user_id", userId).limit(USER_DELIVERY_LIMIT);
+
+      const { data } = await query;
+      setDeliveries(data || []);
+    };
+
+    fetchDeliveries();
+  }, [alertId, userId, refreshKey]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Send className="h-5 w-5" />
+          {alertId ? "Notifications Sent" : "Recent Notifications"}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notifications sent yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="flex items-start justify-between gap-3 border-b pb-3 last:border-0">
+                <div className="space-y-1 min-w-0">
+                  <p className="text-sm font-medium">
+                    {NOTIFICATION_EVENT_LABELS[delivery.event as NotificationEvent] ?? delivery.event}
+                    {" · "}
+                    {NOTIFICATION_CHANNEL_LABELS[delivery.channel as NotificationChannel] ?? delivery.channel}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {delivery.recipient} via {delivery.provider}
+                  </p>
+                  {delivery.error && <p className="text-xs text-destructive">{delivery.error}</p>}
+                </div>
+                <div className="text-right space-y-1 shrink-0">
+                  <Badge variant={delivery.status === "sent" ? "secondary" : "destructive"}>{delivery.status}</Badge>
+                  <p className="text-xs text-muted-foreground">{format(new Date(delivery.created_at), "PPp")}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
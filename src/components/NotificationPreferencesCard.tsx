@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { BellRing } from "lucide-react";
+import { NOTIFICATION_LEVEL_LABELS, NOTIFICATION_LEVELS } from "@/lib/escalation";
+import type { NotificationPreferences } from "@/lib/notifications";
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
+
+interface NotificationPreferencesCardProps {
+  userId: string;
+  /** Suggested SMS number until the user saves one */
+  defaultPhone?: string;
+}
+
+/**
+ * Lets a user choose the outbound channels (email, SMS, and webhook for staff)
+ * alerts are sent on and the lowest notification level worth sending, and
+ * turn push notifications on or off for the device they are using.
+ */
+export const NotificationPreferencesCard = ({ userId, defaultPhone }: NotificationPreferencesCardProps) => {
+  const { toast } = useToast();
+  const { isStaff } = useRole();
+  const [isSaving, setIsSaving] = useState(false);
+  const [isPushEnabled, setIsPushEnabled] = useState(false);
+  const [isPushUpdating, setIsPushUpdating] = useState(false);
+  const [preferences, setPreferences] = useState<NotificationPreferences>({
+    email_enabled: false,
+    email_address: null,
+    sms_enabled: false,
+    sms_number: null,
+    webhook_enabled: false,
+    webhook_url: null,
+    min_level: "standard",
+  });
+
+  useEffect(() => {
+    const fetchPreferences = async () => {
+      const { data } = await supabase
+        .from("notification_preferences")
+        .select("email_enabled, email_address, sms_enabled, sms_number, webhook_enabled, webhook_url, min_level")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      if (data) {
+        setPreferences(data);
+        return;
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      setPreferences((current) => ({
+        ...current,
+        email_address: user?.email ?? null,
+        sms_number: defaultPhone || null,
+      }));
+    };
+
+    fetchPreferences();
+  }, [userId, defaultPhone]);
+
+  useEffect(() => {
+    getPushSubscription().then((subscription) => setIsPushEnabled(!!subscription));
+  }, []);
+
+  const handlePushChange = async (enabled: boolean) => {
+    setIsPushUpdating(true);
+    try {
+      if (enabled) {
+        await subscribeToPush();
+      } else {
+        await unsubscribeFromPush();
+      }
+      setIsPushEnabled(enabled);
+    } catch (error) {
+      toast({
+        title: "Error updating push notifications",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPushUpdating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (preferences.email_enabled && !preferences.email_address) {
+      toast({ title: "Email address required", description: "Enter an address or turn email off.", variant: "destructive" });
+      return;
+    }
+    if (preferences.sms_enabled && !preferences.sms_number) {
+      toast({ title: "Phone number required", description: "Enter a number or turn SMS off.", variant: "destructive" });
+      return;
+    }
+    if (preferences.webhook_enabled && !/^https?:\/\//.test(preferences.webhook_url ?? "")) {
+      toast({ title: "Invalid webhook URL", description: "The URL must start with http:// or https://.", variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: userId, ...preferences }, { onConflict: "user_id" });
+
+      if (error) throw error;
+
+      toast({
+        title: "Notification preferences saved",
+        description: "Alerts will be sent on the channels you turned on.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error saving notification preferences",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="h-5 w-5" />
+          Alert Notifications
+        </CardTitle>
+        <CardDescription>
+          Get alerts you respond to or at locations you follow, even when FireProtector is not open
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isPushSupported() && (
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="notify-push">Push on this device</Label>
+              <p className="text-xs text-muted-foreground">Saved right away; set up each phone or browser separately</p>
+            </div>
+            <Switch
+              id="notify-push"
+              checked={isPushEnabled}
+              onCheckedChange={handlePushChange}
+              disabled={isPushUpdating}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="notify-email">Email</Label>
+            <Switch
+              id="notify-email"
+              checked={preferences.email_enabled}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, email_enabled: checked })}
+            />
+          </div>
+          <Input
+            type="email"
+            value={preferences.email_address ?? ""}
+            onChange={(e) => setPreferences({ ...preferences, email_address: e.target.value || null })}
+            placeholder="you@example.com"
+            disabled={!preferences.email_enabled}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="notify-sms">SMS</Label>
+            <Switch
+              id="notify-sms"
+              checked={preferences.sms_enabled}
+              onCheckedChange={(checked) => setPreferences({ ...preferences, sms_enabled: checked })}
+            />
+          </div>
+          <Input
+            type="tel"
+            value={preferences.sms_number ?? ""}
+            onChange={(e) => setPreferences({ ...preferences, sms_number: e.target.value || null })}
+            placeholder="+91 1234567890"
+            disabled={!preferences.sms_enabled}
+          />
+        </div>
+
+        {isStaff && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify-webhook">Webhook</Label>
+              <Switch
+                id="notify-webhook"
+                checked={preferences.webhook_enabled}
+                onCheckedChange={(checked) => setPreferences({ ...preferences, webhook_enabled: checked })}
+              />
+            </div>
+            <Input
+              type="url"
+              value={preferences.webhook_url ?? ""}
+              onChange={(e) => setPreferences({ ...preferences, webhook_url: e.target.value || null })}
+              placeholder="https://example.com/hooks/fire-alerts"
+              disabled={!preferences.webhook_enabled}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Send alerts from</Label>
+          <Select
+            value={preferences.min_level}
+            onValueChange={(minLevel) => setPreferences({ ...preferences, min_level: minLevel })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {NOTIFICATION_LEVELS.map((level) => (
+                <SelectItem key={level} value={level}>
+                  {NOTIFICATION_LEVEL_LABELS[level]} and above
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Button className="w-full" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? "Saving..." : "Save Notification Preferences"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,115 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  DIGITAL_OPERATORS,
+  NUMERIC_OPERATORS,
+  RULE_OPERATOR_LABELS,
+  RULE_SENSORS,
+  type RuleCondition,
+  type RuleOperator,
+} from "@/lib/alert-rules";
+import { DIGITAL_SENSORS, SENSOR_LABELS, SENSOR_UNITS, type DigitalSensor, type NumericSensor, type SensorKey } from "@/lib/sensors";
+
+interface RuleConditionsEditorProps {
+  value: RuleCondition[];
+  onChange: (value: RuleCondition[]) => void;
+}
+
+const isDigital = (sensor: SensorKey) => DIGITAL_SENSORS.includes(sensor as DigitalSensor);
+
+/**
+ * Editor for the conditions of an alert rule; the rule holds when every
+ * condition does.
+ */
+export const RuleConditionsEditor = ({ value, onChange }: RuleConditionsEditorProps) => {
+  const updateCondition = (index: number, condition: RuleCondition) => {
+    onChange(value.map((current, i) => (i === index ? condition : current)));
+  };
+
+  // Switching between a numeric and a digital sensor resets the operator
+  const changeSensor = (index: number, sensor: SensorKey) => {
+    const condition = value[index];
+    if (isDigital(sensor) === isDigital(condition.sensor)) {
+      updateCondition(index, { ...condition, sensor });
+    } else {
+      updateCondition(index, isDigital(sensor)
+        ? { sensor, operator: "detected" }
+        : { sensor, operator: "above", value: 0 });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.length === 0 && (
+        <p className="text-sm text-muted-foreground">No conditions; add at least one.</p>
+      )}
+      {value.map((condition, index) => {
+        const digital = isDigital(condition.sensor);
+
+        return (
+          <div key={index} className="grid gap-2 grid-cols-[1fr_9rem_8rem_auto] items-center">
+            <Select value={condition.sensor} onValueChange={(sensor) => changeSensor(index, sensor as SensorKey)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RULE_SENSORS.map((sensor) => (
+                  <SelectItem key={sensor} value={sensor}>
+                    {SENSOR_LABELS[sensor]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select
+              value={condition.operator}
+              onValueChange={(operator) => updateCondition(index, { ...condition, operator: operator as RuleOperator })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(digital ? DIGITAL_OPERATORS : NUMERIC_OPERATORS).map((operator) => (
+                  <SelectItem key={operator} value={operator}>
+                    {RULE_OPERATOR_LABELS[operator]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {digital ? (
+              <span />
+            ) : (
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  step="any"
+                  value={condition.value ?? 0}
+                  onChange={(e) => updateCondition(index, { ...condition, value: parseFloat(e.target.value) || 0 })}
+                />
+                <span className="text-sm text-muted-foreground">{SENSOR_UNITS[condition.sensor as NumericSensor]}</span>
+              </div>
+            )}
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={() => onChange(value.filter((_, i) => i !== index))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { sensor: "gas", operator: "above", value: 400 }])}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Condition
+      </Button>
+    </div>
+  );
+};
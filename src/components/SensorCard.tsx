@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LucideIcon } from "lucide-react";
+import { SENSOR_FAULT_LABELS, type SensorFault } from "@/lib/sensor-faults";
 
 interface SensorCardProps {
   title: string;
@@ -7,6 +8,8 @@ interface SensorCardProps {
   unit?: string;
   icon: LucideIcon;
   status?: "normal" | "warning" | "danger";
+  /** The value was rejected as implausible; shown instead of the status */
+  fault?: SensorFault;
 }
 
 const statusColors = {
@@ -15,18 +18,21 @@ const statusColors = {
   danger: "text-status-alert",
 };
 
-export const SensorCard = ({ title, value, unit, icon: Icon, status = "normal" }: SensorCardProps) => {
+export const SensorCard = ({ title, value, unit, icon: Icon, status = "normal", fault }: SensorCardProps) => {
   return (
     <Card className="transition-all hover:scale-[1.02]">
       <CardHeader className="flex flex-row items-center justify-between pb-2">
         <CardTitle className="text-sm font-medium text-muted-foreground">{title}</CardTitle>
-        <Icon className={`h-4 w-4 ${statusColors[status]}`} />
+        <Icon className={`h-4 w-4 ${fault ? "text-muted-foreground" : statusColors[status]}`} />
       </CardHeader>
       <CardContent>
         <div className="text-2xl font-bold">
           {value}
           {unit && <span className="text-lg text-muted-foreground ml-1">{unit}</span>}
         </div>
+        {fault && (
+          <p className="text-xs text-muted-foreground mt-1">Sensor faulty: {SENSOR_FAULT_LABELS[fault]}</p>
+        )}
       </CardContent>
     </Card>
   );
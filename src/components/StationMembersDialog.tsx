@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { highestRole, isStaffRole, ROLE_LABELS, type AppRole } from "@/lib/roles";
+import { Trash2, UserPlus, Users } from "lucide-react";
+
+interface StationMembersDialogProps {
+  stationId: string;
+  stationName: string;
+  onSaved?: () => void;
+}
+
+interface StaffMember {
+  user_id: string;
+  full_name: string | null;
+  badge_number: string | null;
+  role: AppRole;
+  station_id: string | null;
+}
+
+export const StationMembersDialog = ({ stationId, stationName, onSaved }: StationMembersDialogProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [selectedUserId, setSelectedUserId] = useState("");
+
+  const fetchStaff = async () => {
+    try {
+      const { data: roles, error: rolesError } = await supabase
+        .from("user_roles")
+        .select("user_id, role");
+
+      if (rolesError) throw rolesError;
+
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("user_id, full_name, badge_number")
+        .order("full_name");
+
+      if (profilesError) throw profilesError;
+
+      const { data: members, error: membersError } = await supabase
+        .from("fire_station_members")
+        .select("user_id, station_id");
+
+      if (membersError) throw membersError;
+
+      setStaff((profiles || [])
+        .map((profile) => ({
+          ...profile,
+          role: highestRole((roles || []).filter((row) => row.user_id === profile.user_id).map((row) => row.role)),
+          station_id: members?.find((member) => member.user_id === profile.user_id)?.station_id ?? null,
+        }))
+        .filter((member) => isStaffRole(member.role)));
+    } catch (error) {
+      toast({
+        title: "Error fetching officers",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setSelectedUserId("");
+      fetchStaff();
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!selectedUserId) return;
+
+    setIsSaving(true);
+    try {
+      // Officers belong to one station; adding moves them from any other
+      const { error } = await supabase
+        .from("fire_station_members")
+        .upsert({ user_id: selectedUserId, station_id: stationId }, { onConflict: "user_id" });
+
+      if (error) throw error;
+
+      setSelectedUserId("");
+      await fetchStaff();
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error adding officer",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (userId: string) => {
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("fire_station_members")
+        .delete()
+        .eq("user_id", userId)
+        .eq("station_id", stationId);
+
+      if (error) throw error;
+
+      await fetchStaff();
+      onSaved?.();
+    } catch (error) {
+      toast({
+        title: "Error removing officer",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const members = staff.filter((member) => member.station_id === stationId);
+  const candidates = staff.filter((member) => member.station_id !== stationId);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Station officers">
+          <Users className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Station Officers</DialogTitle>
+          <DialogDescription>{stationName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {members.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No officers assigned yet.</p>
+          ) : (
+            members.map((member) => (
+              <div key={member.user_id} className="flex items-center justify-between rounded-lg border p-3">
+                <div>
+                  <p className="font-medium text-sm">{member.full_name || "Unnamed user"}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {ROLE_LABELS[member.role]}
+                    {member.badge_number && ` · ${member.badge_number}`}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleRemove(member.user_id)}
+                  disabled={isSaving}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Select value={selectedUserId} onValueChange={setSelectedUserId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select an officer" />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map((candidate) => (
+                <SelectItem key={candidate.user_id} value={candidate.user_id}>
+                  {candidate.full_name || "Unnamed user"}
+                  {candidate.station_id && " (other station)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAdd} disabled={!selectedUserId || isSaving}>
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,366 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { SlidersHorizontal } from "lucide-react";
+import {
+  THRESHOLD_SENSORS,
+  resolveAlertSettings,
+  resolveThresholds,
+  type ThresholdSensor,
+} from "@/lib/thresholds";
+
+interface ThresholdsDialogProps {
+  locationId: string;
+  locationName: string;
+}
+
+const sensorLabels: Record<ThresholdSensor, string> = {
+  temperature: "Temperature (°C)",
+  gas: "Gas (ppm)",
+};
+
+type ThresholdLevel = "warning" | "critical" | "clear";
+
+type ThresholdForm = Record<ThresholdSensor, Record<ThresholdLevel, string>>;
+
+const emptyForm: ThresholdForm = {
+  temperature: { warning: "", critical: "", clear: "" },
+  gas: { warning: "", critical: "", clear: "" },
+};
+
+interface SettingsForm {
+  sustainReadings: string;
+  clearCooldownMinutes: string;
+  reportingIntervalSeconds: string;
+  rateOfRisePerMinute: string;
+}
+
+const emptySettings: SettingsForm = {
+  sustainReadings: "",
+  clearCooldownMinutes: "",
+  reportingIntervalSeconds: "",
+  rateOfRisePerMinute: "",
+};
+
+export const ThresholdsDialog = ({ locationId, locationName }: ThresholdsDialogProps) => {
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formData, setFormData] = useState<ThresholdForm>(emptyForm);
+  const [defaults, setDefaults] = useState<ThresholdForm>(emptyForm);
+  const [settingsForm, setSettingsForm] = useState<SettingsForm>(emptySettings);
+  const [defaultSettings, setDefaultSettings] = useState<SettingsForm>(emptySettings);
+
+  const fetchThresholds = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("location_thresholds")
+        .select("location_id, sensor, warning_level, critical_level, clear_level")
+        .or(`location_id.is.null,location_id.eq.${locationId}`);
+
+      if (error) throw error;
+
+      const { data: settingsRows, error: settingsError } = await supabase
+        .from("location_alert_settings")
+        .select("location_id, sustain_readings, clear_cooldown_minutes, reporting_interval_seconds, rate_of_rise_per_minute")
+        .or(`location_id.is.null,location_id.eq.${locationId}`);
+
+      if (settingsError) throw settingsError;
+
+      const globalThresholds = resolveThresholds(data || []);
+      const overrides = (data || []).filter((row) => row.location_id === locationId);
+
+      const nextDefaults = { ...emptyForm };
+      const nextForm = { ...emptyForm };
+      for (const sensor of THRESHOLD_SENSORS) {
+        nextDefaults[sensor] = {
+          warning: String(globalThresholds[sensor].warning),
+          critical: String(globalThresholds[sensor].critical),
+          clear: String(globalThresholds[sensor].clear),
+        };
+        const override = overrides.find((row) => row.sensor === sensor);
+        nextForm[sensor] = override
+          ? {
+              warning: String(override.warning_level),
+              critical: String(override.critical_level),
+              clear: override.clear_level === null ? "" : String(override.clear_level),
+            }
+          : { warning: "", critical: "", clear: "" };
+      }
+
+      const globalSettings = resolveAlertSettings(settingsRows || []);
+      const settingsOverride = (settingsRows || []).find((row) => row.location_id === locationId);
+
+      setDefaults(nextDefaults);
+      setFormData(nextForm);
+      setDefaultSettings({
+        sustainReadings: String(globalSettings.sustainReadings),
+        clearCooldownMinutes: String(globalSettings.clearCooldownMinutes),
+        reportingIntervalSeconds: String(globalSettings.reportingIntervalSeconds),
+        rateOfRisePerMinute: String(globalSettings.rateOfRisePerMinute),
+      });
+      setSettingsForm(settingsOverride
+        ? {
+            sustainReadings: String(settingsOverride.sustain_readings),
+            clearCooldownMinutes: String(settingsOverride.clear_cooldown_minutes),
+            reportingIntervalSeconds: String(settingsOverride.reporting_interval_seconds),
+            rateOfRisePerMinute: String(settingsOverride.rate_of_rise_per_minute),
+          }
+        : emptySettings);
+    } catch (error) {
+      toast({
+        title: "Error fetching thresholds",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) fetchThresholds();
+  };
+
+  const updateField = (sensor: ThresholdSensor, field: ThresholdLevel, value: string) => {
+    setFormData({ ...formData, [sensor]: { ...formData[sensor], [field]: value } });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Blank sensors fall back to the global defaults
+    const rows = THRESHOLD_SENSORS
+      .filter((sensor) => Object.values(formData[sensor]).some((value) => value !== ""))
+      .map((sensor) => ({
+        location_id: locationId,
+        sensor,
+        warning_level: parseFloat(formData[sensor].warning || defaults[sensor].warning),
+        critical_level: parseFloat(formData[sensor].critical || defaults[sensor].critical),
+        // A blank clear level follows the warning level
+        clear_level: formData[sensor].clear === "" ? null : parseFloat(formData[sensor].clear),
+      }));
+
+    const invalid = rows.find((row) => row.warning_level > row.critical_level);
+    if (invalid) {
+      toast({
+        title: "Invalid thresholds",
+        description: `${sensorLabels[invalid.sensor]}: warning level must not exceed critical level.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidClear = rows.find((row) => row.clear_level !== null && row.clear_level > row.critical_level);
+    if (invalidClear) {
+      toast({
+        title: "Invalid thresholds",
+        description: `${sensorLabels[invalidClear.sensor]}: clear level must not exceed critical level.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const hasSettingsOverride = Object.values(settingsForm).some((value) => value !== "");
+    const settingsRow = {
+      location_id: locationId,
+      sustain_readings: parseInt(settingsForm.sustainReadings || defaultSettings.sustainReadings, 10),
+      clear_cooldown_minutes: parseInt(settingsForm.clearCooldownMinutes || defaultSettings.clearCooldownMinutes, 10),
+      reporting_interval_seconds: parseInt(settingsForm.reportingIntervalSeconds || defaultSettings.reportingIntervalSeconds, 10),
+      rate_of_rise_per_minute: parseFloat(settingsForm.rateOfRisePerMinute || defaultSettings.rateOfRisePerMinute),
+    };
+
+    if (
+      !(settingsRow.sustain_readings >= 1)
+      || !(settingsRow.clear_cooldown_minutes >= 0)
+      || !(settingsRow.reporting_interval_seconds >= 15)
+      || !(settingsRow.rate_of_rise_per_minute > 0)
+    ) {
+      toast({
+        title: "Invalid alert settings",
+        description: "Sustain window must be at least 1 reading, cool-down must not be negative and the reporting interval must be at least 15 seconds (ThingSpeak's limit) and the rate of rise must be above 0.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const cleared = THRESHOLD_SENSORS.filter((sensor) => !rows.some((row) => row.sensor === sensor));
+
+      if (cleared.length > 0) {
+        const { error: deleteError } = await supabase
+          .from("location_thresholds")
+          .delete()
+          .eq("location_id", locationId)
+          .in("sensor", cleared);
+
+        if (deleteError) throw deleteError;
+      }
+
+      if (rows.length > 0) {
+        const { error: upsertError } = await supabase
+          .from("location_thresholds")
+          .upsert(rows, { onConflict: "location_id,sensor" });
+
+        if (upsertError) throw upsertError;
+      }
+
+      if (hasSettingsOverride) {
+        const { error: settingsError } = await supabase
+          .from("location_alert_settings")
+          .upsert(settingsRow, { onConflict: "location_id" });
+
+        if (settingsError) throw settingsError;
+      } else {
+        const { error: settingsError } = await supabase
+          .from("location_alert_settings")
+          .delete()
+          .eq("location_id", locationId);
+
+        if (settingsError) throw settingsError;
+      }
+
+      toast({
+        title: "Thresholds Saved",
+        description: `Alert thresholds for ${locationName} have been updated.`,
+      });
+      setIsOpen(false);
+    } catch (error) {
+      toast({
+        title: "Error saving thresholds",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Alert thresholds">
+          <SlidersHorizontal className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Alert Thresholds</DialogTitle>
+          <DialogDescription>
+            {locationName} — leave a field blank to use the default value.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {THRESHOLD_SENSORS.map((sensor) => (
+            <div key={sensor} className="space-y-2">
+              <p className="text-sm font-medium">{sensorLabels[sensor]}</p>
+              <div className="grid gap-4 grid-cols-3">
+                <div className="space-y-2">
+                  <Label htmlFor={`${sensor}-warning`}>Warning</Label>
+                  <Input
+                    id={`${sensor}-warning`}
+                    type="number"
+                    step="any"
+                    value={formData[sensor].warning}
+                    onChange={(e) => updateField(sensor, "warning", e.target.value)}
+                    placeholder={defaults[sensor].warning}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`${sensor}-critical`}>Critical</Label>
+                  <Input
+                    id={`${sensor}-critical`}
+                    type="number"
+                    step="any"
+                    value={formData[sensor].critical}
+                    onChange={(e) => updateField(sensor, "critical", e.target.value)}
+                    placeholder={defaults[sensor].critical}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`${sensor}-clear`}>Clear below</Label>
+                  <Input
+                    id={`${sensor}-clear`}
+                    type="number"
+                    step="any"
+                    value={formData[sensor].clear}
+                    onChange={(e) => updateField(sensor, "clear", e.target.value)}
+                    placeholder={formData[sensor].warning || defaults[sensor].clear}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Alert Timing</p>
+            <div className="grid gap-4 grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="sustain-readings">Sustain (readings)</Label>
+                <Input
+                  id="sustain-readings"
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={settingsForm.sustainReadings}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, sustainReadings: e.target.value })}
+                  placeholder={defaultSettings.sustainReadings}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="clear-cooldown">Cool-down (minutes)</Label>
+                <Input
+                  id="clear-cooldown"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={settingsForm.clearCooldownMinutes}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, clearCooldownMinutes: e.target.value })}
+                  placeholder={defaultSettings.clearCooldownMinutes}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reporting-interval">Reports every (s)</Label>
+                <Input
+                  id="reporting-interval"
+                  type="number"
+                  min="15"
+                  step="1"
+                  value={settingsForm.reportingIntervalSeconds}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, reportingIntervalSeconds: e.target.value })}
+                  placeholder={defaultSettings.reportingIntervalSeconds}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-of-rise">Rate of rise (°C/min)</Label>
+                <Input
+                  id="rate-of-rise"
+                  type="number"
+                  min="0.1"
+                  step="0.1"
+                  value={settingsForm.rateOfRisePerMinute}
+                  onChange={(e) => setSettingsForm({ ...settingsForm, rateOfRisePerMinute: e.target.value })}
+                  placeholder={defaultSettings.rateOfRisePerMinute}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              An alert is raised after this many consecutive readings past critical, and auto-resolves once
+              readings have stayed below the clear level for the cool-down. A temperature climbing faster
+              than the rate of rise alerts even below critical. A board silent for several reporting
+              intervals is flagged offline.
+            </p>
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSaving}>
+            {isSaving ? "Saving..." : "Save Thresholds"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,62 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useRole } from "@/hooks/use-role";
+import { Clock, ShieldX } from "lucide-react";
+
+interface Verification {
+  status: string;
+  rejection_reason: string | null;
+}
+
+/**
+ * Tells Fire Authority sign-ups that their account is awaiting verification,
+ * or why it was rejected. Renders nothing for everyone else.
+ */
+export const VerificationNotice = () => {
+  const { userId, role, isLoading } = useRole();
+  const [verification, setVerification] = useState<Verification | null>(null);
+
+  useEffect(() => {
+    if (isLoading || !userId || (role !== "pending_authority" && role !== "civilian")) {
+      setVerification(null);
+      return;
+    }
+
+    const fetchVerification = async () => {
+      const { data } = await supabase
+        .from("authority_verifications")
+        .select("status, rejection_reason")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      setVerification(data);
+    };
+
+    fetchVerification();
+  }, [isLoading, userId, role]);
+
+  if (verification?.status === "pending") {
+    return (
+      <Alert className="mb-6">
+        <Clock className="h-4 w-4" />
+        <AlertTitle>Authority account awaiting verification</AlertTitle>
+        <AlertDescription>
+          A station in-charge will check your badge number and station. Until then you have civilian access.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (verification?.status === "rejected") {
+    return (
+      <Alert variant="destructive" className="mb-6">
+        <ShieldX className="h-4 w-4" />
+        <AlertTitle>Authority account not verified</AlertTitle>
+        <AlertDescription>{verification.rejection_reason}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return null;
+};
@@ -0,0 +1,30 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { resolveAlertSettings, type AlertSettingsRow } from "@/lib/thresholds";
+
+/**
+ * Effective alert settings (sustain window, cool-down, reporting interval)
+ * for any location, from the global defaults and every location's overrides.
+ */
+export function useAlertSettings() {
+  const [rows, setRows] = useState<AlertSettingsRow[]>([]);
+
+  useEffect(() => {
+    const fetchSettings = async () => {
+      const { data, error } = await supabase
+        .from("location_alert_settings")
+        .select("location_id, sustain_readings, clear_cooldown_minutes, reporting_interval_seconds, rate_of_rise_per_minute");
+
+      if (error) {
+        console.error("Error fetching alert settings:", error);
+        return;
+      }
+
+      setRows(data || []);
+    };
+
+    fetchSettings();
+  }, []);
+
+  return useCallback((locationId: string) => resolveAlertSettings(rows, locationId), [rows]);
+}
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+interface LocationSubscription {
+  location_id: string;
+  is_owner: boolean;
+}
+
+/**
+ * The locations the signed-in user follows, and whether they own each one
+ * (they requested it). Civilians only see alerts at locations they follow.
+ */
+export function useLocationSubscriptions() {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [subscriptions, setSubscriptions] = useState<LocationSubscription[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchSubscriptions = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    setUserId(user?.id ?? null);
+
+    if (!user) {
+      setSubscriptions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("location_subscriptions")
+      .select("location_id, is_owner")
+      .eq("user_id", user.id);
+
+    if (error) {
+      console.error("Error fetching location subscriptions:", error);
+    }
+
+    setSubscriptions(data || []);
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  const isFollowing = useCallback(
+    (locationId: string) => subscriptions.some((subscription) => subscription.location_id === locationId),
+    [subscriptions]
+  );
+
+  const isOwner = useCallback(
+    (locationId: string) => subscriptions.some((subscription) => subscription.location_id === locationId && subscription.is_owner),
+    [subscriptions]
+  );
+
+  const follow = useCallback(async (locationId: string) => {
+    if (!userId) throw new Error("Not authenticated");
+
+    const { error } = await supabase
+      .from("location_subscriptions")
+      .insert({ user_id: userId, location_id: locationId });
+
+    if (error) throw error;
+    await fetchSubscriptions();
+  }, [userId, fetchSubscriptions]);
+
+  const unfollow = useCallback(async (locationId: string) => {
+    if (!userId) throw new Error("Not authenticated");
+
+    const { error } = await supabase
+      .from("location_subscriptions")
+      .delete()
+      .eq("user_id", userId)
+      .eq("location_id", locationId);
+
+    if (error) throw error;
+    await fetchSubscriptions();
+  }, [userId, fetchSubscriptions]);
+
+  return { isLoading, isFollowing, isOwner, follow, unfollow };
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_THRESHOLDS, resolveThresholds, type ThresholdSet } from "@/lib/thresholds";
+
+/**
+ * Effective alert thresholds for a location (global defaults merged with the
+ * location's overrides). Pass no location to get the global defaults.
+ */
+export function useLocationThresholds(locationId?: string | null) {
+  const [thresholds, setThresholds] = useState<ThresholdSet>(DEFAULT_THRESHOLDS);
+
+  useEffect(() => {
+    const fetchThresholds = async () => {
+      let query = supabase
+        .from("location_thresholds")
+        .select("location_id, sensor, warning_level, critical_level");
+
+      query = locationId
+        ? query.or(`location_id.is.null,location_id.eq.${locationId}`)
+        : query.is("location_id", null);
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error("Error fetching thresholds:", error);
+        return;
+      }
+
+      setThresholds(resolveThresholds(data || [], locationId));
+    };
+
+    fetchThresholds();
+  }, [locationId]);
+
+  return thresholds;
+}
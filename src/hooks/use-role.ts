@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { hasMinRole, highestRole, isStaffRole, type AppRole } from "@/lib/roles";
+
+/**
+ * The signed-in user's role from user_roles (their highest one). Signed-out
+ * users and users without a role are civilians. stationId is the fire station
+ * the user is a member of, if any.
+ */
+export function useRole() {
+  const [role, setRole] = useState<AppRole>("civilian");
+  const [userId, setUserId] = useState<string | null>(null);
+  const [stationId, setStationId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRole = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      setUserId(user?.id ?? null);
+
+      if (!user) {
+        setRole("civilian");
+        setStationId(null);
+        setIsLoading(false);
+        return;
+      }
+
+      const { data, error } = await supabase
+        .from("user_roles")
+        .select("role")
+        .eq("user_id", user.id);
+
+      if (error) {
+        console.error("Error fetching user role:", error);
+      }
+
+      const { data: membership } = await supabase
+        .from("fire_station_members")
+        .select("station_id")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      setRole(highestRole((data || []).map((row) => row.role)));
+      setStationId(membership?.station_id ?? null);
+      setIsLoading(false);
+    };
+
+    fetchRole();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_IN" || event === "SIGNED_OUT") fetchRole();
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const atLeast = useCallback((minimum: AppRole) => hasMinRole(role, minimum), [role]);
+
+  return {
+    role,
+    userId,
+    stationId,
+    isLoading,
+    isStaff: isStaffRole(role),
+    isAdmin: role === "admin",
+    isPendingAuthority: role === "pending_authority",
+    hasMinRole: atLeast,
+  };
+}
@@ -14,50 +14,263 @@ export type Database = {
   }
   public: {
     Tables: {
+      alert_evaluation_runs: {
+        Row: {
+          alerts_auto_cleared: number
+          alerts_created: number
+          alerts_escalated: number
+          alerts_pending: number
+          alerts_updated: number
+          errors: Json
+          finished_at: string | null
+          id: string
+          locations_evaluated: number
+          locations_without_data: number
+          started_at: string
+          status: string
+          triggered_by: string
+        }
+        Insert: {
+          alerts_auto_cleared?: number
+          alerts_created?: number
+          alerts_escalated?: number
+          alerts_pending?: number
+          alerts_updated?: number
+          errors?: Json
+          finished_at?: string | null
+          id?: string
+          locations_evaluated?: number
+          locations_without_data?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string
+        }
+        Update: {
+          alerts_auto_cleared?: number
+          alerts_created?: number
+          alerts_escalated?: number
+          alerts_pending?: number
+          alerts_resolved?: number
+          alerts_updated?: number
+          errors?: Json
+          finished_at?: string | null
+          id?: string
+          locations_evaluated?: number
+          locations_without_data?: number
+          started_at?: string
+          status?: string
+          triggered_by?: string
+        }
+        Relationships: []
+      }
+      alert_events: {
+        Row: {
+          actor_id: string | null
+          alert_id: string
+          assignee_id: string | null
+          created_at: string
+          escalation_level: number | null
+          escalation_target: string | null
+          event_type: string
+          from_severity: string | null
+          from_status: string | null
+          id: string
+          sensor_values: Json | null
+          station_id: string | null
+          to_severity: string | null
+          to_status: string | null
+        }
+        Insert: {
+          actor_id?: string | null
+          alert_id: string
+          assignee_id?: string | null
+          created_at?: string
+          escalation_level?: number | null
+          escalation_target?: string | null
+          event_type: string
+          from_severity?: string | null
+          from_status?: string | null
+          id?: string
+          sensor_values?: Json | null
+          station_id?: string | null
+          to_severity?: string | null
+          to_status?: string | null
+        }
+        Update: {
+          actor_id?: string | null
+          alert_id?: string
+          assignee_id?: string | null
+          created_at?: string
+          escalation_level?: number | null
+          escalation_target?: string | null
+          event_type?: string
+          from_severity?: string | null
+          from_status?: string | null
+          id?: string
+          sensor_values?: Json | null
+          station_id?: string | null
+          to_severity?: string | null
+          to_status?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_events_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      alert_rules: {
+        Row: {
+          alert_type: string
+          conditions: Json
+          created_at: string
+          created_by: string | null
+          description: string | null
+          enabled: boolean
+          id: string
+          location_id: string | null
+          name: string
+          severity: string
+          sustain_readings: number
+          updated_at: string
+        }
+        Insert: {
+          alert_type: string
+          conditions?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          location_id?: string | null
+          name: string
+          severity: string
+          sustain_readings?: number
+          updated_at?: string
+        }
+        Update: {
+          alert_type?: string
+          conditions?: Json
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          enabled?: boolean
+          id?: string
+          location_id?: string | null
+          name?: string
+          severity?: string
+          sustain_readings?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "alert_rules_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       alerts: {
         Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
           alert_type: string
+          assigned_at: string | null
+          assigned_station_id: string | null
+          assigned_to: string | null
+          auto_cleared_at: string | null
+          changed_by: string | null
           created_at: string
+          en_route_at: string | null
+          escalated_at: string | null
+          escalation_level: number
+          escalation_started_at: string
+          escalation_target: string | null
           id: string
           location_id: string
           notes: string | null
+          notification_level: string
+          on_scene_at: string | null
           resolved_at: string | null
           resolved_by: string | null
           sensor_values: Json | null
           severity: string
           status: string | null
+          supporting_station_ids: string[]
           timestamp: string
           updated_at: string
         }
         Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
           alert_type: string
+          assigned_at?: string | null
+          assigned_station_id?: string | null
+          assigned_to?: string | null
+          auto_cleared_at?: string | null
+          changed_by?: string | null
           created_at?: string
+          en_route_at?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
+          escalation_started_at?: string
+          escalation_target?: string | null
           id?: string
           location_id: string
           notes?: string | null
+          notification_level?: string
+          on_scene_at?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
           sensor_values?: Json | null
           severity: string
           status?: string | null
+          supporting_station_ids?: string[]
           timestamp?: string
           updated_at?: string
         }
         Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
           alert_type?: string
+          assigned_at?: string | null
+          assigned_station_id?: string | null
+          assigned_to?: string | null
+          auto_cleared_at?: string | null
+          changed_by?: string | null
           created_at?: string
+          en_route_at?: string | null
+          escalated_at?: string | null
+          escalation_level?: number
+          escalation_started_at?: string
+          escalation_target?: string | null
           id?: string
           location_id?: string
           notes?: string | null
+          notification_level?: string
+          on_scene_at?: string | null
           resolved_at?: string | null
           resolved_by?: string | null
           sensor_values?: Json | null
           severity?: string
           status?: string | null
+          supporting_station_ids?: string[]
           timestamp?: string
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "alerts_assigned_station_id_fkey"
+            columns: ["assigned_station_id"]
+            isOneToOne: false
+            referencedRelation: "fire_stations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "alerts_location_id_fkey"
             columns: ["location_id"]
@@ -67,15 +280,263 @@ export type Database = {
           },
         ]
       }
+      authority_verifications: {
+        Row: {
+          badge_number: string | null
+          created_at: string
+          department: string | null
+          fire_station: string | null
+          id: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          badge_number?: string | null
+          created_at?: string
+          department?: string | null
+          fire_station?: string | null
+          id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          badge_number?: string | null
+          created_at?: string
+          department?: string | null
+          fire_station?: string | null
+          id?: string
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      escalation_policies: {
+        Row: {
+          chain: Json
+          created_at: string
+          id: string
+          region: string | null
+          updated_at: string
+        }
+        Insert: {
+          chain?: Json
+          created_at?: string
+          id?: string
+          region?: string | null
+          updated_at?: string
+        }
+        Update: {
+          chain?: Json
+          created_at?: string
+          id?: string
+          region?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      fire_station_members: {
+        Row: {
+          created_at: string
+          station_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          station_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          station_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fire_station_members_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "fire_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fire_stations: {
+        Row: {
+          address: string | null
+          available_units: number
+          coverage_radius_km: number | null
+          created_at: string
+          id: string
+          latitude: number
+          longitude: number
+          name: string
+          phone: string | null
+          total_units: number
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          available_units?: number
+          coverage_radius_km?: number | null
+          created_at?: string
+          id?: string
+          latitude: number
+          longitude: number
+          name: string
+          phone?: string | null
+          total_units?: number
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          available_units?: number
+          coverage_radius_km?: number | null
+          created_at?: string
+          id?: string
+          latitude?: number
+          longitude?: number
+          name?: string
+          phone?: string | null
+          total_units?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      location_alert_settings: {
+        Row: {
+          clear_cooldown_minutes: number
+          created_at: string
+          id: string
+          location_id: string | null
+          rate_of_rise_per_minute: number
+          reporting_interval_seconds: number
+          sustain_readings: number
+          updated_at: string
+        }
+        Insert: {
+          clear_cooldown_minutes?: number
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          rate_of_rise_per_minute?: number
+          reporting_interval_seconds?: number
+          sustain_readings?: number
+          updated_at?: string
+        }
+        Update: {
+          clear_cooldown_minutes?: number
+          created_at?: string
+          id?: string
+          location_id?: string | null
+          rate_of_rise_per_minute?: number
+          reporting_interval_seconds?: number
+          sustain_readings?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_alert_settings_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_alert_state: {
+        Row: {
+          clear_since: string | null
+          consecutive_breaches: number
+          last_reading_at: string | null
+          location_id: string
+          offline_since: string | null
+          reading_level: string
+          sensor_faults: Json
+          updated_at: string
+        }
+        Insert: {
+          clear_since?: string | null
+          consecutive_breaches?: number
+          last_reading_at?: string | null
+          location_id: string
+          offline_since?: string | null
+          reading_level?: string
+          sensor_faults?: Json
+          updated_at?: string
+        }
+        Update: {
+          clear_since?: string | null
+          consecutive_breaches?: number
+          last_reading_at?: string | null
+          location_id?: string
+          offline_since?: string | null
+          reading_level?: string
+          sensor_faults?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_alert_state_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: true
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_credentials: {
+        Row: {
+          created_at: string
+          location_id: string
+          thingspeak_read_key: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          location_id: string
+          thingspeak_read_key: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          location_id?: string
+          thingspeak_read_key?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_credentials_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: true
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       location_requests: {
         Row: {
           created_at: string
+          field_map: Json | null
           id: string
           latitude: number
+          location_id: string | null
           location_name: string
           longitude: number
           reason: string | null
           region: string
+          rejection_reason: string | null
           reviewed_at: string | null
           reviewed_by: string | null
           status: string | null
@@ -86,12 +547,15 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          field_map?: Json | null
           id?: string
           latitude: number
+          location_id?: string | null
           location_name: string
           longitude: number
           reason?: string | null
           region: string
+          rejection_reason?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           status?: string | null
@@ -102,12 +566,15 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          field_map?: Json | null
           id?: string
           latitude?: number
+          location_id?: string | null
           location_name?: string
           longitude?: number
           reason?: string | null
           region?: string
+          rejection_reason?: string | null
           reviewed_at?: string | null
           reviewed_by?: string | null
           status?: string | null
@@ -116,11 +583,90 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "location_requests_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_subscriptions: {
+        Row: {
+          created_at: string
+          is_owner: boolean
+          location_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          is_owner?: boolean
+          location_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          is_owner?: boolean
+          location_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_subscriptions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      location_thresholds: {
+        Row: {
+          clear_level: number | null
+          created_at: string
+          critical_level: number
+          id: string
+          location_id: string | null
+          sensor: string
+          updated_at: string
+          warning_level: number
+        }
+        Insert: {
+          clear_level?: number | null
+          created_at?: string
+          critical_level: number
+          id?: string
+          location_id?: string | null
+          sensor: string
+          updated_at?: string
+          warning_level: number
+        }
+        Update: {
+          clear_level?: number | null
+          created_at?: string
+          critical_level?: number
+          id?: string
+          location_id?: string | null
+          sensor?: string
+          updated_at?: string
+          warning_level?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "location_thresholds_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       locations: {
         Row: {
           created_at: string
+          field_map: Json | null
           id: string
           latitude: number
           longitude: number
@@ -128,11 +674,11 @@ export type Database = {
           region: string
           status: string | null
           thingspeak_channel_id: string | null
-          thingspeak_read_key: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
+          field_map?: Json | null
           id?: string
           latitude: number
           longitude: number
@@ -140,11 +686,11 @@ export type Database = {
           region: string
           status?: string | null
           thingspeak_channel_id?: string | null
-          thingspeak_read_key?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
+          field_map?: Json | null
           id?: string
           latitude?: number
           longitude?: number
@@ -152,11 +698,99 @@ export type Database = {
           region?: string
           status?: string | null
           thingspeak_channel_id?: string | null
-          thingspeak_read_key?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      notification_deliveries: {
+        Row: {
+          alert_id: string
+          channel: string
+          created_at: string
+          error: string | null
+          event: string
+          id: string
+          notification_level: string
+          provider: string
+          recipient: string
+          status: string
+          user_id: string | null
+        }
+        Insert: {
+          alert_id: string
+          channel: string
+          created_at?: string
+          error?: string | null
+          event: string
+          id?: string
+          notification_level: string
+          provider: string
+          recipient: string
+          status: string
+          user_id?: string | null
+        }
+        Update: {
+          alert_id?: string
+          channel?: string
+          created_at?: string
+          error?: string | null
+          event?: string
+          id?: string
+          notification_level?: string
+          provider?: string
+          recipient?: string
+          status?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_alert_id_fkey"
+            columns: ["alert_id"]
+            isOneToOne: false
+            referencedRelation: "alerts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          email_address: string | null
+          email_enabled: boolean
+          min_level: string
+          sms_enabled: boolean
+          sms_number: string | null
+          updated_at: string
+          user_id: string
+          webhook_enabled: boolean
+          webhook_url: string | null
+        }
+        Insert: {
+          created_at?: string
+          email_address?: string | null
+          email_enabled?: boolean
+          min_level?: string
+          sms_enabled?: boolean
+          sms_number?: string | null
+          updated_at?: string
+          user_id: string
+          webhook_enabled?: boolean
+          webhook_url?: string | null
+        }
+        Update: {
+          created_at?: string
+          email_address?: string | null
+          email_enabled?: boolean
+          min_level?: string
+          sms_enabled?: boolean
+          sms_number?: string | null
+          updated_at?: string
+          user_id?: string
+          webhook_enabled?: boolean
+          webhook_url?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           authority_name: string | null
@@ -165,8 +799,6 @@ export type Database = {
           created_at: string
           department: string | null
           fire_station: string | null
-          fire_station_latitude: number | null
-          fire_station_longitude: number | null
           full_name: string | null
           id: string
           phone: string | null
@@ -181,8 +813,6 @@ export type Database = {
           created_at?: string
           department?: string | null
           fire_station?: string | null
-          fire_station_latitude?: number | null
-          fire_station_longitude?: number | null
           full_name?: string | null
           id?: string
           phone?: string | null
@@ -197,8 +827,6 @@ export type Database = {
           created_at?: string
           department?: string | null
           fire_station?: string | null
-          fire_station_latitude?: number | null
-          fire_station_longitude?: number | null
           full_name?: string | null
           id?: string
           phone?: string | null
@@ -208,6 +836,92 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sensor_readings: {
+        Row: {
+          co: number | null
+          created_at: string
+          entry_id: number | null
+          flame_detected: boolean
+          gas: number | null
+          humidity: number | null
+          id: number
+          location_id: string
+          motion_detected: boolean
+          recorded_at: string
+          smoke: number | null
+          temperature: number | null
+        }
+        Insert: {
+          co?: number | null
+          created_at?: string
+          entry_id?: number | null
+          flame_detected?: boolean
+          gas?: number | null
+          humidity?: number | null
+          id?: never
+          location_id: string
+          motion_detected?: boolean
+          recorded_at: string
+          smoke?: number | null
+          temperature?: number | null
+        }
+        Update: {
+          co?: number | null
+          created_at?: string
+          entry_id?: number | null
+          flame_detected?: boolean
+          gas?: number | null
+          humidity?: number | null
+          id?: never
+          location_id?: string
+          motion_detected?: boolean
+          recorded_at?: string
+          smoke?: number | null
+          temperature?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sensor_readings_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -234,6 +948,39 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_view_location_alerts: {
+        Args: {
+          _location_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      get_sensor_history: {
+        Args: {
+          _bucket?: string
+          _from: string
+          _location_id: string
+          _to?: string
+        }
+        Returns: {
+          bucket: string
+          co: number
+          flame_detected: boolean
+          gas: number
+          humidity: number
+          motion_detected: boolean
+          samples: number
+          smoke: number
+          temperature: number
+        }[]
+      }
+      has_min_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -241,9 +988,94 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_staff: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      review_authority_verification: {
+        Args: {
+          _approve: boolean
+          _reason?: string
+          _verification_id: string
+        }
+        Returns: {
+          badge_number: string | null
+          created_at: string
+          department: string | null
+          fire_station: string | null
+          id: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      review_location_request: {
+        Args: {
+          _approve: boolean
+          _reason?: string
+          _request_id: string
+        }
+        Returns: {
+          created_at: string
+          field_map: Json | null
+          id: string
+          latitude: number
+          location_id: string | null
+          location_name: string
+          longitude: number
+          reason: string | null
+          region: string
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string | null
+          thingspeak_channel_id: string
+          thingspeak_read_key: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      role_rank: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: number
+      }
+      save_push_subscription: {
+        Args: {
+          _auth: string
+          _endpoint: string
+          _p256dh: string
+          _user_agent?: string
+        }
+        Returns: undefined
+      }
+      set_location_read_key: {
+        Args: {
+          _location_id: string
+          _read_key: string
+        }
+        Returns: undefined
+      }
+      sync_location_status: {
+        Args: {
+          _location_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
-      app_role: "admin" | "officer" | "incharge"
+      app_role:
+        | "admin"
+        | "officer"
+        | "incharge"
+        | "civilian"
+        | "pending_authority"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -371,7 +1203,13 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      app_role: ["admin", "officer", "incharge"],
+      app_role: [
+        "admin",
+        "officer",
+        "incharge",
+        "civilian",
+        "pending_authority",
+      ],
     },
   },
 } as const
@@ -0,0 +1,20 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Call an alert-manager action as the signed-in user.
+ *
+ * @returns The response body
+ * @throws Error with the server's reason when the action is rejected
+ */
+export async function invokeAlertManager(body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke("alert-manager", { body });
+
+  if (error) {
+    // Non-2xx responses carry the reason in the body
+    const response = await error.context?.json?.().catch(() => null);
+    throw new Error(response?.error ?? error.message);
+  }
+  if (!data?.success) throw new Error(data?.error ?? "Alert manager request failed");
+
+  return data;
+}
@@ -0,0 +1,2 @@
+// Alert rules are shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/alert-rules.ts";
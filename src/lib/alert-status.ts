@@ -0,0 +1,16 @@
+import { invokeAlertManager } from "@/lib/alert-manager";
+import type { AlertStatus } from "../../supabase/functions/_shared/alert-status.ts";
+
+// The alert state machine is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/alert-status.ts";
+
+/**
+ * Move an alert to a new status through alert-manager, which checks the
+ * caller is fire authority staff and that the transition is allowed.
+ *
+ * @throws Error with the server's reason when the change is rejected
+ */
+export async function transitionAlertStatus(alertId: string, status: AlertStatus) {
+  const data = await invokeAlertManager({ action: "transition", alertId, status });
+  return data.alert;
+}
@@ -0,0 +1,2 @@
+// Device health is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/device-health.ts";
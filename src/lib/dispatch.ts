@@ -0,0 +1,27 @@
+import { invokeAlertManager } from "@/lib/alert-manager";
+import type { DispatchStep } from "../../supabase/functions/_shared/dispatch.ts";
+
+// Dispatch steps are shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/dispatch.ts";
+
+/**
+ * Assign an alert to a station and optionally one of its officers. With
+ * neither given, alert-manager picks the station that should respond.
+ *
+ * @throws Error with the server's reason when the assignment is rejected
+ */
+export async function assignAlert(alertId: string, target: { stationId?: string; officerId?: string } = {}) {
+  const data = await invokeAlertManager({ action: "assign", alertId, ...target });
+  return data.alert;
+}
+
+/**
+ * Report the assigned crew's next dispatch step.
+ *
+ * @throws Error with the server's reason when the step is out of order or the
+ *   caller is not part of the assigned crew
+ */
+export async function reportDispatchStep(alertId: string, step: DispatchStep) {
+  const data = await invokeAlertManager({ action: "progress", alertId, step });
+  return data.alert;
+}
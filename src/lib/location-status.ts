@@ -0,0 +1,2 @@
+// Location status is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/location-status.ts";
@@ -0,0 +1,2 @@
+// Notification channels are shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/notifications.ts";
@@ -0,0 +1,96 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Service worker and Web Push helpers.
+ *
+ * The service worker (public/sw.js) keeps the app and the last locations and
+ * alerts available offline, and shows the pushes notification-dispatcher
+ * sends. Each device a user turns push on for is saved in push_subscriptions.
+ * Push needs VITE_VAPID_PUBLIC_KEY, the public half of the dispatcher's VAPID
+ * key pair.
+ */
+
+const VAPID_PUBLIC_KEY: string | undefined = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+/** Register the service worker; production builds only, so dev never serves stale modules */
+export function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
+
+export function isPushSupported(): boolean {
+  return !!VAPID_PUBLIC_KEY && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+/** VAPID keys are URL-safe base64; the push manager wants raw bytes */
+const decodeBase64Url = (value: string) => {
+  const base64 = (value + "=".repeat((4 - (value.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+/** This device's push subscription, if push is turned on here */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  if (!isPushSupported()) return null;
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+}
+
+/** Ask for permission and subscribe this device to alert pushes for the signed-in user */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) throw new Error("Push notifications are not available in this browser");
+
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) throw new Error("The app is still installing; reload the page and try again");
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") throw new Error("Notifications are blocked for this site in your browser settings");
+
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: decodeBase64Url(VAPID_PUBLIC_KEY!),
+  });
+  const { endpoint, keys } = subscription.toJSON();
+
+  const { error } = await supabase.rpc("save_push_subscription", {
+    _endpoint: endpoint!,
+    _p256dh: keys!.p256dh,
+    _auth: keys!.auth,
+    _user_agent: navigator.userAgent,
+  });
+
+  if (error) {
+    await subscription.unsubscribe();
+    throw error;
+  }
+}
+
+/** Stop alert pushes to this device */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", subscription.endpoint);
+  if (error) throw error;
+
+  await subscription.unsubscribe();
+}
+
+/**
+ * Forget the signed-in user on this device: stop their pushes and drop the
+ * cached locations and alerts. Call before signing out.
+ */
+export async function releaseDevice(): Promise<void> {
+  try {
+    await unsubscribeFromPush();
+  } catch (error) {
+    console.error("Error removing push subscription:", error);
+  }
+
+  navigator.serviceWorker?.controller?.postMessage({ type: "clear-data" });
+}
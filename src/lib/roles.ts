@@ -0,0 +1,2 @@
+// The role model is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/roles.ts";
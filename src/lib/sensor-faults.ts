@@ -0,0 +1,2 @@
+// Sensor fault checks are shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/sensor-faults.ts";
@@ -0,0 +1,2 @@
+// The sensor model is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/sensors.ts";
@@ -0,0 +1,2 @@
+// Station selection is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/stations.ts";
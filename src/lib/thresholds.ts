@@ -0,0 +1,2 @@
+// Threshold logic is shared with the edge functions; see supabase/functions/_shared
+export * from "../../supabase/functions/_shared/thresholds.ts";
@@ -5,17 +5,32 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { SensorCard } from "@/components/SensorCard";
+import { AlertTimeline } from "@/components/AlertTimeline";
+import { AlertDispatchCard, type DispatchedAlert } from "@/components/AlertDispatchCard";
+import { NotificationDeliveries } from "@/components/NotificationDeliveries";
+import { useRole } from "@/hooks/use-role";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ArrowLeft, Flame, Gauge, Wind, Activity, Droplets, MapPin } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import { useLocationThresholds } from "@/hooks/use-location-thresholds";
+import { getThresholdStatus } from "@/lib/thresholds";
+import { formatSensorValue, normalizeReading, SENSOR_UNITS } from "@/lib/sensors";
+import {
+  ALERT_STATUS_LABELS,
+  ALERT_STATUS_TRANSITIONS,
+  isAlertStatus,
+  transitionAlertStatus,
+  type AlertStatus,
+} from "@/lib/alert-status";
 
-interface AlertDetail {
-  id: string;
+interface AlertDetail extends DispatchedAlert {
+  location_id: string;
   alert_type: string;
   timestamp: string;
   severity: string;
-  status: string;
+  auto_cleared_at: string | null;
+  updated_at: string;
   sensor_values: Record<string, any>;
   locations: {
     name: string;
@@ -29,9 +44,11 @@ const AlertDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { isStaff } = useRole();
   const [alert, setAlert] = useState<AlertDetail | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isUpdating, setIsUpdating] = useState(false);
+  const thresholds = useLocationThresholds(alert?.location_id);
 
   useEffect(() => {
     if (id) {
@@ -63,24 +80,15 @@ const AlertDetails = () => {
   };
 
   const handleStatusUpdate = async (newStatus: string) => {
-    if (!alert) return;
+    if (!alert || !isAlertStatus(newStatus)) return;
 
     setIsUpdating(true);
     try {
-      const { error } = await supabase
-        .from("alerts")
-        .update({
-          status: newStatus,
-          resolved_at: newStatus !== "active" ? new Date().toISOString() : null,
-          resolved_by: newStatus !== "active" ? (await supabase.auth.getUser()).data.user?.id : null,
-        })
-        .eq("id", alert.id);
-
-      if (error) throw error;
+      await transitionAlertStatus(alert.id, newStatus);
 
       toast({
         title: "Status updated",
-        description: `Alert marked as ${newStatus}`,
+        description: `Alert marked as ${ALERT_STATUS_LABELS[newStatus]}`,
       });
 
       fetchAlertDetails();
@@ -107,7 +115,8 @@ const AlertDetails = () => {
     return null;
   }
 
-  const sensorData = alert.sensor_values || {};
+  const sensorData = normalizeReading(alert.sensor_values);
+  const nextStatuses: AlertStatus[] = isAlertStatus(alert.status) ? ALERT_STATUS_TRANSITIONS[alert.status] : [];
 
   return (
     <div className="min-h-screen bg-background">
@@ -128,9 +137,14 @@ const AlertDetails = () => {
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="active">Active</SelectItem>
-                <SelectItem value="resolved">Resolved</SelectItem>
-                <SelectItem value="false_alarm">False Alarm</SelectItem>
+                <SelectItem value={alert.status} disabled>
+                  {isAlertStatus(alert.status) ? ALERT_STATUS_LABELS[alert.status] : alert.status}
+                </SelectItem>
+                {nextStatuses.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {ALERT_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -156,6 +170,14 @@ const AlertDetails = () => {
                 <span className="text-sm text-muted-foreground">Status</span>
                 <Badge variant="secondary">{alert.status}</Badge>
               </div>
+              {alert.auto_cleared_at && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Sensors Normal Since</span>
+                  <span className="text-sm">
+                    {format(new Date(alert.auto_cleared_at), "PPpp")}
+                  </span>
+                </div>
+              )}
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Timestamp</span>
                 <span className="text-sm">
@@ -196,45 +218,51 @@ const AlertDetails = () => {
           </Card>
         </div>
 
+        <AlertDispatchCard alert={alert} onChanged={fetchAlertDetails} />
+
         <div>
           <h2 className="text-xl font-bold mb-4">Sensor Readings</h2>
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
             <SensorCard
               title="Flame Detector"
-              value={sensorData.flame || "N/A"}
+              value={sensorData ? (sensorData.flameDetected ? "Detected" : "None") : "N/A"}
               icon={Flame}
-              status={sensorData.flame === "Detected" ? "danger" : "normal"}
+              status={sensorData?.flameDetected ? "danger" : "normal"}
             />
             <SensorCard
               title="Gas Level"
-              value={sensorData.gas || "N/A"}
-              unit="ppm"
+              value={sensorData ? formatSensorValue(sensorData.gas, 0) : "N/A"}
+              unit={SENSOR_UNITS.gas}
               icon={Wind}
-              status={sensorData.gas > 400 ? "danger" : "normal"}
+              status={getThresholdStatus(sensorData?.gas ?? null, thresholds.gas)}
             />
             <SensorCard
               title="Temperature"
-              value={sensorData.temperature || "N/A"}
-              unit="°C"
+              value={sensorData ? formatSensorValue(sensorData.temperature) : "N/A"}
+              unit={SENSOR_UNITS.temperature}
               icon={Gauge}
-              status={sensorData.temperature > 40 ? "warning" : "normal"}
+              status={getThresholdStatus(sensorData?.temperature ?? null, thresholds.temperature)}
             />
             <SensorCard
               title="Humidity"
-              value={sensorData.humidity || "N/A"}
-              unit="%"
+              value={sensorData ? formatSensorValue(sensorData.humidity) : "N/A"}
+              unit={SENSOR_UNITS.humidity}
               icon={Droplets}
               status="normal"
             />
             <SensorCard
               title="Motion Sensor"
-              value={sensorData.pir || "N/A"}
+              value={sensorData ? (sensorData.motionDetected ? "Motion Detected" : "No Motion") : "N/A"}
               icon={Activity}
-              status={sensorData.pir === "Motion Detected" ? "warning" : "normal"}
+              status={sensorData?.motionDetected ? "warning" : "normal"}
             />
           </div>
         </div>
 
+        <AlertTimeline alertId={alert.id} refreshKey={alert.updated_at} />
+
+        {isStaff && <NotificationDeliveries alertId={alert.id} refreshKey={alert.updated_at} />}
+
         <Card>
           <CardHeader>
             <CardTitle>Sensor Trend (Demo Data)</CardTitle>
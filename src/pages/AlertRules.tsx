@@ -0,0 +1,199 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { AlertRuleDialog, type StoredAlertRule } from "@/components/AlertRuleDialog";
+import { Loader2, Trash2 } from "lucide-react";
+import { describeCondition, parseRuleConditions, RULE_ALERT_TYPE_LABELS } from "@/lib/alert-rules";
+import type { SensorAlertType } from "@/lib/severity";
+
+interface Location {
+  id: string;
+  name: string;
+}
+
+const AlertRules = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { hasMinRole, isLoading: isRoleLoading } = useRole();
+  const [rules, setRules] = useState<StoredAlertRule[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (isRoleLoading) return;
+
+    if (!hasMinRole("incharge")) {
+      toast({
+        title: "Access Denied",
+        description: "Only station in-charges and admins can manage alert rules.",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    fetchRules();
+  }, [isRoleLoading, hasMinRole]);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("alert_rules")
+        .select("id, location_id, name, description, enabled, conditions, sustain_readings, alert_type, severity")
+        .order("name");
+
+      if (error) throw error;
+
+      const { data: locationRows, error: locationsError } = await supabase
+        .from("locations")
+        .select("id, name")
+        .order("name");
+
+      if (locationsError) throw locationsError;
+
+      setRules(data || []);
+      setLocations(locationRows || []);
+    } catch (error) {
+      toast({
+        title: "Error fetching alert rules",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggle = async (rule: StoredAlertRule, enabled: boolean) => {
+    try {
+      const { error } = await supabase.from("alert_rules").update({ enabled }).eq("id", rule.id);
+
+      if (error) throw error;
+
+      setRules((current) => current.map((r) => (r.id === rule.id ? { ...r, enabled } : r)));
+    } catch (error) {
+      toast({
+        title: "Error updating rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (rule: StoredAlertRule) => {
+    if (!confirm(`Delete ${rule.name}? Open alerts it raised stay open.`)) return;
+
+    try {
+      const { error } = await supabase.from("alert_rules").delete().eq("id", rule.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Rule Deleted",
+        description: `${rule.name} has been removed.`,
+      });
+      fetchRules();
+    } catch (error) {
+      toast({
+        title: "Error deleting rule",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const locationName = (locationId: string | null) =>
+    locationId ? locations.find((location) => location.id === locationId)?.name ?? "Unknown location" : "All locations";
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Alert Rules</h1>
+          <p className="text-muted-foreground mt-1">
+            Combinations of readings that raise an alert, on top of each location's thresholds
+          </p>
+        </div>
+        <AlertRuleDialog locations={locations} onSaved={fetchRules} />
+      </div>
+
+      {rules.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No alert rules yet. Click "Add Rule" to get started.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {rules.map((rule) => (
+            <Card key={rule.id} className={rule.enabled ? "" : "opacity-60"}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>{rule.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">{rule.description || locationName(rule.location_id)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.enabled}
+                      onCheckedChange={(enabled) => handleToggle(rule, enabled)}
+                      title={rule.enabled ? "Disable rule" : "Enable rule"}
+                    />
+                    <AlertRuleDialog rule={rule} locations={locations} onSaved={fetchRules} />
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => handleDelete(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">When:</span>
+                    <span className="text-right">
+                      {parseRuleConditions(rule.conditions).map(describeCondition).join(" and ")}
+                      {rule.sustain_readings > 1 && ` for ${rule.sustain_readings} readings`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Raises:</span>
+                    <span className="flex gap-2">
+                      <Badge variant="outline">
+                        {RULE_ALERT_TYPE_LABELS[rule.alert_type as SensorAlertType] ?? rule.alert_type}
+                      </Badge>
+                      <Badge variant="secondary" className="capitalize">{rule.severity}</Badge>
+                    </span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Applies to:</span>
+                    <span>{locationName(rule.location_id)}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertRules;
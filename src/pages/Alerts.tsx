@@ -5,17 +5,39 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
 import { formatDistanceToNow } from "date-fns";
-import { Flame, AlertTriangle, Wind, Thermometer, Users } from "lucide-react";
+import { Flame, AlertTriangle, Wind, Thermometer, Users, WifiOff, Wrench, LifeBuoy } from "lucide-react";
+import { formatSensorValue, normalizeReading, SENSOR_UNITS } from "@/lib/sensors";
+import { canTransition, transitionAlertStatus, type AlertStatus } from "@/lib/alert-status";
+import {
+  DISPATCH_STEP_COLUMNS,
+  DISPATCH_STEP_LABELS,
+  DISPATCH_STEPS,
+  nextDispatchStep,
+  reportDispatchStep,
+} from "@/lib/dispatch";
+import { ESCALATION_TARGET_LABELS, type EscalationTarget } from "@/lib/escalation";
 
 interface Alert {
   id: string;
   location_id: string;
-  alert_type: "fire" | "gas_leak" | "temperature" | "motion";
+  alert_type: "fire" | "gas_leak" | "temperature" | "motion" | "device_offline" | "sensor_fault" | "life_safety";
   timestamp: string;
   severity: "low" | "medium" | "high" | "critical";
-  status: "active" | "resolved" | "false_alarm" | "in_queue" | "unsolved";
+  status: AlertStatus;
+  auto_cleared_at: string | null;
+  assigned_station_id: string | null;
+  assigned_to: string | null;
+  acknowledged_at: string | null;
+  en_route_at: string | null;
+  on_scene_at: string | null;
+  escalation_level: number;
+  escalation_target: string | null;
+  notification_level: string;
+  supporting_station_ids: string[];
   locations: { name: string };
+  fire_stations: { name: string } | null;
   sensor_values: any;
 }
 
@@ -25,10 +47,10 @@ const Alerts = () => {
   const [pastAlerts, setPastAlerts] = useState<Alert[]>([]);
   const [solvedCases, setSolvedCases] = useState<Alert[]>([]);
   const [unsolvedCases, setUnsolvedCases] = useState<Alert[]>([]);
-  const [isAuthorityUser, setIsAuthorityUser] = useState(false);
+  const [assigneeNames, setAssigneeNames] = useState<Record<string, string>>({});
+  const { isStaff, userId, stationId } = useRole();
 
   useEffect(() => {
-    checkUserType();
     fetchAlerts();
     
     const channel = supabase
@@ -43,28 +65,11 @@ const Alerts = () => {
     };
   }, []);
 
-  const checkUserType = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
-
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('user_type')
-        .eq('user_id', user.id)
-        .single();
-
-      setIsAuthorityUser(profile?.user_type === 'authority');
-    } catch (error) {
-      console.error('Error checking user type:', error);
-    }
-  };
-
   const fetchAlerts = async () => {
     try {
       const { data, error } = await supabase
         .from("alerts")
-        .select("*, locations(name)")
+        .select("*, locations(name), fire_stations(name)")
         .order("timestamp", { ascending: false });
 
       if (error) throw error;
@@ -84,9 +89,19 @@ const Alerts = () => {
       }
       
       setLiveAlerts(uniqueLiveAlerts);
-      setPastAlerts(alerts.filter(a => a.status === "resolved" || a.status === "false_alarm" || a.status === "unsolved"));
+      setPastAlerts(alerts.filter(a => a.status === "resolved" || a.status === "false_alarm" || a.status === "unsolved" || a.status === "auto_cleared"));
       setSolvedCases(alerts.filter(a => a.status === "resolved"));
       setUnsolvedCases(alerts.filter(a => a.status === "unsolved"));
+
+      const assigneeIds = [...new Set(uniqueLiveAlerts.map(a => a.assigned_to).filter((id): id is string => !!id))];
+      if (assigneeIds.length > 0) {
+        const { data: profiles } = await supabase
+          .from("profiles")
+          .select("user_id, full_name")
+          .in("user_id", assigneeIds);
+
+        setAssigneeNames(Object.fromEntries((profiles || []).map(p => [p.user_id, p.full_name || "an officer"])));
+      }
     } catch (error) {
       toast({
         title: "Error fetching alerts",
@@ -96,17 +111,9 @@ const Alerts = () => {
     }
   };
 
-  const updateAlertStatus = async (alertId: string, newStatus: "active" | "resolved" | "false_alarm" | "in_queue" | "unsolved") => {
+  const updateAlertStatus = async (alertId: string, newStatus: AlertStatus) => {
     try {
-      const { data, error } = await supabase.functions.invoke('alert-manager', {
-        body: {
-          action: 'update',
-          alertId,
-          status: newStatus
-        }
-      });
-
-      if (error) throw error;
+      await transitionAlertStatus(alertId, newStatus);
 
       toast({
         title: "Alert Updated",
@@ -123,97 +130,185 @@ const Alerts = () => {
     }
   };
 
+  const reportStep = async (alert: Alert) => {
+    const step = nextDispatchStep(alert);
+    if (!step) return;
+
+    try {
+      await reportDispatchStep(alert.id, step);
+
+      toast({
+        title: DISPATCH_STEP_LABELS[step],
+        description: `${alert.locations?.name}: dispatch progress recorded`,
+      });
+
+      fetchAlerts();
+    } catch (error) {
+      toast({
+        title: "Error reporting progress",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Alerts this user's crew is responding to: named on the alert, or at the
+  // assigned station while no officer has claimed it
+  // Supporting stations brought in by an escalation may pick up the alert
+  // until someone acknowledges it
+  const isAssignedToMe = (alert: Alert) =>
+    (alert.assigned_to
+      ? alert.assigned_to === userId
+      : !!stationId && alert.assigned_station_id === stationId) ||
+    (!alert.acknowledged_at && !!stationId && alert.supporting_station_ids.includes(stationId));
+
+  const myAlerts = liveAlerts.filter(isAssignedToMe);
+
   const getAlertIcon = (type: string) => {
     switch (type) {
       case "fire": return <Flame className="h-5 w-5 text-destructive" />;
       case "gas_leak": return <Wind className="h-5 w-5 text-status-warning" />;
       case "temperature": return <Thermometer className="h-5 w-5 text-status-alert" />;
       case "motion": return <Users className="h-5 w-5 text-primary" />;
+      case "device_offline": return <WifiOff className="h-5 w-5 text-muted-foreground" />;
+      case "sensor_fault": return <Wrench className="h-5 w-5 text-muted-foreground" />;
+      case "life_safety": return <LifeBuoy className="h-5 w-5 text-status-critical" />;
       default: return <AlertTriangle className="h-5 w-5" />;
     }
   };
 
-  const AlertBox = ({ alert }: { alert: Alert }) => (
-    <Card className="mb-4 border-l-4 border-l-destructive">
-      <CardContent className="pt-6">
-        <div className="flex flex-col gap-4">
-          <div className="flex items-start justify-between">
-            <div className="space-y-2 flex-1">
-              <div className="flex items-center gap-3">
-                {getAlertIcon(alert.alert_type)}
-                <div>
-                  <h3 className="font-semibold text-lg">{alert.locations?.name}</h3>
-                  <p className="text-sm text-muted-foreground">
-                    {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })}
-                  </p>
+  const AlertBox = ({ alert }: { alert: Alert }) => {
+    const reading = normalizeReading(alert.sensor_values);
+    const isLive = alert.status === "active" || alert.status === "in_queue";
+    const nextStep = nextDispatchStep(alert);
+    const lastStep = [...DISPATCH_STEPS].reverse().find(step => alert[DISPATCH_STEP_COLUMNS[step]]);
+
+    return (
+      <Card className="mb-4 border-l-4 border-l-destructive">
+        <CardContent className="pt-6">
+          <div className="flex flex-col gap-4">
+            <div className="flex items-start justify-between">
+              <div className="space-y-2 flex-1">
+                <div className="flex items-center gap-3">
+                  {getAlertIcon(alert.alert_type)}
+                  <div>
+                    <h3 className="font-semibold text-lg">{alert.locations?.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(alert.timestamp), { addSuffix: true })}
+                    </p>
+                  </div>
                 </div>
-              </div>
               
-              <div className="flex gap-2">
-                <Badge variant="destructive">{alert.alert_type.toUpperCase().replace('_', ' ')}</Badge>
-                <Badge variant="outline">{alert.severity}</Badge>
-                <Badge>{alert.status.replace('_', ' ')}</Badge>
-              </div>
-
-              {alert.sensor_values && (
-                <div className="text-sm text-muted-foreground mt-2 space-y-1">
-                  <p>🌡️ Temperature: {alert.sensor_values.temperature}°C</p>
-                  <p>💨 Gas Level: {alert.sensor_values.gas}</p>
-                  <p>🔥 Flame: {alert.sensor_values.flame === 'FLAME' ? "🚨 Detected" : "None"}</p>
-                  <p>📍 PIR: {alert.sensor_values.pir === '0' ? "Motion Detected" : "No Motion"}</p>
+                <div className="flex gap-2">
+                  <Badge variant="destructive">{alert.alert_type.toUpperCase().replace('_', ' ')}</Badge>
+                  <Badge variant="outline">{alert.severity}</Badge>
+                  <Badge>{alert.status.replace('_', ' ')}</Badge>
+                  {isLive && alert.escalation_level > 0 && (
+                    <Badge variant={alert.notification_level === "critical" ? "destructive" : "secondary"}>
+                      Escalated: {ESCALATION_TARGET_LABELS[alert.escalation_target as EscalationTarget] ?? `level ${alert.escalation_level}`}
+                    </Badge>
+                  )}
                 </div>
-              )}
-            </div>
-          </div>
 
-          {isAuthorityUser && (
-            <div className="flex flex-wrap gap-2">
-              <Button 
-                size="sm" 
-                variant={alert.status === "in_queue" ? "default" : "outline"}
-                onClick={() => updateAlertStatus(alert.id, "in_queue")}
-                className="flex-1 min-w-[120px]"
-              >
-                In Queue
-              </Button>
-              <Button 
-                size="sm" 
-                variant={alert.status === "resolved" ? "default" : "outline"}
-                onClick={() => updateAlertStatus(alert.id, "resolved")}
-                className="flex-1 min-w-[120px]"
-              >
-                Solved
-              </Button>
-              <Button 
-                size="sm" 
-                variant={alert.status === "unsolved" ? "default" : "outline"}
-                onClick={() => updateAlertStatus(alert.id, "unsolved")}
-                className="flex-1 min-w-[120px]"
-              >
-                Unsolved
-              </Button>
+                {isLive && (alert.assigned_station_id || alert.assigned_to) && (
+                  <p className="text-sm text-muted-foreground">
+                    🚒 {alert.fire_stations?.name ?? "Station"}
+                    {alert.assigned_to && ` · ${alert.assigned_to === userId ? "you" : assigneeNames[alert.assigned_to] ?? "an officer"}`}
+                    {" · "}{lastStep ? DISPATCH_STEP_LABELS[lastStep] : "Awaiting acknowledgement"}
+                  </p>
+                )}
+
+                {alert.status === "in_queue" && alert.auto_cleared_at && (
+                  <p className="text-sm text-status-normal">
+                    Sensors back to normal {formatDistanceToNow(new Date(alert.auto_cleared_at), { addSuffix: true })}.
+                    Close the case once the crew confirms.
+                  </p>
+                )}
+
+                {reading && (
+                  <div className="text-sm text-muted-foreground mt-2 space-y-1">
+                    <p>🌡️ Temperature: {formatSensorValue(reading.temperature)}{SENSOR_UNITS.temperature}</p>
+                    <p>💨 Gas Level: {formatSensorValue(reading.gas, 0)} {SENSOR_UNITS.gas}</p>
+                    <p>🔥 Flame: {reading.flameDetected ? "🚨 Detected" : "None"}</p>
+                    <p>📍 PIR: {reading.motionDetected ? "Motion Detected" : "No Motion"}</p>
+                  </div>
+                )}
+              </div>
             </div>
-          )}
-        </div>
-      </CardContent>
-    </Card>
-  );
+
+            {isStaff && (
+              <div className="flex flex-wrap gap-2">
+                {isLive && nextStep && isAssignedToMe(alert) && (
+                  <Button
+                    size="sm"
+                    onClick={() => reportStep(alert)}
+                    className="flex-1 min-w-[120px]"
+                  >
+                    Mark {DISPATCH_STEP_LABELS[nextStep]}
+                  </Button>
+                )}
+                <Button 
+                  size="sm" 
+                  variant={alert.status === "in_queue" ? "default" : "outline"}
+                  onClick={() => updateAlertStatus(alert.id, "in_queue")}
+                  disabled={!canTransition(alert.status, "in_queue")}
+                  className="flex-1 min-w-[120px]"
+                >
+                  In Queue
+                </Button>
+                <Button 
+                  size="sm" 
+                  variant={alert.status === "resolved" ? "default" : "outline"}
+                  onClick={() => updateAlertStatus(alert.id, "resolved")}
+                  disabled={!canTransition(alert.status, "resolved")}
+                  className="flex-1 min-w-[120px]"
+                >
+                  Solved
+                </Button>
+                <Button 
+                  size="sm" 
+                  variant={alert.status === "unsolved" ? "default" : "outline"}
+                  onClick={() => updateAlertStatus(alert.id, "unsolved")}
+                  disabled={!canTransition(alert.status, "unsolved")}
+                  className="flex-1 min-w-[120px]"
+                >
+                  Unsolved
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  };
 
   return (
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold">Alert Management</h1>
-        <p className="text-muted-foreground">Monitor and manage all fire alerts across locations</p>
+        <p className="text-muted-foreground">
+          {isStaff
+            ? "Monitor and manage all fire alerts across locations"
+            : "Fire alerts at the locations you follow"}
+        </p>
       </div>
 
       <Tabs defaultValue="live" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className={`grid w-full ${isStaff ? "grid-cols-6" : "grid-cols-5"}`}>
           <TabsTrigger value="live">
             Live Alerts
             {liveAlerts.length > 0 && (
               <Badge variant="destructive" className="ml-2">{liveAlerts.length}</Badge>
             )}
           </TabsTrigger>
+          {isStaff && (
+            <TabsTrigger value="mine">
+              Assigned to Me
+              {myAlerts.length > 0 && (
+                <Badge variant="destructive" className="ml-2">{myAlerts.length}</Badge>
+              )}
+            </TabsTrigger>
+          )}
           <TabsTrigger value="past">Past Alerts</TabsTrigger>
           <TabsTrigger value="solved">Solved Cases</TabsTrigger>
           <TabsTrigger value="unsolved">Unsolved Cases</TabsTrigger>
@@ -232,6 +327,18 @@ const Alerts = () => {
           )}
         </TabsContent>
 
+        <TabsContent value="mine" className="space-y-4">
+          {myAlerts.length === 0 ? (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                Nothing assigned to you or your station.
+              </CardContent>
+            </Card>
+          ) : (
+            myAlerts.map(alert => <AlertBox key={alert.id} alert={alert} />)
+          )}
+        </TabsContent>
+
         <TabsContent value="past" className="space-y-4">
           {pastAlerts.length === 0 ? (
             <Card>
@@ -7,7 +7,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Flame, MapPin } from "lucide-react";
+import { Flame } from "lucide-react";
 import { z } from "zod";
 
 const loginSchema = z.object({
@@ -19,13 +19,20 @@ const signupSchema = loginSchema.extend({
   fullName: z.string().min(2, "Full name must be at least 2 characters"),
 });
 
+// Reviewed by an in-charge before the account gets authority access
+const authoritySchema = z.object({
+  badgeNumber: z.string().trim().min(2, "Badge number is required"),
+  department: z.string().trim().optional(),
+  fireStation: z.string().trim().min(2, "Fire station is required"),
+});
+
 const Auth = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
   const [loginData, setLoginData] = useState({ email: "", password: "" });
   const [signupData, setSignupData] = useState({ email: "", password: "", fullName: "" });
-  const [capturedLocation, setCapturedLocation] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [authorityData, setAuthorityData] = useState({ badgeNumber: "", department: "", fireStation: "" });
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -86,6 +93,7 @@ const Auth = () => {
 
     try {
       const validated = signupSchema.parse(signupData);
+      const authority = userType === "authority" ? authoritySchema.parse(authorityData) : null;
       
       const { data: authData, error: signUpError } = await supabase.auth.signUp({
         email: validated.email,
@@ -108,10 +116,11 @@ const Auth = () => {
           user_type: userType,
         };
 
-        // If authority user and location was captured, add fire station coordinates
-        if (userType === "authority" && capturedLocation) {
-          profileData.fire_station_latitude = capturedLocation.latitude;
-          profileData.fire_station_longitude = capturedLocation.longitude;
+        // Authority details are copied into the verification request
+        if (authority) {
+          profileData.badge_number = authority.badgeNumber;
+          profileData.department = authority.department || null;
+          profileData.fire_station = authority.fireStation;
         }
 
         await supabase.from("profiles").insert(profileData);
@@ -119,7 +128,9 @@ const Auth = () => {
 
       toast({
         title: "Account created",
-        description: `Welcome to FireProtect as ${userType === "authority" ? "Fire Authority" : "Civilian"}`,
+        description: userType === "authority"
+          ? "Your Fire Authority account is awaiting verification by a station in-charge."
+          : "Welcome to FireProtect as Civilian",
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -140,37 +151,6 @@ const Auth = () => {
     }
   };
 
-  const captureFireStationLocation = () => {
-    if (!navigator.geolocation) {
-      toast({
-        title: "Geolocation not supported",
-        description: "Your browser doesn't support location access.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        setCapturedLocation({
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-        });
-        toast({
-          title: "Fire station location captured",
-          description: "Your fire station location has been recorded.",
-        });
-      },
-      (error) => {
-        toast({
-          title: "Location access denied",
-          description: "Please allow location access to set fire station location.",
-          variant: "destructive",
-        });
-      }
-    );
-  };
-
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <div className="absolute inset-0 bg-gradient-to-br from-primary/10 via-background to-accent/10" />
@@ -309,22 +289,40 @@ const Auth = () => {
                         />
                       </div>
                       <div className="space-y-2">
-                        <Label>Fire Station Location</Label>
-                        <Button
-                          type="button"
-                          variant="outline"
-                          className="w-full"
-                          onClick={captureFireStationLocation}
-                        >
-                          <MapPin className="h-4 w-4 mr-2" />
-                          {capturedLocation 
-                            ? `Location Set (${capturedLocation.latitude.toFixed(4)}, ${capturedLocation.longitude.toFixed(4)})` 
-                            : "Capture Fire Station Location"}
-                        </Button>
-                        <p className="text-xs text-muted-foreground">
-                          Optional: Capture your fire station's location for map routing
-                        </p>
+                        <Label htmlFor="signup-badge-auth">Badge Number</Label>
+                        <Input
+                          id="signup-badge-auth"
+                          type="text"
+                          placeholder="FO-1234"
+                          value={authorityData.badgeNumber}
+                          onChange={(e) => setAuthorityData({ ...authorityData, badgeNumber: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="signup-station-auth">Fire Station</Label>
+                        <Input
+                          id="signup-station-auth"
+                          type="text"
+                          placeholder="Delhi Fire Station Central"
+                          value={authorityData.fireStation}
+                          onChange={(e) => setAuthorityData({ ...authorityData, fireStation: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="signup-department-auth">Department</Label>
+                        <Input
+                          id="signup-department-auth"
+                          type="text"
+                          placeholder="Emergency Response"
+                          value={authorityData.department}
+                          onChange={(e) => setAuthorityData({ ...authorityData, department: e.target.value })}
+                        />
                       </div>
+                      <p className="text-xs text-muted-foreground">
+                        Authority accounts are verified by a station in-charge before they can manage alerts and locations.
+                      </p>
                       <Button type="submit" className="w-full" disabled={isLoading}>
                         {isLoading ? "Creating account..." : "Create Authority Account"}
                       </Button>
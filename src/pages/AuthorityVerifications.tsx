@@ -0,0 +1,231 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { BadgeCheck, Building2, Calendar, Check, IdCard, Loader2, X } from "lucide-react";
+
+interface Verification {
+  id: string;
+  user_id: string;
+  badge_number: string | null;
+  department: string | null;
+  fire_station: string | null;
+  created_at: string;
+  full_name?: string | null;
+  phone?: string | null;
+}
+
+const AuthorityVerifications = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { hasMinRole, isLoading: isRoleLoading } = useRole();
+  const [verifications, setVerifications] = useState<Verification[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<Verification | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
+
+  useEffect(() => {
+    if (isRoleLoading) return;
+
+    if (!hasMinRole("incharge")) {
+      toast({
+        title: "Access Denied",
+        description: "Only station in-charges and admins can verify authority accounts.",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    fetchVerifications();
+  }, [isRoleLoading, hasMinRole]);
+
+  const fetchVerifications = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("authority_verifications")
+        .select("id, user_id, badge_number, department, fire_station, created_at")
+        .eq("status", "pending")
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      const userIds = (data || []).map((verification) => verification.user_id);
+      const { data: profiles } = userIds.length > 0
+        ? await supabase.from("profiles").select("user_id, full_name, phone").in("user_id", userIds)
+        : { data: [] };
+
+      setVerifications((data || []).map((verification) => {
+        const profile = profiles?.find((p) => p.user_id === verification.user_id);
+        return { ...verification, full_name: profile?.full_name, phone: profile?.phone };
+      }));
+    } catch (error) {
+      toast({
+        title: "Error fetching verification requests",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const reviewVerification = async (verification: Verification, approve: boolean, reason?: string) => {
+    setProcessingId(verification.id);
+    try {
+      const { error } = await supabase.rpc("review_authority_verification", {
+        _verification_id: verification.id,
+        _approve: approve,
+        _reason: reason,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: approve ? "Account Approved" : "Account Rejected",
+        description: approve
+          ? `${verification.full_name || "The user"} now has fire officer access.`
+          : `${verification.full_name || "The user"} has been notified of the reason.`,
+      });
+
+      setRejecting(null);
+      setRejectionReason("");
+      setVerifications(verifications.filter((v) => v.id !== verification.id));
+    } catch (error) {
+      toast({
+        title: "Error reviewing account",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Authority Verification</h1>
+        <p className="text-muted-foreground mt-1">
+          Check badge numbers and stations before granting fire officer access
+        </p>
+      </div>
+
+      {verifications.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center justify-center py-12">
+            <BadgeCheck className="h-12 w-12 text-muted-foreground mb-4" />
+            <p className="text-muted-foreground text-lg">No accounts awaiting verification</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+          {verifications.map((verification) => (
+            <Card key={verification.id} className="flex flex-col">
+              <CardHeader>
+                <div className="flex items-start justify-between">
+                  <div>
+                    <CardTitle className="text-lg">{verification.full_name || "Unnamed user"}</CardTitle>
+                    <CardDescription>{verification.phone || "No phone number"}</CardDescription>
+                  </div>
+                  <Badge variant="secondary">Pending</Badge>
+                </div>
+              </CardHeader>
+
+              <CardContent className="flex-1 space-y-2 text-sm">
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <IdCard className="h-4 w-4" />
+                  <span>Badge: {verification.badge_number || "—"}</span>
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Building2 className="h-4 w-4" />
+                  <span>
+                    {verification.fire_station || "—"}
+                    {verification.department && ` / ${verification.department}`}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2 text-muted-foreground">
+                  <Calendar className="h-4 w-4" />
+                  <span>{new Date(verification.created_at).toLocaleDateString()}</span>
+                </div>
+              </CardContent>
+
+              <CardFooter className="gap-2">
+                <Button
+                  className="flex-1"
+                  onClick={() => reviewVerification(verification, true)}
+                  disabled={processingId === verification.id}
+                >
+                  {processingId === verification.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <>
+                      <Check className="h-4 w-4 mr-2" />
+                      Approve
+                    </>
+                  )}
+                </Button>
+                <Button
+                  variant="destructive"
+                  className="flex-1"
+                  onClick={() => setRejecting(verification)}
+                  disabled={processingId === verification.id}
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
+                </Button>
+              </CardFooter>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Authority Account</DialogTitle>
+            <DialogDescription>
+              {rejecting?.full_name || "The user"} will keep civilian access and see this reason.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Badge number could not be matched with the station roster"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && reviewVerification(rejecting, false, rejectionReason)}
+              disabled={!rejectionReason.trim() || processingId === rejecting?.id}
+            >
+              Reject Account
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuthorityVerifications;
@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
+import { releaseDevice } from "@/lib/push";
 import { Button } from "@/components/ui/button";
 import { NotificationCard } from "@/components/NotificationCard";
 import { LiveSensorReadings } from "@/components/LiveSensorReadings";
@@ -10,15 +11,17 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Badge } from "@/components/ui/badge";
 import { LogOut, Map, MapPin, TrendingUp } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
 import { formatDistanceToNow } from "date-fns";
+import { transitionAlertStatus, type AlertStatus } from "@/lib/alert-status";
 
 interface Alert {
   id: string;
   location_id: string;
-  alert_type: "fire" | "gas_leak" | "temperature" | "motion";
+  alert_type: "fire" | "gas_leak" | "temperature" | "motion" | "device_offline" | "sensor_fault" | "life_safety";
   timestamp: string;
   severity: "low" | "medium" | "high" | "critical";
-  status: "active" | "resolved" | "false_alarm" | "in_queue" | "unsolved";
+  status: AlertStatus;
   locations: {
     name: string;
   };
@@ -30,7 +33,7 @@ const Dashboard = () => {
   const [liveAlerts, setLiveAlerts] = useState<Alert[]>([]);
   const [pastCases, setPastCases] = useState<Alert[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isAuthorityUser, setIsAuthorityUser] = useState(false);
+  const { isStaff } = useRole();
 
   useEffect(() => {
     checkAuth();
@@ -55,20 +58,6 @@ const Dashboard = () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (!session) {
       navigate("/auth");
-      return;
-    }
-
-    // Check user type
-    try {
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('user_type')
-        .eq('user_id', session.user.id)
-        .single();
-
-      setIsAuthorityUser(profile?.user_type === 'authority');
-    } catch (error) {
-      console.error('Error checking user type:', error);
     }
   };
 
@@ -85,7 +74,7 @@ const Dashboard = () => {
       const { data: past, error: pastError } = await supabase
         .from("alerts")
         .select("*, locations(name)")
-        .in("status", ["resolved", "false_alarm"])
+        .in("status", ["resolved", "false_alarm", "auto_cleared"])
         .order("timestamp", { ascending: false })
         .limit(20);
 
@@ -105,18 +94,14 @@ const Dashboard = () => {
   };
 
   const handleLogout = async () => {
+    await releaseDevice();
     await supabase.auth.signOut();
     navigate("/auth");
   };
 
-  const handleStatusChange = async (alertId: string, newStatus: string) => {
+  const handleStatusChange = async (alertId: string, newStatus: AlertStatus) => {
     try {
-      const { error } = await supabase
-        .from("alerts")
-        .update({ status: newStatus })
-        .eq("id", alertId);
-
-      if (error) throw error;
+      await transitionAlertStatus(alertId, newStatus);
 
       toast({
         title: "Alert Updated",
@@ -204,7 +189,7 @@ const Dashboard = () => {
                   severity={alert.severity}
                   status={alert.status}
                   onStatusChange={handleStatusChange}
-                  isAuthorityUser={isAuthorityUser}
+                  isAuthorityUser={isStaff}
                 />
               ))
             )}
@@ -0,0 +1,202 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { EscalationChainEditor } from "@/components/EscalationChainEditor";
+import { Loader2 } from "lucide-react";
+import { DEFAULT_ESCALATION_CHAIN, parseEscalationChain, type EscalationTier } from "@/lib/escalation";
+
+/** Key of the default policy (NULL region) in the chains map */
+const DEFAULT_REGION = "";
+
+const EscalationPolicies = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { hasMinRole, isLoading: isRoleLoading } = useRole();
+  const [regions, setRegions] = useState<string[]>([]);
+  // Chains being edited, by region; a region without an entry uses the default
+  const [chains, setChains] = useState<Record<string, EscalationTier[]>>({});
+  const [savingRegion, setSavingRegion] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (isRoleLoading) return;
+
+    if (!hasMinRole("incharge")) {
+      toast({
+        title: "Access Denied",
+        description: "Only station in-charges and admins can manage escalation policies.",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    fetchPolicies();
+  }, [isRoleLoading, hasMinRole]);
+
+  const fetchPolicies = async () => {
+    try {
+      const { data: policies, error } = await supabase
+        .from("escalation_policies")
+        .select("region, chain");
+
+      if (error) throw error;
+
+      const { data: locations, error: locationsError } = await supabase
+        .from("locations")
+        .select("region");
+
+      if (locationsError) throw locationsError;
+
+      const next: Record<string, EscalationTier[]> = { [DEFAULT_REGION]: DEFAULT_ESCALATION_CHAIN };
+      for (const policy of policies || []) {
+        next[policy.region ?? DEFAULT_REGION] = parseEscalationChain(policy.chain);
+      }
+
+      setChains(next);
+      setRegions([...new Set([
+        ...(locations || []).map((location) => location.region),
+        ...(policies || []).map((policy) => policy.region),
+      ])].filter((region): region is string => !!region).sort());
+    } catch (error) {
+      toast({
+        title: "Error fetching escalation policies",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSave = async (region: string) => {
+    const chain = [...chains[region]].sort((a, b) => a.afterMinutes - b.afterMinutes);
+
+    setSavingRegion(region);
+    try {
+      const { error } = await supabase
+        .from("escalation_policies")
+        .upsert({ region: region === DEFAULT_REGION ? null : region, chain }, { onConflict: "region" });
+
+      if (error) throw error;
+
+      toast({
+        title: "Escalation Policy Saved",
+        description: region === DEFAULT_REGION ? "The default chain has been updated." : `${region} has been updated.`,
+      });
+      setChains((current) => ({ ...current, [region]: chain }));
+    } catch (error) {
+      toast({
+        title: "Error saving escalation policy",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRegion(null);
+    }
+  };
+
+  const handleUseDefault = async (region: string) => {
+    setSavingRegion(region);
+    try {
+      const { error } = await supabase.from("escalation_policies").delete().eq("region", region);
+
+      if (error) throw error;
+
+      setChains((current) => {
+        const next = { ...current };
+        delete next[region];
+        return next;
+      });
+    } catch (error) {
+      toast({
+        title: "Error resetting escalation policy",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingRegion(null);
+    }
+  };
+
+  const setChain = (region: string, chain: EscalationTier[]) => {
+    setChains((current) => ({ ...current, [region]: chain }));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Escalation Policies</h1>
+        <p className="text-muted-foreground mt-1">
+          Who is brought in, and how loudly, when nobody acknowledges an alert
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Default</CardTitle>
+          <CardDescription>Applies to every region without its own policy</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <EscalationChainEditor
+            value={chains[DEFAULT_REGION]}
+            onChange={(chain) => setChain(DEFAULT_REGION, chain)}
+          />
+          <Button onClick={() => handleSave(DEFAULT_REGION)} disabled={savingRegion !== null}>
+            {savingRegion === DEFAULT_REGION ? "Saving..." : "Save Default"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {regions.map((region) => {
+        const chain = chains[region];
+
+        return (
+          <Card key={region}>
+            <CardHeader>
+              <CardTitle>{region}</CardTitle>
+              <CardDescription>{chain ? "Own escalation chain" : "Uses the default chain"}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {chain ? (
+                <>
+                  <EscalationChainEditor value={chain} onChange={(next) => setChain(region, next)} />
+                  <div className="flex gap-2">
+                    <Button onClick={() => handleSave(region)} disabled={savingRegion !== null}>
+                      {savingRegion === region ? "Saving..." : "Save"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => handleUseDefault(region)}
+                      disabled={savingRegion !== null}
+                    >
+                      Use Default
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button variant="outline" onClick={() => setChain(region, chains[DEFAULT_REGION])}>
+                  Customise
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EscalationPolicies;
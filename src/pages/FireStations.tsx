@@ -0,0 +1,175 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { FireStationDialog, type FireStation } from "@/components/FireStationDialog";
+import { StationMembersDialog } from "@/components/StationMembersDialog";
+import { Loader2, Trash2 } from "lucide-react";
+
+interface StationWithMembers extends FireStation {
+  member_count: number;
+}
+
+const FireStations = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { hasMinRole, isLoading: isRoleLoading } = useRole();
+  const [stations, setStations] = useState<StationWithMembers[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    if (isRoleLoading) return;
+
+    if (!hasMinRole("incharge")) {
+      toast({
+        title: "Access Denied",
+        description: "Only station in-charges and admins can manage fire stations.",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    fetchStations();
+  }, [isRoleLoading, hasMinRole]);
+
+  const fetchStations = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("fire_stations")
+        .select("id, name, address, phone, latitude, longitude, total_units, available_units, coverage_radius_km")
+        .order("name");
+
+      if (error) throw error;
+
+      const { data: members, error: membersError } = await supabase
+        .from("fire_station_members")
+        .select("station_id");
+
+      if (membersError) throw membersError;
+
+      setStations((data || []).map((station) => ({
+        ...station,
+        member_count: (members || []).filter((member) => member.station_id === station.id).length,
+      })));
+    } catch (error) {
+      toast({
+        title: "Error fetching fire stations",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDelete = async (station: FireStation) => {
+    if (!confirm(`Delete ${station.name}? Its officers will no longer be assigned to a station.`)) return;
+
+    try {
+      const { error } = await supabase.from("fire_stations").delete().eq("id", station.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Station Deleted",
+        description: `${station.name} has been removed.`,
+      });
+      fetchStations();
+    } catch (error) {
+      toast({
+        title: "Error deleting station",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Fire Stations</h1>
+          <p className="text-muted-foreground mt-1">
+            Stations, their units and the officers assigned to them
+          </p>
+        </div>
+        <FireStationDialog onSaved={fetchStations} />
+      </div>
+
+      {stations.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No fire stations added yet. Click "Add Station" to get started.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid gap-4">
+          {stations.map((station) => (
+            <Card key={station.id}>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>{station.name}</CardTitle>
+                    <p className="text-sm text-muted-foreground">{station.address || "No address"}</p>
+                  </div>
+                  <div className="flex gap-2">
+                    <StationMembersDialog stationId={station.id} stationName={station.name} onSaved={fetchStations} />
+                    <FireStationDialog station={station} onSaved={fetchStations} />
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => handleDelete(station)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Units Available:</span>
+                    <Badge variant={station.available_units > 0 ? "secondary" : "destructive"}>
+                      {station.available_units} / {station.total_units}
+                    </Badge>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Officers:</span>
+                    <span>{station.member_count}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Phone:</span>
+                    <span>{station.phone || "—"}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Coordinates:</span>
+                    <span>{station.latitude}, {station.longitude}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Coverage:</span>
+                    <span>{station.coverage_radius_km ? `${station.coverage_radius_km} km radius` : "Everywhere"}</span>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FireStations;
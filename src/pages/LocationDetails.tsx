@@ -6,49 +6,60 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { SensorCard } from "@/components/SensorCard";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Navigation, RefreshCw, Flame, Wind, Thermometer, Droplets, Eye } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, BellOff, BellPlus, Navigation, RefreshCw, Flame, Wind, Thermometer, Droplets, Eye, CloudFog, Biohazard } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useLocationThresholds } from "@/hooks/use-location-thresholds";
+import { useLocationSubscriptions } from "@/hooks/use-location-subscriptions";
+import { getThresholdStatus } from "@/lib/thresholds";
+import type { LocationStatus } from "@/lib/location-status";
+import { formatSensorValue, SENSOR_UNITS, type SensorReading } from "@/lib/sensors";
+import { format } from "date-fns";
 
 interface Location {
   id: string;
   name: string;
   region: string;
-  status: "normal" | "warning" | "alert";
+  status: LocationStatus;
   latitude: number;
   longitude: number;
   thingspeak_channel_id: string | null;
-  thingspeak_read_key: string | null;
-}
-
-interface SensorData {
-  flame: string;
-  gas: number;
-  temperature: number;
-  humidity: number;
-  pir: string;
-  timestamp: string;
 }
 
 interface HistoricalData {
   timestamp: string;
   flame: number;
-  gas: number;
-  temperature: number;
-  humidity: number;
+  gas: number | null;
+  temperature: number | null;
+  humidity: number | null;
 }
 
+type HistoryRange = "1h" | "24h" | "7d" | "30d" | "90d";
+
+// Stored readings are aggregated server-side so long ranges stay light
+const historyRanges: Record<HistoryRange, { label: string; ms: number; bucket: string; format: string }> = {
+  "1h": { label: "Last hour", ms: 60 * 60 * 1000, bucket: "minute", format: "HH:mm" },
+  "24h": { label: "Last 24 hours", ms: 24 * 60 * 60 * 1000, bucket: "hour", format: "MMM d HH:mm" },
+  "7d": { label: "Last 7 days", ms: 7 * 24 * 60 * 60 * 1000, bucket: "hour", format: "MMM d HH:mm" },
+  "30d": { label: "Last 30 days", ms: 30 * 24 * 60 * 60 * 1000, bucket: "day", format: "MMM d" },
+  "90d": { label: "Last 90 days", ms: 90 * 24 * 60 * 60 * 1000, bucket: "day", format: "MMM d" },
+};
+
 const LocationDetails = () => {
   const { id } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [location, setLocation] = useState<Location | null>(null);
-  const [sensorData, setSensorData] = useState<SensorData | null>(null);
+  const [sensorData, setSensorData] = useState<SensorReading | null>(null);
   const [historicalData, setHistoricalData] = useState<HistoricalData[]>([]);
+  const [historyRange, setHistoryRange] = useState<HistoryRange>("1h");
   const [rawData, setRawData] = useState<any>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const thresholds = useLocationThresholds(id);
+  const { isFollowing, isOwner, follow, unfollow } = useLocationSubscriptions();
 
   useEffect(() => {
     fetchLocationData();
@@ -56,6 +67,10 @@ const LocationDetails = () => {
     return () => clearInterval(interval);
   }, [id]);
 
+  useEffect(() => {
+    fetchHistoricalData();
+  }, [location?.id, historyRange]);
+
   const fetchLocationData = async () => {
     try {
       setIsLoading(true);
@@ -68,9 +83,8 @@ const LocationDetails = () => {
       if (error) throw error;
       setLocation(data as Location);
       
-      if (data.thingspeak_channel_id && data.thingspeak_read_key) {
+      if (data.thingspeak_channel_id) {
         await fetchSensorData();
-        await fetchHistoricalData();
       }
     } catch (error) {
       toast({
@@ -84,16 +98,13 @@ const LocationDetails = () => {
   };
 
   const fetchSensorData = async () => {
-    if (!location?.thingspeak_channel_id || !location?.thingspeak_read_key) return;
+    if (!location?.thingspeak_channel_id) return;
 
     try {
       const { data, error } = await supabase.functions.invoke("thingspeak-service", {
         body: {
           action: "latest",
-          location: {
-            thingspeak_channel_id: location.thingspeak_channel_id,
-            thingspeak_read_key: location.thingspeak_read_key,
-          },
+          locationId: location.id,
         },
       });
 
@@ -108,28 +119,28 @@ const LocationDetails = () => {
   };
 
   const fetchHistoricalData = async () => {
-    if (!location?.thingspeak_channel_id || !location?.thingspeak_read_key) return;
+    if (!location?.thingspeak_channel_id) return;
+
+    const range = historyRanges[historyRange];
 
     try {
       const { data, error } = await supabase.functions.invoke("thingspeak-service", {
         body: {
           action: "history",
-          location: {
-            thingspeak_channel_id: location.thingspeak_channel_id,
-            thingspeak_read_key: location.thingspeak_read_key,
-          },
-          results: 50,
+          locationId: location.id,
+          from: new Date(Date.now() - range.ms).toISOString(),
+          bucket: range.bucket,
         },
       });
 
       if (error) throw error;
       if (data.success) {
-        const formattedData = data.data.map((item: any) => ({
-          timestamp: new Date(item.timestamp).toLocaleTimeString(),
-          flame: parseFloat(item.flame) || 0,
-          gas: item.gas || 0,
-          temperature: item.temperature || 0,
-          humidity: item.humidity || 0,
+        const formattedData = (data.data as SensorReading[]).map((item) => ({
+          timestamp: format(new Date(item.timestamp), range.format),
+          flame: item.flameDetected ? 1 : 0,
+          gas: item.gas,
+          temperature: item.temperature,
+          humidity: item.humidity,
         }));
         setHistoricalData(formattedData);
       }
@@ -149,6 +160,25 @@ const LocationDetails = () => {
     });
   };
 
+  const handleToggleFollow = async () => {
+    if (!id) return;
+    try {
+      if (isFollowing(id)) {
+        await unfollow(id);
+        toast({ title: "Unfollowed", description: "You will no longer get alerts for this location." });
+      } else {
+        await follow(id);
+        toast({ title: "Following", description: "You will get alerts for this location." });
+      }
+    } catch (error) {
+      toast({
+        title: "Error updating follow",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleNavigate = () => {
     if (location) {
       window.open(
@@ -158,7 +188,8 @@ const LocationDetails = () => {
     }
   };
 
-  const getSensorStatus = (value: number, thresholds: { warning: number; danger: number }) => {
+  const getSensorStatus = (value: number | null, thresholds: { warning: number; danger: number }) => {
+    if (value === null) return "normal";
     if (value >= thresholds.danger) return "danger";
     if (value >= thresholds.warning) return "warning";
     return "normal";
@@ -184,6 +215,7 @@ const LocationDetails = () => {
     normal: { color: "bg-status-normal", label: "Normal", variant: "secondary" as const },
     warning: { color: "bg-status-warning", label: "Warning", variant: "default" as const },
     alert: { color: "bg-status-alert", label: "Alert", variant: "destructive" as const },
+    offline: { color: "bg-muted-foreground", label: "Offline", variant: "outline" as const },
   };
 
   return (
@@ -202,8 +234,19 @@ const LocationDetails = () => {
               <Badge variant={statusConfig[location.status].variant}>
                 {statusConfig[location.status].label}
               </Badge>
+              {isOwner(location.id) && <Badge variant="outline">Your location</Badge>}
             </div>
             <div className="flex gap-2">
+              {!isOwner(location.id) && (
+                <Button variant="outline" onClick={handleToggleFollow}>
+                  {isFollowing(location.id) ? (
+                    <BellOff className="h-4 w-4 mr-2" />
+                  ) : (
+                    <BellPlus className="h-4 w-4 mr-2" />
+                  )}
+                  {isFollowing(location.id) ? "Unfollow" : "Follow"}
+                </Button>
+              )}
               <Button variant="outline" onClick={handleRefresh} disabled={isRefreshing}>
                 <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? "animate-spin" : ""}`} />
                 Refresh
@@ -235,37 +278,60 @@ const LocationDetails = () => {
                   <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
                     <SensorCard
                       title="Flame Sensor"
-                      value={sensorData.flame}
+                      value={sensorData.flameDetected ? "Detected" : "None"}
                       icon={Flame}
-                      status={getSensorStatus(parseFloat(sensorData.flame), { warning: 20, danger: 50 })}
+                      status={sensorData.flameDetected ? "danger" : "normal"}
                     />
                     <SensorCard
                       title="Gas Level"
-                      value={sensorData.gas}
-                      unit="ppm"
+                      value={formatSensorValue(sensorData.gas, 0)}
+                      unit={SENSOR_UNITS.gas}
                       icon={Wind}
-                      status={getSensorStatus(sensorData.gas, { warning: 300, danger: 500 })}
+                      status={getThresholdStatus(sensorData.gas, thresholds.gas)}
+                      fault={sensorData.faults?.gas}
                     />
                     <SensorCard
                       title="Temperature"
-                      value={sensorData.temperature}
-                      unit="°C"
+                      value={formatSensorValue(sensorData.temperature)}
+                      unit={SENSOR_UNITS.temperature}
                       icon={Thermometer}
-                      status={getSensorStatus(sensorData.temperature, { warning: 40, danger: 60 })}
+                      status={getThresholdStatus(sensorData.temperature, thresholds.temperature)}
+                      fault={sensorData.faults?.temperature}
                     />
                     <SensorCard
                       title="Humidity"
-                      value={sensorData.humidity}
-                      unit="%"
+                      value={formatSensorValue(sensorData.humidity)}
+                      unit={SENSOR_UNITS.humidity}
                       icon={Droplets}
                       status={getSensorStatus(sensorData.humidity, { warning: 70, danger: 85 })}
+                      fault={sensorData.faults?.humidity}
                     />
                     <SensorCard
                       title="Motion Detected"
-                      value={sensorData.pir === "1" ? "Yes" : "No"}
+                      value={sensorData.motionDetected ? "Yes" : "No"}
                       icon={Eye}
-                      status={sensorData.pir === "1" ? "warning" : "normal"}
+                      status={sensorData.motionDetected ? "warning" : "normal"}
                     />
+                    {(sensorData.smoke !== null || sensorData.faults?.smoke) && (
+                      <SensorCard
+                        title="Smoke"
+                        value={formatSensorValue(sensorData.smoke, 0)}
+                        unit={SENSOR_UNITS.smoke}
+                        icon={CloudFog}
+                        status="normal"
+                        fault={sensorData.faults?.smoke}
+                      />
+                    )}
+                    {(sensorData.co !== null || sensorData.faults?.co) && (
+                      <SensorCard
+                        title="Carbon Monoxide"
+                        value={formatSensorValue(sensorData.co, 0)}
+                        unit={SENSOR_UNITS.co}
+                        icon={Biohazard}
+                        status="normal"
+                        fault={sensorData.faults?.co}
+                      />
+                    )}
                   </div>
                 ) : (
                   <div className="text-center py-8 text-muted-foreground">
@@ -276,10 +342,24 @@ const LocationDetails = () => {
             </Card>
 
             <Tabs defaultValue="charts" className="space-y-4">
-              <TabsList className="grid w-full max-w-md grid-cols-2">
-                <TabsTrigger value="charts">Trend Charts</TabsTrigger>
-                <TabsTrigger value="raw">Raw Data</TabsTrigger>
-              </TabsList>
+              <div className="flex items-center justify-between gap-4">
+                <TabsList className="grid w-full max-w-md grid-cols-2">
+                  <TabsTrigger value="charts">Trend Charts</TabsTrigger>
+                  <TabsTrigger value="raw">Raw Data</TabsTrigger>
+                </TabsList>
+                <Select value={historyRange} onValueChange={(value) => setHistoryRange(value as HistoryRange)}>
+                  <SelectTrigger className="w-44">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(historyRanges).map(([value, range]) => (
+                      <SelectItem key={value} value={value}>
+                        {range.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
 
               <TabsContent value="charts" className="space-y-4">
                 <Card>
@@ -398,7 +478,7 @@ const LocationDetails = () => {
                   <strong>Refresh:</strong> Click "Refresh" to manually update sensor readings.
                 </p>
                 <p className="text-sm">
-                  <strong>Charts:</strong> View historical trends to identify patterns and anomalies.
+                  <strong>Charts:</strong> View historical trends to identify patterns and anomalies. Pick a time range to look back up to 90 days.
                 </p>
                 <p className="text-sm">
                   <strong>Raw Data:</strong> Access complete sensor data in JSON format for debugging.
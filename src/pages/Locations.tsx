@@ -5,12 +5,14 @@ import { Button } from "@/components/ui/button";
 import { LocationCard } from "@/components/LocationCard";
 import { ArrowLeft } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useLocationSubscriptions } from "@/hooks/use-location-subscriptions";
+import type { LocationStatus } from "@/lib/location-status";
 
 interface Location {
   id: string;
   name: string;
   region: string;
-  status: "normal" | "warning" | "alert";
+  status: LocationStatus;
   latitude: number;
   longitude: number;
 }
@@ -21,6 +23,7 @@ const Locations = () => {
   const [locations, setLocations] = useState<Location[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [checkingLocation, setCheckingLocation] = useState<string | null>(null);
+  const { isFollowing, isOwner, follow, unfollow } = useLocationSubscriptions();
 
   useEffect(() => {
     fetchLocations();
@@ -78,7 +81,12 @@ const Locations = () => {
       if (error) throw error;
 
       if (data.success) {
-        if (!data.created) {
+        if (data.pending) {
+          toast({
+            title: "Threshold Exceeded",
+            description: data.message,
+          });
+        } else if (!data.created) {
           toast({
             title: "Sensors Normal",
             description: data.message || "All sensors within normal range.",
@@ -98,6 +106,24 @@ const Locations = () => {
     }
   };
 
+  const handleToggleFollow = async (locationId: string) => {
+    try {
+      if (isFollowing(locationId)) {
+        await unfollow(locationId);
+        toast({ title: "Unfollowed", description: "You will no longer get alerts for this location." });
+      } else {
+        await follow(locationId);
+        toast({ title: "Following", description: "You will get alerts for this location." });
+      }
+    } catch (error) {
+      toast({
+        title: "Error updating follow",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       <header className="border-b border-border bg-card/50 backdrop-blur sticky top-0 z-50">
@@ -131,6 +157,9 @@ const Locations = () => {
                 {...location} 
                 onCheckSensors={handleCheckSensors}
                 isChecking={checkingLocation === location.id}
+                isFollowing={isFollowing(location.id)}
+                isOwner={isOwner(location.id)}
+                onToggleFollow={handleToggleFollow}
               />
             ))}
           </div>
@@ -5,29 +5,45 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { RefreshCw, Thermometer, Droplets, Flame, Wind, Eye } from "lucide-react";
-
-interface SensorData {
-  field1: number; // Temperature
-  field2: number; // Humidity
-  field3: string; // Flame (returns "FLAME" or "NO FLAME")
-  field4: number; // Gas
-  field5: string; // PIR (returns "0" for detected, "1" for none)
-  created_at: string;
-}
+import { formatDistanceToNow } from "date-fns";
+import { formatSensorValue, SENSOR_LABELS, SENSOR_UNITS, type SensorKey, type SensorReading } from "@/lib/sensors";
+import { hasSensorFaults } from "@/lib/sensor-faults";
+import { LOCATION_STATUS_LABELS, type LocationStatus } from "@/lib/location-status";
+import { DeviceHealthBadge } from "@/components/DeviceHealthBadge";
+import { useAlertSettings } from "@/hooks/use-alert-settings";
 
 interface Location {
   id: string;
   name: string;
   region: string;
-  thingspeak_channel_id: string;
-  thingspeak_read_key: string;
+  status: LocationStatus;
+  thingspeak_channel_id: string | null;
+}
+
+const STATUS_VARIANTS: Record<LocationStatus, "secondary" | "default" | "destructive" | "outline"> = {
+  normal: "secondary",
+  warning: "default",
+  alert: "destructive",
+  offline: "outline",
+};
+
+interface EvaluationRun {
+  started_at: string;
+  status: string;
+  locations_evaluated: number;
 }
 
 const LocationsStatus = () => {
   const { toast } = useToast();
   const [locations, setLocations] = useState<Location[]>([]);
-  const [sensorData, setSensorData] = useState<{ [key: string]: SensorData }>({});
+  const [sensorData, setSensorData] = useState<{ [key: string]: SensorReading }>({});
   const [loading, setLoading] = useState(false);
+  const [lastRun, setLastRun] = useState<EvaluationRun | null>(null);
+  const getAlertSettings = useAlertSettings();
+
+  useEffect(() => {
+    fetchLastRun();
+  }, []);
 
   useEffect(() => {
     fetchLocations();
@@ -35,8 +51,8 @@ const LocationsStatus = () => {
     // Set up automatic refresh every 30 seconds
     const interval = setInterval(() => {
       locations.forEach(location => {
-        if (location.thingspeak_channel_id && location.thingspeak_read_key) {
-          fetchSensorData(location.id, location.name, location.thingspeak_channel_id, location.thingspeak_read_key);
+        if (location.thingspeak_channel_id) {
+          fetchSensorData(location);
         }
       });
     }, 30000);
@@ -53,12 +69,15 @@ const LocationsStatus = () => {
         },
         (payload) => {
           console.log('Location status change detected:', payload);
-          // Refresh sensor data for the changed location
           const updatedLocation = payload.new as Location | null;
           if (updatedLocation?.id) {
+            setLocations(prev => prev.map(loc =>
+              loc.id === updatedLocation.id ? { ...loc, status: updatedLocation.status } : loc
+            ));
+            // Refresh sensor data for the changed location
             const location = locations.find(loc => loc.id === updatedLocation.id);
-            if (location && location.thingspeak_channel_id && location.thingspeak_read_key) {
-              fetchSensorData(location.id, location.name, location.thingspeak_channel_id, location.thingspeak_read_key);
+            if (location && location.thingspeak_channel_id) {
+              fetchSensorData(location);
             }
           }
         }
@@ -79,12 +98,13 @@ const LocationsStatus = () => {
         .order("name");
 
       if (error) throw error;
-      setLocations(data || []);
+      const fetched = (data || []) as Location[];
+      setLocations(fetched);
 
       // Fetch sensor data for all locations
-      data?.forEach(location => {
-        if (location.thingspeak_channel_id && location.thingspeak_read_key) {
-          fetchSensorData(location.id, location.name, location.thingspeak_channel_id, location.thingspeak_read_key);
+      fetched.forEach(location => {
+        if (location.thingspeak_channel_id) {
+          fetchSensorData(location);
         }
       });
     } catch (error) {
@@ -96,17 +116,25 @@ const LocationsStatus = () => {
     }
   };
 
-  const fetchSensorData = async (locationId: string, name: string, channelId: string, readKey: string) => {
+  // Latest server-side evaluation sweep (only visible to authority users)
+  const fetchLastRun = async () => {
+    const { data } = await supabase
+      .from("alert_evaluation_runs")
+      .select("started_at, status, locations_evaluated")
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    setLastRun(data);
+  };
+
+  const fetchSensorData = async (location: Location) => {
     setLoading(true);
     try {
       const { data, error } = await supabase.functions.invoke('thingspeak-service', {
         body: {
           action: 'latest',
-          location: {
-            name,
-            thingspeak_channel_id: channelId,
-            thingspeak_read_key: readKey,
-          }
+          locationId: location.id,
         }
       });
 
@@ -115,49 +143,20 @@ const LocationsStatus = () => {
       if (data.success && data.data) {
         setSensorData(prev => ({
           ...prev,
-          [locationId]: {
-            field1: data.data.temperature || 0,
-            field2: data.data.humidity || 0,
-            field3: data.data.flame || 0,
-            field4: data.data.gas || 0,
-            field5: data.data.pir || 0,
-            created_at: data.data.timestamp,
-          }
+          [location.id]: data.data,
         }));
-
-        // Automatically evaluate sensor data for alerts
-        evaluateAlerts(locationId);
       }
     } catch (error) {
-      console.error(`Error fetching sensor data for ${locationId}:`, error);
+      console.error(`Error fetching sensor data for ${location.id}:`, error);
     } finally {
       setLoading(false);
     }
   };
 
-  const evaluateAlerts = async (locationId: string) => {
-    try {
-      const { data, error } = await supabase.functions.invoke('alert-manager', {
-        body: {
-          action: 'evaluate',
-          locationId: locationId
-        }
-      });
-
-      if (error) {
-        console.error('Error evaluating alerts:', error);
-        return;
-      }
-      // Alert Created toast removed - GlobalAlertListener handles fire detection popups
-    } catch (error) {
-      console.error('Error calling alert-manager:', error);
-    }
-  };
-
   const refreshAll = () => {
     locations.forEach(location => {
-      if (location.thingspeak_channel_id && location.thingspeak_read_key) {
-        fetchSensorData(location.id, location.name, location.thingspeak_channel_id, location.thingspeak_read_key);
+      if (location.thingspeak_channel_id) {
+        fetchSensorData(location);
       }
     });
   };
@@ -168,6 +167,12 @@ const LocationsStatus = () => {
         <div>
           <h1 className="text-3xl font-bold">Locations Status</h1>
           <p className="text-muted-foreground">Real-time sensor data from all monitoring locations</p>
+          {lastRun && (
+            <p className="text-xs text-muted-foreground mt-1">
+              Last server check: {formatDistanceToNow(new Date(lastRun.started_at), { addSuffix: true })}
+              {" "}({lastRun.locations_evaluated} locations, {lastRun.status})
+            </p>
+          )}
         </div>
         <Button onClick={refreshAll} disabled={loading}>
           <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
@@ -187,7 +192,23 @@ const LocationsStatus = () => {
                     <CardTitle>{location.name}</CardTitle>
                     <p className="text-sm text-muted-foreground">{location.region}</p>
                   </div>
-                  <Badge variant="outline">Channel: {location.thingspeak_channel_id}</Badge>
+                  <div className="flex items-center gap-2">
+                    {location.thingspeak_channel_id && (
+                      <DeviceHealthBadge
+                        lastReadingAt={data?.timestamp}
+                        reportingIntervalSeconds={getAlertSettings(location.id).reportingIntervalSeconds}
+                      />
+                    )}
+                    {data?.faults && hasSensorFaults(data.faults) && (
+                      <Badge variant="outline" className="text-muted-foreground">
+                        Faulty: {Object.keys(data.faults).map((sensor) => SENSOR_LABELS[sensor as SensorKey]).join(", ")}
+                      </Badge>
+                    )}
+                    <Badge variant={STATUS_VARIANTS[location.status] ?? "outline"}>
+                      {LOCATION_STATUS_LABELS[location.status] ?? location.status}
+                    </Badge>
+                    <Badge variant="outline">Channel: {location.thingspeak_channel_id}</Badge>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -199,7 +220,7 @@ const LocationsStatus = () => {
                           <Thermometer className="h-5 w-5 text-primary" />
                           <span className="font-medium">Temperature</span>
                         </div>
-                        <p className="text-2xl font-bold">{data.field1}°C</p>
+                        <p className="text-2xl font-bold">{formatSensorValue(data.temperature)}{SENSOR_UNITS.temperature}</p>
                       </CardContent>
                     </Card>
 
@@ -209,25 +230,25 @@ const LocationsStatus = () => {
                           <Droplets className="h-5 w-5 text-primary" />
                           <span className="font-medium">Humidity</span>
                         </div>
-                        <p className="text-2xl font-bold">{data.field2}%</p>
+                        <p className="text-2xl font-bold">{formatSensorValue(data.humidity)}{SENSOR_UNITS.humidity}</p>
                       </CardContent>
                     </Card>
 
-                    <Card className={`border-primary/20 ${data.field3 === "FLAME" ? "bg-red-100 border-red-500" : ""}`}>
+                    <Card className={`border-primary/20 ${data.flameDetected ? "bg-red-100 border-red-500" : ""}`}>
                     <CardContent className="pt-6">
                         <div className="flex items-center gap-2 mb-2">
-                          <Flame className={`h-5 w-5 ${data.field3 === "FLAME" ? "text-red-600" : "text-destructive"}`} />
+                          <Flame className={`h-5 w-5 ${data.flameDetected ? "text-red-600" : "text-destructive"}`} />
                           <span className="font-medium">Flame</span>
                           
-                          {data.field3 === "FLAME" && (
+                          {data.flameDetected && (
                             <Badge variant="destructive" className="ml-auto animate-pulse">
                               🚨 Flame Detected
                             </Badge>
                           )}
                         </div>
 
-                        <p className={`text-2xl font-bold ${data.field3 === "FLAME" ? "text-red-700" : ""}`}>
-                          {data.field3 === "FLAME" ? "Detected" : "None"}
+                        <p className={`text-2xl font-bold ${data.flameDetected ? "text-red-700" : ""}`}>
+                          {data.flameDetected ? "Detected" : "None"}
                         </p>
                       </CardContent>
                     </Card>
@@ -239,24 +260,24 @@ const LocationsStatus = () => {
                           <Wind className="h-5 w-5 text-status-warning" />
                           <span className="font-medium">Gas</span>
                         </div>
-                        <p className="text-2xl font-bold">{data.field4}</p>
+                        <p className="text-2xl font-bold">{formatSensorValue(data.gas, 0)} {SENSOR_UNITS.gas}</p>
                       </CardContent>
                     </Card>
 
-                    <Card className={`border-primary/20 ${data.field5 === "0" ? "bg-blue-100 border-blue-500" : ""}`}>
+                    <Card className={`border-primary/20 ${data.motionDetected ? "bg-blue-100 border-blue-500" : ""}`}>
                       <CardContent className="pt-6">
                         <div className="flex items-center gap-2 mb-2">
-                          <Eye className={`h-5 w-5 ${data.field5 === "0" ? "text-blue-600" : "text-primary"}`} />
+                          <Eye className={`h-5 w-5 ${data.motionDetected ? "text-blue-600" : "text-primary"}`} />
                           <span className="font-medium">PIR Motion</span>
                           
-                          {data.field5 === "0" && (
+                          {data.motionDetected && (
                             <Badge variant="default" className="ml-auto animate-pulse bg-blue-600">
                               👁️ Motion Detected
                             </Badge>
                           )}
                         </div>
-                        <p className={`text-2xl font-bold ${data.field5 === "0" ? "text-blue-700" : ""}`}>
-                          {data.field5 === "0" ? "Detected" : "None"}
+                        <p className={`text-2xl font-bold ${data.motionDetected ? "text-blue-700" : ""}`}>
+                          {data.motionDetected ? "Detected" : "None"}
                         </p>
                       </CardContent>
                     </Card>
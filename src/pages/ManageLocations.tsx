@@ -6,8 +6,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Plus, Trash2, Navigation } from "lucide-react";
+import { ThresholdsDialog } from "@/components/ThresholdsDialog";
+import { FieldMapDialog } from "@/components/FieldMapDialog";
+import { FieldMapEditor } from "@/components/FieldMapEditor";
+import { DeviceHealthBadge } from "@/components/DeviceHealthBadge";
+import { useAlertSettings } from "@/hooks/use-alert-settings";
+import { DEFAULT_FIELD_MAP, type FieldMap } from "@/lib/sensors";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Location {
   id: string;
@@ -16,13 +24,16 @@ interface Location {
   latitude: number;
   longitude: number;
   thingspeak_channel_id: string;
-  thingspeak_read_key: string;
+  field_map: Json | null;
 }
 
 const ManageLocations = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { userId, isStaff, isLoading: isRoleLoading } = useRole();
   const [locations, setLocations] = useState<Location[]>([]);
+  const [lastReadings, setLastReadings] = useState<Record<string, string | null>>({});
+  const getAlertSettings = useAlertSettings();
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [gettingLocation, setGettingLocation] = useState(false);
@@ -34,26 +45,18 @@ const ManageLocations = () => {
     thingspeak_channel_id: "",
     thingspeak_read_key: "",
   });
+  const [fieldMap, setFieldMap] = useState<FieldMap>(DEFAULT_FIELD_MAP);
 
   useEffect(() => {
-    checkAuthority();
     fetchLocations();
   }, []);
 
-  const checkAuthority = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) {
-      navigate("/auth");
-      return;
-    }
-
-    const { data: profile } = await supabase
-      .from("profiles")
-      .select("user_type")
-      .eq("user_id", user.id)
-      .single();
+  useEffect(() => {
+    if (isRoleLoading) return;
 
-    if (profile?.user_type !== "authority") {
+    if (!userId) {
+      navigate("/auth");
+    } else if (!isStaff) {
       toast({
         title: "Access Denied",
         description: "Only fire authorities can manage locations.",
@@ -61,7 +64,7 @@ const ManageLocations = () => {
       });
       navigate("/dashboard");
     }
-  };
+  }, [isRoleLoading, userId, isStaff]);
 
   const fetchLocations = async () => {
     try {
@@ -72,6 +75,13 @@ const ManageLocations = () => {
 
       if (error) throw error;
       setLocations(data || []);
+
+      // When alert-manager last saw a ThingSpeak entry from each board
+      const { data: states } = await supabase
+        .from("location_alert_state")
+        .select("location_id, last_reading_at");
+
+      setLastReadings(Object.fromEntries((states || []).map((state) => [state.location_id, state.last_reading_at])));
     } catch (error) {
       toast({
         title: "Error fetching locations",
@@ -87,20 +97,30 @@ const ManageLocations = () => {
     e.preventDefault();
 
     try {
-      const { error } = await supabase.from("locations").insert([
-        {
+      const { data: location, error } = await supabase
+        .from("locations")
+        .insert({
           name: formData.name,
           region: formData.region,
           latitude: parseFloat(formData.latitude),
           longitude: parseFloat(formData.longitude),
           thingspeak_channel_id: formData.thingspeak_channel_id,
-          thingspeak_read_key: formData.thingspeak_read_key,
+          field_map: fieldMap,
           status: "normal",
-        },
-      ]);
+        })
+        .select("id")
+        .single();
 
       if (error) throw error;
 
+      // The read key is write-only; it is stored where only the server can read it
+      const { error: keyError } = await supabase.rpc("set_location_read_key", {
+        _location_id: location.id,
+        _read_key: formData.thingspeak_read_key,
+      });
+
+      if (keyError) throw keyError;
+
       toast({
         title: "Location Added",
         description: "New monitoring location has been added successfully.",
@@ -115,6 +135,7 @@ const ManageLocations = () => {
         thingspeak_channel_id: "",
         thingspeak_read_key: "",
       });
+      setFieldMap(DEFAULT_FIELD_MAP);
       fetchLocations();
     } catch (error) {
       toast({
@@ -198,7 +219,7 @@ const ManageLocations = () => {
               Add Location
             </Button>
           </DialogTrigger>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>Add New Location</DialogTitle>
             </DialogHeader>
@@ -291,6 +312,14 @@ const ManageLocations = () => {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label>Sensor Wiring</Label>
+                <p className="text-xs text-muted-foreground">
+                  Which ThingSpeak field carries each sensor on this board.
+                </p>
+                <FieldMapEditor value={fieldMap} onChange={setFieldMap} />
+              </div>
+
               <Button type="submit" className="w-full">Add Location</Button>
             </form>
           </DialogContent>
@@ -319,13 +348,22 @@ const ManageLocations = () => {
                     <CardTitle>{location.name}</CardTitle>
                     <p className="text-sm text-muted-foreground">{location.region}</p>
                   </div>
-                  <Button
-                    variant="destructive"
-                    size="icon"
-                    onClick={() => handleDelete(location.id)}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  <div className="flex gap-2">
+                    <FieldMapDialog
+                      locationId={location.id}
+                      locationName={location.name}
+                      fieldMap={location.field_map}
+                      onSaved={fetchLocations}
+                    />
+                    <ThresholdsDialog locationId={location.id} locationName={location.name} />
+                    <Button
+                      variant="destructive"
+                      size="icon"
+                      onClick={() => handleDelete(location.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
                 </div>
               </CardHeader>
               <CardContent>
@@ -338,6 +376,13 @@ const ManageLocations = () => {
                     <span className="text-muted-foreground">Channel ID:</span>
                     <span className="font-mono">{location.thingspeak_channel_id}</span>
                   </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-muted-foreground">Device:</span>
+                    <DeviceHealthBadge
+                      lastReadingAt={lastReadings[location.id]}
+                      reportingIntervalSeconds={getAlertSettings(location.id).reportingIntervalSeconds}
+                    />
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { APP_ROLES, ROLE_LABELS, highestRole, type AppRole } from "@/lib/roles";
+import { Loader2 } from "lucide-react";
+
+interface UserWithRole {
+  user_id: string;
+  full_name: string | null;
+  badge_number: string | null;
+  department: string | null;
+  fire_station: string | null;
+  role: AppRole;
+}
+
+const ManageRoles = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { userId, isAdmin, isLoading: isRoleLoading } = useRole();
+  const [users, setUsers] = useState<UserWithRole[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+
+  useEffect(() => {
+    if (isRoleLoading) return;
+
+    if (!isAdmin) {
+      toast({
+        title: "Access Denied",
+        description: "Only administrators can manage roles.",
+        variant: "destructive",
+      });
+      navigate("/dashboard");
+      return;
+    }
+
+    fetchUsers();
+  }, [isRoleLoading, isAdmin]);
+
+  const fetchUsers = async () => {
+    try {
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("user_id, full_name, badge_number, department, fire_station")
+        .order("full_name");
+
+      if (profilesError) throw profilesError;
+
+      const { data: roles, error: rolesError } = await supabase
+        .from("user_roles")
+        .select("user_id, role");
+
+      if (rolesError) throw rolesError;
+
+      setUsers((profiles || []).map((profile) => ({
+        ...profile,
+        role: highestRole((roles || []).filter((row) => row.user_id === profile.user_id).map((row) => row.role)),
+      })));
+    } catch (error) {
+      toast({
+        title: "Error fetching users",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (user: UserWithRole, role: AppRole) => {
+    setSavingUserId(user.user_id);
+    try {
+      // A user holds exactly one role; revoke the others before granting it
+      const { error: deleteError } = await supabase
+        .from("user_roles")
+        .delete()
+        .eq("user_id", user.user_id)
+        .neq("role", role);
+
+      if (deleteError) throw deleteError;
+
+      const { error: insertError } = await supabase
+        .from("user_roles")
+        .upsert({ user_id: user.user_id, role }, { onConflict: "user_id,role" });
+
+      if (insertError) throw insertError;
+
+      toast({
+        title: "Role Updated",
+        description: `${user.full_name || "User"} is now ${ROLE_LABELS[role]}.`,
+      });
+      setUsers(users.map((u) => (u.user_id === user.user_id ? { ...u, role } : u)));
+    } catch (error) {
+      toast({
+        title: "Error updating role",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  const filteredUsers = users.filter((user) =>
+    [user.full_name, user.badge_number, user.fire_station]
+      .some((value) => value?.toLowerCase().includes(search.toLowerCase()))
+    || search === ""
+  );
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Manage Roles</h1>
+        <p className="text-muted-foreground mt-1">
+          Grant and revoke fire authority roles
+        </p>
+      </div>
+
+      <Input
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder="Search by name, badge or station"
+        className="max-w-sm"
+      />
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Badge</TableHead>
+                <TableHead>Station / Department</TableHead>
+                <TableHead className="w-56">Role</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredUsers.map((user) => (
+                <TableRow key={user.user_id}>
+                  <TableCell className="font-medium">{user.full_name || "Unnamed user"}</TableCell>
+                  <TableCell>{user.badge_number || "—"}</TableCell>
+                  <TableCell>{[user.fire_station, user.department].filter(Boolean).join(" / ") || "—"}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={user.role}
+                      onValueChange={(role) => handleRoleChange(user, role as AppRole)}
+                      // Admins cannot demote themselves and lock everyone out
+                      disabled={savingUserId === user.user_id || user.user_id === userId}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {APP_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ManageRoles;
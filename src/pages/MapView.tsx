@@ -6,6 +6,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ArrowLeft, MapPin, Navigation } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { distanceKm, nearestStation as findNearestStation } from "@/lib/stations";
+import { LOCATION_STATUS_LABELS, type LocationStatus } from "@/lib/location-status";
 import mapboxgl from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
 
@@ -13,17 +15,21 @@ interface Location {
   id: string;
   name: string;
   region: string;
-  status: "normal" | "warning" | "alert";
+  status: LocationStatus;
   latitude: number;
   longitude: number;
 }
 
 interface FireStation {
   id: string;
-  fire_station: string;
-  fire_station_latitude: number;
-  fire_station_longitude: number;
-  authority_name: string;
+  name: string;
+  address: string | null;
+  phone: string | null;
+  latitude: number;
+  longitude: number;
+  total_units: number;
+  available_units: number;
+  coverage_radius_km: number | null;
 }
 
 const MAPTILER_KEY = "2k9xSo6D3dn6XRfFnFxJ";
@@ -45,6 +51,29 @@ const MapView = () => {
   useEffect(() => {
     fetchData();
     getUserLocation();
+
+    // Recolour markers as alerts open and close or sensors drop out
+    const channel = supabase
+      .channel('map-location-status')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'locations'
+        },
+        (payload) => {
+          const updated = payload.new as Location;
+          setLocations((current) =>
+            current.map((location) => location.id === updated.id ? { ...location, status: updated.status } : location)
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, []);
 
   const getUserLocation = () => {
@@ -97,6 +126,7 @@ const MapView = () => {
       const color = 
         location.status === "alert" ? "#ef4444" :
         location.status === "warning" ? "#f59e0b" :
+        location.status === "offline" ? "#6b7280" :
         "#22c55e";
 
       const el = document.createElement("div");
@@ -122,7 +152,7 @@ const MapView = () => {
               <div style="padding: 8px;">
                 <h3 style="font-weight: bold; margin-bottom: 4px;">${location.name}</h3>
                 <p style="font-size: 12px; color: #666;">${location.region}</p>
-                <p style="font-size: 12px; margin-top: 4px;">Status: <strong>${location.status}</strong></p>
+                <p style="font-size: 12px; margin-top: 4px;">Status: <strong>${LOCATION_STATUS_LABELS[location.status] ?? location.status}</strong></p>
               </div>
             `)
         )
@@ -142,13 +172,15 @@ const MapView = () => {
       el.style.cursor = "pointer";
 
       new mapboxgl.Marker({ element: el })
-        .setLngLat([station.fire_station_longitude, station.fire_station_latitude])
+        .setLngLat([station.longitude, station.latitude])
         .setPopup(
           new mapboxgl.Popup({ offset: 25 })
             .setHTML(`
               <div style="padding: 8px;">
-                <h3 style="font-weight: bold; margin-bottom: 4px;">🚒 ${station.fire_station}</h3>
-                <p style="font-size: 12px; color: #666;">${station.authority_name}</p>
+                <h3 style="font-weight: bold; margin-bottom: 4px;">🚒 ${station.name}</h3>
+                ${station.address ? `<p style="font-size: 12px; color: #666;">${station.address}</p>` : ""}
+                ${station.phone ? `<p style="font-size: 12px; color: #666;">${station.phone}</p>` : ""}
+                <p style="font-size: 12px; margin-top: 4px;">Units available: <strong>${station.available_units} / ${station.total_units}</strong></p>
               </div>
             `)
         )
@@ -180,7 +212,7 @@ const MapView = () => {
     if (locations.length > 0) {
       const bounds = new mapboxgl.LngLatBounds();
       locations.forEach((loc) => bounds.extend([loc.longitude, loc.latitude]));
-      fireStations.forEach((station) => bounds.extend([station.fire_station_longitude, station.fire_station_latitude]));
+      fireStations.forEach((station) => bounds.extend([station.longitude, station.latitude]));
       if (userLocation) bounds.extend(userLocation);
       map.current.fitBounds(bounds, { padding: 50 });
     }
@@ -201,16 +233,13 @@ const MapView = () => {
       if (locError) throw locError;
       setLocations((locData || []) as Location[]);
 
-      // Fetch fire stations from authority profiles
       const { data: stationData, error: stationError } = await supabase
-        .from("profiles")
-        .select("id, fire_station, fire_station_latitude, fire_station_longitude, authority_name")
-        .eq("user_type", "authority")
-        .not("fire_station_latitude", "is", null)
-        .not("fire_station_longitude", "is", null);
+        .from("fire_stations")
+        .select("id, name, address, phone, latitude, longitude, total_units, available_units, coverage_radius_km")
+        .order("name");
 
       if (stationError) throw stationError;
-      setFireStations((stationData || []) as FireStation[]);
+      setFireStations(stationData || []);
     } catch (error) {
       toast({
         title: "Error fetching data",
@@ -225,7 +254,7 @@ const MapView = () => {
   const calculateNearestStation = (location: Location) => {
     // Calculate distance from user's current location to the fire alert location
     if (userLocation) {
-      const dist = calculateDistance(
+      const dist = distanceKm(
         userLocation[1], // latitude
         userLocation[0], // longitude
         location.latitude,
@@ -238,57 +267,29 @@ const MapView = () => {
         drawRoute(userLocation, [location.longitude, location.latitude]);
       }
     } else {
-      // Fallback: calculate nearest fire station
-      if (fireStations.length === 0) {
+      // Fallback: the station that should respond, preferring ones that
+      // cover the location and have units available
+      const match = findNearestStation(fireStations, location.latitude, location.longitude);
+
+      if (!match) {
         setNearestStation(null);
         setDistance(null);
         return;
       }
 
-      let minDistance = Infinity;
-      let nearest: FireStation | null = null;
-
-      fireStations.forEach((station) => {
-        const dist = calculateDistance(
-          location.latitude,
-          location.longitude,
-          station.fire_station_latitude,
-          station.fire_station_longitude
-        );
-
-        if (dist < minDistance) {
-          minDistance = dist;
-          nearest = station;
-        }
-      });
-
-      setNearestStation(nearest);
-      setDistance(minDistance);
+      setNearestStation(match.station);
+      setDistance(match.distanceKm);
 
       // Draw route on map
-      if (nearest && map.current) {
+      if (map.current) {
         drawRoute(
           [location.longitude, location.latitude],
-          [nearest.fire_station_longitude, nearest.fire_station_latitude]
+          [match.station.longitude, match.station.latitude]
         );
       }
     }
   };
 
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * (Math.PI / 180);
-    const dLon = (lon2 - lon1) * (Math.PI / 180);
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(lat1 * (Math.PI / 180)) *
-        Math.cos(lat2 * (Math.PI / 180)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
-
   const drawRoute = (start: [number, number], end: [number, number]) => {
     if (!map.current) return;
 
@@ -427,6 +428,8 @@ const MapView = () => {
         return "bg-status-alert";
       case "warning":
         return "bg-status-warning";
+      case "offline":
+        return "bg-muted-foreground";
       default:
         return "bg-status-normal";
     }
@@ -506,7 +509,7 @@ const MapView = () => {
                           <span className="font-medium text-sm">{location.name}</span>
                         </div>
                         <Badge variant="outline" className="text-xs">
-                          {location.status}
+                          {LOCATION_STATUS_LABELS[location.status] ?? location.status}
                         </Badge>
                       </div>
                       <p className="text-xs text-muted-foreground">{location.region}</p>
@@ -529,7 +532,7 @@ const MapView = () => {
                       variant={selectedLocation.status === "alert" ? "destructive" : "secondary"}
                       className="mt-1"
                     >
-                      {selectedLocation.status}
+                      {LOCATION_STATUS_LABELS[selectedLocation.status] ?? selectedLocation.status}
                     </Badge>
                   </div>
 
@@ -564,9 +567,15 @@ const MapView = () => {
                   ) : !userLocation && distance !== null && nearestStation ? (
                     <>
                       <div className="border-t pt-3">
-                        <span className="text-sm text-muted-foreground">Nearest Fire Station</span>
+                        <span className="text-sm text-muted-foreground">Responding Fire Station</span>
                         <p className="font-medium flex items-center gap-2">
-                          🚒 {nearestStation.fire_station}
+                          🚒 {nearestStation.name}
+                        </p>
+                        {nearestStation.phone && (
+                          <p className="text-xs text-muted-foreground mt-1">{nearestStation.phone}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Units available: {nearestStation.available_units} / {nearestStation.total_units}
                         </p>
                       </div>
 
@@ -581,7 +590,7 @@ const MapView = () => {
                       <Button 
                         className="w-full" 
                         onClick={() => {
-                          const url = `https://www.google.com/maps/dir/?api=1&origin=${nearestStation.fire_station_latitude},${nearestStation.fire_station_longitude}&destination=${selectedLocation.latitude},${selectedLocation.longitude}`;
+                          const url = `https://www.google.com/maps/dir/?api=1&origin=${nearestStation.latitude},${nearestStation.longitude}&destination=${selectedLocation.latitude},${selectedLocation.longitude}`;
                           window.open(url, "_blank");
                         }}
                       >
@@ -3,8 +3,12 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { MapPin, User, Calendar, FileText, Check, X, Loader2 } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
 
 interface LocationRequest {
   id: string;
@@ -14,6 +18,7 @@ interface LocationRequest {
   longitude: number;
   thingspeak_channel_id: string;
   thingspeak_read_key: string;
+  field_map: Json | null;
   reason: string | null;
   status: string | null;
   created_at: string;
@@ -25,6 +30,8 @@ const PendingLocationRequests = () => {
   const [requests, setRequests] = useState<LocationRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [processingId, setProcessingId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<LocationRequest | null>(null);
+  const [rejectionReason, setRejectionReason] = useState("");
   const { toast } = useToast();
 
   useEffect(() => {
@@ -53,85 +60,33 @@ const PendingLocationRequests = () => {
     }
   };
 
-  const handleApprove = async (request: LocationRequest) => {
+  const reviewRequest = async (request: LocationRequest, approve: boolean, reason?: string) => {
     setProcessingId(request.id);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      // Create the location
-      const { error: locationError } = await supabase
-        .from("locations")
-        .insert({
-          name: request.location_name,
-          region: request.region,
-          latitude: request.latitude,
-          longitude: request.longitude,
-          thingspeak_channel_id: request.thingspeak_channel_id,
-          thingspeak_read_key: request.thingspeak_read_key,
-          status: "normal",
-        });
-
-      if (locationError) throw locationError;
-
-      // Update request status
-      const { error: updateError } = await supabase
-        .from("location_requests")
-        .update({
-          status: "approved",
-          reviewed_by: user.id,
-          reviewed_at: new Date().toISOString(),
-        })
-        .eq("id", request.id);
-
-      if (updateError) throw updateError;
-
-      toast({
-        title: "Success",
-        description: `Location "${request.location_name}" has been approved and added`,
+      // Creates the location, its credentials and the requester's ownership in one transaction
+      const { error } = await supabase.rpc("review_location_request", {
+        _request_id: request.id,
+        _approve: approve,
+        _reason: reason,
       });
 
-      fetchPendingRequests();
-    } catch (error) {
-      console.error("Error approving request:", error);
-      toast({
-        title: "Error",
-        description: "Failed to approve request",
-        variant: "destructive",
-      });
-    } finally {
-      setProcessingId(null);
-    }
-  };
-
-  const handleReject = async (request: LocationRequest) => {
-    setProcessingId(request.id);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) throw new Error("Not authenticated");
-
-      const { error } = await supabase
-        .from("location_requests")
-        .update({
-          status: "rejected",
-          reviewed_by: user.id,
-          reviewed_at: new Date().toISOString(),
-        })
-        .eq("id", request.id);
-
       if (error) throw error;
 
       toast({
-        title: "Request Rejected",
-        description: `Location request for "${request.location_name}" has been rejected`,
+        title: approve ? "Success" : "Request Rejected",
+        description: approve
+          ? `Location "${request.location_name}" has been approved and added`
+          : "The requester has been notified of the reason",
       });
 
+      setRejecting(null);
+      setRejectionReason("");
       fetchPendingRequests();
     } catch (error) {
-      console.error("Error rejecting request:", error);
+      console.error("Error reviewing request:", error);
       toast({
-        title: "Error",
-        description: "Failed to reject request",
+        title: approve ? "Failed to approve request" : "Failed to reject request",
+        description: error instanceof Error ? error.message : "Unknown error",
         variant: "destructive",
       });
     } finally {
@@ -223,7 +178,7 @@ const PendingLocationRequests = () => {
               <CardFooter className="gap-2">
                 <Button
                   className="flex-1"
-                  onClick={() => handleApprove(request)}
+                  onClick={() => reviewRequest(request, true)}
                   disabled={processingId === request.id}
                 >
                   {processingId === request.id ? (
@@ -238,23 +193,46 @@ const PendingLocationRequests = () => {
                 <Button
                   variant="destructive"
                   className="flex-1"
-                  onClick={() => handleReject(request)}
+                  onClick={() => setRejecting(request)}
                   disabled={processingId === request.id}
                 >
-                  {processingId === request.id ? (
-                    <Loader2 className="h-4 w-4 animate-spin" />
-                  ) : (
-                    <>
-                      <X className="h-4 w-4 mr-2" />
-                      Reject
-                    </>
-                  )}
+                  <X className="h-4 w-4 mr-2" />
+                  Reject
                 </Button>
               </CardFooter>
             </Card>
           ))}
         </div>
       )}
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject Location Request</DialogTitle>
+            <DialogDescription>
+              The requester will see this reason next to "{rejecting?.location_name}".
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejection-reason">Reason</Label>
+            <Textarea
+              id="rejection-reason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="The ThingSpeak channel returned no readings"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant="destructive"
+              onClick={() => rejecting && reviewRequest(rejecting, false, rejectionReason)}
+              disabled={!rejectionReason.trim() || processingId === rejecting?.id}
+            >
+              Reject Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -7,7 +7,11 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
+import { useRole } from "@/hooks/use-role";
+import { ROLE_LABELS } from "@/lib/roles";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { NotificationPreferencesCard } from "@/components/NotificationPreferencesCard";
+import { NotificationDeliveries } from "@/components/NotificationDeliveries";
 import { User, Shield, Building2, MapPin } from "lucide-react";
 
 interface Profile {
@@ -26,9 +30,11 @@ interface Profile {
 const Profile = () => {
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { userId, role, isStaff, isPendingAuthority } = useRole();
   const [profile, setProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const [assignedStation, setAssignedStation] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     full_name: "",
     phone: "",
@@ -69,6 +75,14 @@ const Profile = () => {
         badge_number: data.badge_number || "",
         department: data.department || "",
       });
+
+      const { data: membership } = await supabase
+        .from("fire_station_members")
+        .select("fire_stations(name)")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      setAssignedStation(membership?.fire_stations?.name ?? null);
     } catch (error) {
       toast({
         title: "Error fetching profile",
@@ -138,7 +152,7 @@ const Profile = () => {
             </Avatar>
             <h3 className="font-semibold text-lg">{formData.full_name || "User"}</h3>
             <p className="text-sm text-muted-foreground capitalize">
-              {profile?.user_type === "authority" ? "Fire Authority" : "Civilian"}
+              {ROLE_LABELS[role]}
             </p>
           </CardContent>
         </Card>
@@ -181,7 +195,7 @@ const Profile = () => {
                 </div>
               </div>
 
-              {profile?.user_type === "authority" && (
+              {(isStaff || isPendingAuthority) && (
                 <>
                   <div className="border-t pt-4 mt-4">
                     <h3 className="font-semibold flex items-center gap-2 mb-4">
@@ -219,6 +233,18 @@ const Profile = () => {
                         />
                       </div>
 
+                      {isStaff && (
+                        <div className="space-y-2">
+                          <Label htmlFor="assigned_station">Assigned Station</Label>
+                          <Input
+                            id="assigned_station"
+                            value={assignedStation ?? "Not assigned"}
+                            disabled
+                          />
+                          <p className="text-xs text-muted-foreground">Set by your station in-charge</p>
+                        </div>
+                      )}
+
                       <div className="space-y-2">
                         <Label htmlFor="department">Department</Label>
                         <Input
@@ -231,19 +257,21 @@ const Profile = () => {
                     </div>
                   </div>
 
-                  <Button
-                    type="button"
-                    variant="outline"
-                    className="w-full"
-                    onClick={() => navigate("/manage-locations")}
-                  >
-                    <MapPin className="h-4 w-4 mr-2" />
-                    Manage Monitoring Locations
-                  </Button>
+                  {isStaff && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={() => navigate("/manage-locations")}
+                    >
+                      <MapPin className="h-4 w-4 mr-2" />
+                      Manage Monitoring Locations
+                    </Button>
+                  )}
                 </>
               )}
 
-              {profile?.user_type === "normal" && (
+              {!isStaff && (
                 <Button
                   type="button"
                   variant="outline"
@@ -262,6 +290,14 @@ const Profile = () => {
           </CardContent>
         </Card>
       </div>
+
+      {/* Staff hear about alerts they respond to; civilians about the locations they follow */}
+      {userId && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <NotificationPreferencesCard userId={userId} defaultPhone={profile?.phone} />
+          <NotificationDeliveries userId={userId} />
+        </div>
+      )}
     </div>
   );
 };
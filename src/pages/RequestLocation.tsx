@@ -8,7 +8,9 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { MapPin, Clock, CheckCircle, XCircle, Navigation } from "lucide-react";
+import { MapPin, Clock, CheckCircle, XCircle, Navigation, ExternalLink } from "lucide-react";
+import { FieldMapEditor } from "@/components/FieldMapEditor";
+import { DEFAULT_FIELD_MAP, type FieldMap } from "@/lib/sensors";
 
 interface LocationRequest {
   id: string;
@@ -18,6 +20,9 @@ interface LocationRequest {
   reason: string;
   created_at: string;
   reviewed_at: string;
+  /** The location created on approval */
+  location_id: string | null;
+  rejection_reason: string | null;
 }
 
 const RequestLocation = () => {
@@ -36,12 +41,60 @@ const RequestLocation = () => {
     thingspeak_read_key: "",
     reason: "",
   });
+  const [fieldMap, setFieldMap] = useState<FieldMap>(DEFAULT_FIELD_MAP);
 
   useEffect(() => {
     checkAuth();
     fetchRequests();
   }, []);
 
+  // Tell the requester as soon as a request is reviewed
+  useEffect(() => {
+    let channel: ReturnType<typeof supabase.channel> | null = null;
+    let cancelled = false;
+
+    const subscribe = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user || cancelled) return;
+
+      channel = supabase
+        .channel('location-request-reviews')
+        .on(
+          'postgres_changes',
+          {
+            event: 'UPDATE',
+            schema: 'public',
+            table: 'location_requests',
+            filter: `user_id=eq.${user.id}`
+          },
+          (payload) => {
+            const request = payload.new as LocationRequest;
+            if (request.status === "approved") {
+              toast({
+                title: "Location Approved",
+                description: `"${request.location_name}" is now monitored. You will get its alerts.`,
+              });
+            } else if (request.status === "rejected") {
+              toast({
+                title: "Location Request Rejected",
+                description: request.rejection_reason,
+                variant: "destructive",
+              });
+            }
+            fetchRequests();
+          }
+        )
+        .subscribe();
+    };
+
+    subscribe();
+
+    return () => {
+      cancelled = true;
+      if (channel) supabase.removeChannel(channel);
+    };
+  }, []);
+
   const checkAuth = async () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) {
@@ -90,6 +143,7 @@ const RequestLocation = () => {
           longitude: parseFloat(formData.longitude),
           thingspeak_channel_id: formData.thingspeak_channel_id,
           thingspeak_read_key: formData.thingspeak_read_key,
+          field_map: fieldMap,
           reason: formData.reason,
           status: "pending",
         },
@@ -111,6 +165,7 @@ const RequestLocation = () => {
         thingspeak_read_key: "",
         reason: "",
       });
+      setFieldMap(DEFAULT_FIELD_MAP);
 
       fetchRequests();
     } catch (error) {
@@ -287,6 +342,14 @@ const RequestLocation = () => {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label>Sensor Wiring</Label>
+                <p className="text-xs text-muted-foreground">
+                  Which ThingSpeak field carries each sensor. Leave the defaults if your board uses the standard layout.
+                </p>
+                <FieldMapEditor value={fieldMap} onChange={setFieldMap} />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="reason">Reason for Request</Label>
                 <Textarea
@@ -340,6 +403,12 @@ const RequestLocation = () => {
                       <p className="text-sm text-muted-foreground">{request.reason}</p>
                     </div>
                   )}
+                  {request.status === "rejected" && request.rejection_reason && (
+                    <div className="mb-2 rounded-lg bg-destructive/10 p-3">
+                      <p className="text-sm font-medium text-destructive">Rejected because:</p>
+                      <p className="text-sm">{request.rejection_reason}</p>
+                    </div>
+                  )}
                   <p className="text-xs text-muted-foreground">
                     Submitted: {new Date(request.created_at).toLocaleDateString()}
                   </p>
@@ -348,6 +417,17 @@ const RequestLocation = () => {
                       Reviewed: {new Date(request.reviewed_at).toLocaleDateString()}
                     </p>
                   )}
+                  {request.status === "approved" && request.location_id && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-3"
+                      onClick={() => navigate(`/location/${request.location_id}`)}
+                    >
+                      <ExternalLink className="h-4 w-4 mr-2" />
+                      View Location
+                    </Button>
+                  )}
                 </CardContent>
               </Card>
             ))
@@ -5,6 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { CheckCircle } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { formatSensorValue, normalizeReading, SENSOR_UNITS, type SensorReading } from "@/lib/sensors";
 
 interface SolvedCase {
   id: string;
@@ -16,7 +17,7 @@ interface SolvedCase {
   status: string;
   notes: string;
   locations: { name: string; region: string };
-  sensor_values: any;
+  reading: SensorReading | null;
 }
 
 const SolvedCases = () => {
@@ -38,7 +39,12 @@ const SolvedCases = () => {
 
       if (error) throw error;
 
-      setSolvedCases((data || []) as SolvedCase[]);
+      setSolvedCases(
+        (data || []).map((alert) => ({
+          ...alert,
+          reading: normalizeReading(alert.sensor_values),
+        })) as unknown as SolvedCase[]
+      );
     } catch (error) {
       toast({
         title: "Error fetching solved cases",
@@ -155,29 +161,29 @@ const SolvedCases = () => {
                     </p>
                   </div>
 
-                  {caseItem.sensor_values && (
+                  {caseItem.reading && (
                     <div className="md:col-span-2">
                       <p className="text-sm font-medium mb-2">Sensor Values at Time of Alert</p>
                       <div className="grid gap-2 md:grid-cols-5 text-sm">
                         <div className="p-2 bg-muted/30 rounded">
                           <p className="text-xs text-muted-foreground">Temperature</p>
-                          <p className="font-medium">{caseItem.sensor_values.temperature}°C</p>
+                          <p className="font-medium">{formatSensorValue(caseItem.reading.temperature)}{SENSOR_UNITS.temperature}</p>
                         </div>
                         <div className="p-2 bg-muted/30 rounded">
                           <p className="text-xs text-muted-foreground">Humidity</p>
-                          <p className="font-medium">{caseItem.sensor_values.humidity}%</p>
+                          <p className="font-medium">{formatSensorValue(caseItem.reading.humidity)}{SENSOR_UNITS.humidity}</p>
                         </div>
                         <div className="p-2 bg-muted/30 rounded">
                           <p className="text-xs text-muted-foreground">Flame</p>
-                          <p className="font-medium">{caseItem.sensor_values.flame ? "Detected" : "None"}</p>
+                          <p className="font-medium">{caseItem.reading.flameDetected ? "Detected" : "None"}</p>
                         </div>
                         <div className="p-2 bg-muted/30 rounded">
                           <p className="text-xs text-muted-foreground">Gas</p>
-                          <p className="font-medium">{caseItem.sensor_values.gas}</p>
+                          <p className="font-medium">{formatSensorValue(caseItem.reading.gas, 0)} {SENSOR_UNITS.gas}</p>
                         </div>
                         <div className="p-2 bg-muted/30 rounded">
                           <p className="text-xs text-muted-foreground">PIR</p>
-                          <p className="font-medium">{caseItem.sensor_values.pir ? "Motion" : "None"}</p>
+                          <p className="font-medium">{caseItem.reading.motionDetected ? "Motion" : "None"}</p>
                         </div>
                       </div>
                     </div>
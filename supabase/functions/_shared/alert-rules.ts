@@ -0,0 +1,285 @@
+/**
+ * Alert Rules
+ *
+ * Declarative multi-sensor rules that run alongside the fixed thresholds of
+ * _shared/severity.ts. A rule fires when all of its conditions hold for
+ * sustainReadings readings in a row, for example:
+ * - gas above 400 ppm and humidity below 30 % for 2 readings
+ * - flame and motion detected: a life-safety alert, since people are inside
+ *
+ * Rules are stored in alert_rules; rows with a NULL location_id apply to
+ * every location. alert-manager checks the enabled ones against the latest
+ * reading and the readings stored before it, and the rule editor dry-runs a
+ * rule against stored history with the same code.
+ *
+ * Readings only count as consecutive while the board kept posting: a gap of
+ * more than STALE_AFTER_INTERVALS reporting intervals (an outage, a pause in
+ * ingest) starts the sustain window over.
+ */
+
+import {
+  DIGITAL_SENSORS,
+  NUMERIC_SENSORS,
+  SENSOR_LABELS,
+  SENSOR_UNITS,
+  type DigitalSensor,
+  type NumericSensor,
+  type SensorKey,
+  type SensorReading,
+} from './sensors.ts';
+import {
+  maxAlertType,
+  maxSeverity,
+  SEVERITY_LEVELS,
+  type Classification,
+  type SensorAlertType,
+  type Severity,
+} from './severity.ts';
+import { STALE_AFTER_INTERVALS } from './device-health.ts';
+
+export type RuleOperator = 'above' | 'below' | 'detected' | 'not_detected';
+
+/** Operators that compare a numeric sensor with a value */
+export const NUMERIC_OPERATORS: RuleOperator[] = ['above', 'below'];
+
+/** Operators that check a digital sensor */
+export const DIGITAL_OPERATORS: RuleOperator[] = ['detected', 'not_detected'];
+
+export const RULE_OPERATOR_LABELS: Record<RuleOperator, string> = {
+  above: 'above',
+  below: 'below',
+  detected: 'detected',
+  not_detected: 'not detected',
+};
+
+export const RULE_SENSORS: SensorKey[] = [...NUMERIC_SENSORS, ...DIGITAL_SENSORS];
+
+export type RuleCondition = {
+  sensor: SensorKey;
+  operator: RuleOperator;
+  /** Numeric operators only */
+  value?: number;
+};
+
+export const RULE_ALERT_TYPES: SensorAlertType[] = ['fire', 'gas_leak', 'temperature', 'life_safety'];
+
+export const RULE_ALERT_TYPE_LABELS: Record<SensorAlertType, string> = {
+  fire: 'Fire',
+  gas_leak: 'Gas leak',
+  temperature: 'Temperature',
+  life_safety: 'Life safety',
+};
+
+export interface AlertRule {
+  id: string;
+  /** Null for rules that apply to every location */
+  locationId: string | null;
+  name: string;
+  enabled: boolean;
+  conditions: RuleCondition[];
+  sustainReadings: number;
+  alertType: SensorAlertType;
+  severity: Severity;
+}
+
+/** Row shape of the alert_rules table */
+export interface AlertRuleRow {
+  id: string;
+  location_id: string | null;
+  name: string;
+  enabled: boolean;
+  conditions: unknown;
+  sustain_readings: number;
+  alert_type: string;
+  severity: string;
+}
+
+export interface RuleDryRun {
+  /** Readings the rule was checked against */
+  readings: number;
+  /** Readings at which every condition held */
+  matching: number;
+  /** Timestamps of the readings at which the rule would have raised an alert */
+  firings: string[];
+}
+
+/**
+ * Longest gap between two readings that still lets them count as consecutive.
+ *
+ * @param reportingIntervalSeconds - How often the board is expected to post
+ */
+export function maxRuleGapMs(reportingIntervalSeconds: number): number {
+  return reportingIntervalSeconds * STALE_AFTER_INTERVALS * 1000;
+}
+
+/** Whether two readings are close enough together to be consecutive */
+const isConsecutive = (earlier: SensorReading, later: SensorReading, maxGapMs: number) =>
+  new Date(later.timestamp).getTime() - new Date(earlier.timestamp).getTime() <= maxGapMs;
+
+const isDigitalSensor = (sensor: SensorKey): sensor is DigitalSensor =>
+  DIGITAL_SENSORS.includes(sensor as DigitalSensor);
+
+/**
+ * Read conditions stored as JSON, dropping malformed ones.
+ *
+ * @param value - alert_rules.conditions
+ * @returns The conditions; a rule holds when all of them do
+ */
+export function parseRuleConditions(value: unknown): RuleCondition[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((condition): condition is Record<string, unknown> => !!condition && typeof condition === 'object')
+    .filter((condition) => {
+      const sensor = condition.sensor as SensorKey;
+      if (!RULE_SENSORS.includes(sensor)) return false;
+      if (isDigitalSensor(sensor)) return DIGITAL_OPERATORS.includes(condition.operator as RuleOperator);
+      return NUMERIC_OPERATORS.includes(condition.operator as RuleOperator)
+        && typeof condition.value === 'number' && Number.isFinite(condition.value);
+    })
+    .map((condition) => ({
+      sensor: condition.sensor as SensorKey,
+      operator: condition.operator as RuleOperator,
+      ...(typeof condition.value === 'number' && !isDigitalSensor(condition.sensor as SensorKey)
+        ? { value: condition.value }
+        : {}),
+    }));
+}
+
+/**
+ * Turn a stored rule into an AlertRule, or null when it cannot be used.
+ *
+ * @param row - Row from alert_rules
+ */
+export function parseAlertRule(row: AlertRuleRow): AlertRule | null {
+  const conditions = parseRuleConditions(row.conditions);
+  if (conditions.length === 0) return null;
+  if (!RULE_ALERT_TYPES.includes(row.alert_type as SensorAlertType)) return null;
+  if (!SEVERITY_LEVELS.includes(row.severity as Severity)) return null;
+
+  return {
+    id: row.id,
+    locationId: row.location_id,
+    name: row.name,
+    enabled: row.enabled,
+    conditions,
+    sustainReadings: Math.max(1, Number(row.sustain_readings)),
+    alertType: row.alert_type as SensorAlertType,
+    severity: row.severity as Severity,
+  };
+}
+
+/**
+ * Pick the enabled rules that apply to a location.
+ *
+ * @param rows - Global rows and rows for the location
+ * @param locationId - The location
+ */
+export function resolveAlertRules(rows: AlertRuleRow[], locationId: string): AlertRule[] {
+  return rows
+    .filter((row) => row.enabled && (row.location_id === null || row.location_id === locationId))
+    .map(parseAlertRule)
+    .filter((rule): rule is AlertRule => rule !== null);
+}
+
+/**
+ * Whether every condition holds for a reading. A sensor without a value
+ * (missing, not wired or rejected as faulty) never satisfies a condition.
+ */
+export function matchesConditions(reading: SensorReading, conditions: RuleCondition[]): boolean {
+  return conditions.length > 0 && conditions.every((condition) => {
+    if (condition.sensor === 'flame' || condition.sensor === 'pir') {
+      const detected = condition.sensor === 'flame' ? reading.flameDetected : reading.motionDetected;
+      return condition.operator === 'detected' ? detected : !detected;
+    }
+
+    const value = reading[condition.sensor as NumericSensor];
+    if (value === null || condition.value === undefined) return false;
+    return condition.operator === 'above' ? value > condition.value : value < condition.value;
+  });
+}
+
+/**
+ * Find the rules that fire for the latest reading.
+ *
+ * @param rules - Rules of the location
+ * @param readings - The latest reading followed by earlier ones, newest first
+ * @param maxGapMs - See maxRuleGapMs
+ * @returns Rules whose conditions held for their whole sustain window of
+ *   consecutive readings; too few readings means not sustained
+ */
+export function firingRules(rules: AlertRule[], readings: SensorReading[], maxGapMs: number): AlertRule[] {
+  return rules.filter((rule) => {
+    const window = readings.slice(0, rule.sustainReadings);
+    return window.length === rule.sustainReadings
+      && window.every((reading, index) =>
+        matchesConditions(reading, rule.conditions)
+        && (index === 0 || isConsecutive(reading, window[index - 1], maxGapMs))
+      );
+  });
+}
+
+/**
+ * Merge the rules that fired into the threshold classification: the more
+ * severe grade and the higher priority alert type win.
+ *
+ * @param classification - Result of classifyReading
+ * @param fired - Rules that fired for the same reading
+ */
+export function applyRules(classification: Classification, fired: AlertRule[]): Classification {
+  let { alertType, severity } = classification;
+  const triggers = [...classification.triggers];
+
+  for (const rule of fired) {
+    alertType = alertType ? maxAlertType(alertType, rule.alertType) as SensorAlertType : rule.alertType;
+    severity = severity ? maxSeverity(severity, rule.severity) : rule.severity;
+    triggers.push(`rule:${rule.name}`);
+  }
+
+  return { alertType, severity, triggers };
+}
+
+/**
+ * Replay a rule over past readings, the way firingRules would have seen them.
+ *
+ * @param rule - Conditions and sustain window to test
+ * @param readings - Stored readings, oldest first
+ * @param maxGapMs - See maxRuleGapMs
+ * @returns How often the conditions held and when the rule would have raised an alert
+ */
+export function dryRunRule(
+  rule: Pick<AlertRule, 'conditions' | 'sustainReadings'>,
+  readings: SensorReading[],
+  maxGapMs: number
+): RuleDryRun {
+  let matching = 0;
+  let streak = 0;
+  let previous: SensorReading | null = null;
+  const firings: string[] = [];
+
+  for (const reading of readings) {
+    // After a gap the run of matching readings starts over
+    if (previous && !isConsecutive(previous, reading, maxGapMs)) streak = 0;
+    previous = reading;
+
+    if (matchesConditions(reading, rule.conditions)) {
+      matching++;
+      streak++;
+      // An alert is raised once per run of matching readings
+      if (streak === rule.sustainReadings) firings.push(reading.timestamp);
+    } else {
+      streak = 0;
+    }
+  }
+
+  return { readings: readings.length, matching, firings };
+}
+
+/** A condition in words, e.g. "Gas above 400 ppm" or "Flame detected" */
+export function describeCondition(condition: RuleCondition): string {
+  const label = SENSOR_LABELS[condition.sensor];
+  if (isDigitalSensor(condition.sensor)) return `${label} ${RULE_OPERATOR_LABELS[condition.operator]}`;
+
+  const unit = SENSOR_UNITS[condition.sensor as NumericSensor];
+  return `${label} ${RULE_OPERATOR_LABELS[condition.operator]} ${condition.value} ${unit}`;
+}
@@ -0,0 +1,57 @@
+/**
+ * Alert Status State Machine
+ *
+ * Shared by alert-manager, which enforces it on every status change, and the
+ * web app, which uses it to offer only the moves that will be accepted.
+ *
+ * - active: raised by the evaluator, nobody has picked it up yet
+ * - in_queue: an officer has taken ownership and a crew is on the way
+ * - resolved / false_alarm / unsolved: closed by an officer
+ * - auto_cleared: closed by the evaluator because readings returned to normal;
+ *   never set by a person
+ */
+
+export type AlertStatus = 'active' | 'in_queue' | 'resolved' | 'false_alarm' | 'unsolved' | 'auto_cleared';
+
+export const ALERT_STATUSES: AlertStatus[] = ['active', 'in_queue', 'resolved', 'false_alarm', 'unsolved', 'auto_cleared'];
+
+/** Statuses that close an alert; moving into one records resolved_at / resolved_by */
+export const CLOSED_STATUSES: AlertStatus[] = ['resolved', 'false_alarm', 'unsolved', 'auto_cleared'];
+
+/** Moves a person may make from each status */
+export const ALERT_STATUS_TRANSITIONS: Record<AlertStatus, AlertStatus[]> = {
+  active: ['in_queue', 'resolved', 'false_alarm', 'unsolved'],
+  in_queue: ['active', 'resolved', 'false_alarm', 'unsolved'],
+  // Closed alerts can be reopened when they were closed by mistake
+  resolved: ['active', 'in_queue'],
+  false_alarm: ['active', 'in_queue'],
+  unsolved: ['in_queue', 'resolved'],
+  // Officers confirm or overrule the evaluator
+  auto_cleared: ['active', 'in_queue', 'resolved', 'false_alarm'],
+};
+
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  active: 'Active',
+  in_queue: 'In Queue',
+  resolved: 'Solved',
+  false_alarm: 'False Alarm',
+  unsolved: 'Unsolved',
+  auto_cleared: 'Auto-cleared',
+};
+
+export function isAlertStatus(value: unknown): value is AlertStatus {
+  return ALERT_STATUSES.includes(value as AlertStatus);
+}
+
+/**
+ * Whether a person may move an alert from one status to another.
+ *
+ * @param from - Current status of the alert
+ * @param to - Requested status
+ * @returns True when the transition is allowed
+ */
+export function canTransition(from: string | null, to: string): boolean {
+  const current = from ?? 'active';
+  if (!isAlertStatus(current) || !isAlertStatus(to)) return false;
+  return ALERT_STATUS_TRANSITIONS[current].includes(to);
+}
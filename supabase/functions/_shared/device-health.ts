@@ -0,0 +1,63 @@
+/**
+ * Device Health
+ *
+ * A board that loses power or its connection leaves its last ThingSpeak entry
+ * in place, so a reading can look current long after the board went quiet.
+ * Health is judged from the age of the latest entry against the location's
+ * expected reporting interval (location_alert_settings.reporting_interval_seconds):
+ * - online: an entry within STALE_AFTER_INTERVALS intervals
+ * - stale: a few posts missed; readings are shown but not trusted as current
+ * - offline: nothing for OFFLINE_AFTER_INTERVALS intervals; alert-manager
+ *   raises a device_offline alert and the location's status becomes offline
+ * - unknown: the board has never reported
+ *
+ * device_offline, like sensor_fault (_shared/sensor-faults.ts), is a
+ * maintenance alert: it is not dispatched to a station, does not escalate and
+ * does not mark the location as on alert.
+ */
+
+export type DeviceHealth = 'online' | 'stale' | 'offline' | 'unknown';
+
+export const DEVICE_HEALTH_LABELS: Record<DeviceHealth, string> = {
+  online: 'Online',
+  stale: 'Stale',
+  offline: 'Offline',
+  unknown: 'No data',
+};
+
+/** One missed post is normal jitter; two in a row is not */
+export const STALE_AFTER_INTERVALS = 2;
+
+export const OFFLINE_AFTER_INTERVALS = 5;
+
+/** Alert types raised for upkeep of the sensors rather than for an emergency */
+export type MaintenanceAlertType = 'device_offline' | 'sensor_fault';
+
+export const MAINTENANCE_ALERT_TYPES: MaintenanceAlertType[] = ['device_offline', 'sensor_fault'];
+
+export function isMaintenanceAlert(alertType: string): boolean {
+  return MAINTENANCE_ALERT_TYPES.includes(alertType as MaintenanceAlertType);
+}
+
+/**
+ * Judge a board's health from its latest ThingSpeak entry.
+ *
+ * @param lastReadingAt - Timestamp of the latest entry, if any
+ * @param reportingIntervalSeconds - How often the board is expected to post
+ * @param now - Current time in milliseconds
+ */
+export function getDeviceHealth(
+  lastReadingAt: string | null | undefined,
+  reportingIntervalSeconds: number,
+  now: number = Date.now()
+): DeviceHealth {
+  if (!lastReadingAt) return 'unknown';
+
+  const readAt = new Date(lastReadingAt).getTime();
+  if (Number.isNaN(readAt)) return 'unknown';
+
+  const intervals = (now - readAt) / (reportingIntervalSeconds * 1000);
+  if (intervals > OFFLINE_AFTER_INTERVALS) return 'offline';
+  if (intervals > STALE_AFTER_INTERVALS) return 'stale';
+  return 'online';
+}
@@ -0,0 +1,51 @@
+/**
+ * Alert Dispatch
+ *
+ * An open alert is assigned to a fire station and, optionally, one of its
+ * officers. The responding crew then reports its progress in order:
+ * - acknowledged: the crew has seen the alert and is responding; nobody else
+ *   should pick it up
+ * - en_route: the crew has set off
+ * - on_scene: the crew has arrived
+ *
+ * Each step is recorded once, with its time. Reassigning an alert starts the
+ * steps over for the new crew.
+ *
+ * Shared by alert-manager, which enforces the order, and the web app.
+ */
+
+export type DispatchStep = 'acknowledged' | 'en_route' | 'on_scene';
+
+/** In the order a crew reports them */
+export const DISPATCH_STEPS: DispatchStep[] = ['acknowledged', 'en_route', 'on_scene'];
+
+export const DISPATCH_STEP_LABELS: Record<DispatchStep, string> = {
+  acknowledged: 'Acknowledged',
+  en_route: 'En Route',
+  on_scene: 'On Scene',
+};
+
+type DispatchColumn = 'acknowledged_at' | 'en_route_at' | 'on_scene_at';
+
+/** Column of public.alerts holding the time each step was reported */
+export const DISPATCH_STEP_COLUMNS: Record<DispatchStep, DispatchColumn> = {
+  acknowledged: 'acknowledged_at',
+  en_route: 'en_route_at',
+  on_scene: 'on_scene_at',
+};
+
+export type DispatchProgress = Record<DispatchColumn, string | null>;
+
+export function isDispatchStep(value: unknown): value is DispatchStep {
+  return DISPATCH_STEPS.includes(value as DispatchStep);
+}
+
+/**
+ * The step the crew should report next.
+ *
+ * @param progress - The alert's step timestamps
+ * @returns The first step not yet reported, or null once the crew is on scene
+ */
+export function nextDispatchStep(progress: DispatchProgress): DispatchStep | null {
+  return DISPATCH_STEPS.find((step) => !progress[DISPATCH_STEP_COLUMNS[step]]) ?? null;
+}
@@ -0,0 +1,111 @@
+/**
+ * Escalation Policy
+ *
+ * An alert that nobody acknowledges climbs an escalation chain. Each tier says
+ * how many minutes after the alert started waiting for acknowledgement (it was
+ * raised, reassigned or reopened) it applies, who is brought in and how loudly
+ * they are notified:
+ * - incharge: station in-charges
+ * - neighbouring_stations: the nearest other stations are asked to support
+ * - admin: administrators
+ *
+ * Chains are stored per region in escalation_policies.chain; the row with a
+ * NULL region is the default, and DEFAULT_ESCALATION_CHAIN applies when there
+ * is none. Acknowledging an alert stops the climb; tiers an alert has already
+ * passed are not repeated when its clock restarts.
+ *
+ * Shared by alert-manager, which runs the escalations, and the web app.
+ */
+
+export type EscalationTarget = 'incharge' | 'neighbouring_stations' | 'admin';
+
+export const ESCALATION_TARGETS: EscalationTarget[] = ['incharge', 'neighbouring_stations', 'admin'];
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  incharge: 'Station in-charges',
+  neighbouring_stations: 'Neighbouring stations',
+  admin: 'Administrators',
+};
+
+/** Lowest to highest */
+export type NotificationLevel = 'standard' | 'urgent' | 'critical';
+
+export const NOTIFICATION_LEVELS: NotificationLevel[] = ['standard', 'urgent', 'critical'];
+
+export const NOTIFICATION_LEVEL_LABELS: Record<NotificationLevel, string> = {
+  standard: 'Standard',
+  urgent: 'Urgent',
+  critical: 'Critical',
+};
+
+export type EscalationTier = {
+  /** Minutes after the alert was raised */
+  afterMinutes: number;
+  target: EscalationTarget;
+  notificationLevel: NotificationLevel;
+};
+
+export const DEFAULT_ESCALATION_CHAIN: EscalationTier[] = [
+  { afterMinutes: 5, target: 'incharge', notificationLevel: 'urgent' },
+  { afterMinutes: 10, target: 'neighbouring_stations', notificationLevel: 'critical' },
+  { afterMinutes: 20, target: 'admin', notificationLevel: 'critical' },
+];
+
+/** How many other stations are asked to support at a neighbouring_stations tier */
+export const NEIGHBOUR_STATION_COUNT = 2;
+
+export interface EscalationPolicyRow {
+  region: string | null;
+  chain: unknown;
+}
+
+/**
+ * Read a chain stored as JSON, dropping malformed tiers.
+ *
+ * @param value - escalation_policies.chain
+ * @returns Tiers in the order they apply (by afterMinutes)
+ */
+export function parseEscalationChain(value: unknown): EscalationTier[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((tier): tier is Record<string, unknown> => !!tier && typeof tier === 'object')
+    .filter((tier) =>
+      typeof tier.afterMinutes === 'number' && tier.afterMinutes >= 0 &&
+      ESCALATION_TARGETS.includes(tier.target as EscalationTarget) &&
+      NOTIFICATION_LEVELS.includes(tier.notificationLevel as NotificationLevel)
+    )
+    .map((tier) => ({
+      afterMinutes: tier.afterMinutes as number,
+      target: tier.target as EscalationTarget,
+      notificationLevel: tier.notificationLevel as NotificationLevel,
+    }))
+    .sort((a, b) => a.afterMinutes - b.afterMinutes);
+}
+
+/**
+ * Pick the chain for a region: its own policy, else the default policy, else
+ * DEFAULT_ESCALATION_CHAIN.
+ *
+ * @param rows - Rows from escalation_policies
+ * @param region - Region of the alert's location
+ */
+export function resolveEscalationChain(rows: EscalationPolicyRow[], region?: string | null): EscalationTier[] {
+  const regionRow = region ? rows.find((row) => row.region === region) : undefined;
+  const row = regionRow ?? rows.find((row) => row.region === null);
+  return row ? parseEscalationChain(row.chain) : DEFAULT_ESCALATION_CHAIN;
+}
+
+/**
+ * How many tiers of a chain are due for an unacknowledged alert.
+ *
+ * @param chain - Escalation chain of the alert's region
+ * @param raisedAt - When the alert started waiting to be acknowledged
+ *   (alerts.escalation_started_at, ISO timestamp)
+ * @param now - Current time in ms (default: Date.now())
+ * @returns The escalation level the alert should be at; 0 means not escalated
+ */
+export function dueEscalationLevel(chain: EscalationTier[], raisedAt: string, now: number = Date.now()): number {
+  const minutes = (now - new Date(raisedAt).getTime()) / 60000;
+  return chain.filter((tier) => minutes >= tier.afterMinutes).length;
+}
@@ -0,0 +1,51 @@
+/**
+ * Location Status
+ *
+ * locations.status is never set by hand: the database derives it
+ * (sync_location_status) whenever a location's alerts change or alert-manager
+ * records a new evaluation in location_alert_state. In order of precedence:
+ * - alert: an emergency alert at the location is open (active or in_queue);
+ *   maintenance alerts such as device_offline do not count
+ * - offline: the board has stopped reporting (see _shared/device-health.ts)
+ * - warning: the latest reading has a sensor past its warning level
+ * - normal: otherwise
+ */
+
+import { getThresholdStatus, type ThresholdSet } from './thresholds.ts';
+import type { SensorSnapshot } from './severity.ts';
+
+export type LocationStatus = 'normal' | 'warning' | 'alert' | 'offline';
+
+export const LOCATION_STATUSES: LocationStatus[] = ['normal', 'warning', 'alert', 'offline'];
+
+export const LOCATION_STATUS_LABELS: Record<LocationStatus, string> = {
+  normal: 'Normal',
+  warning: 'Warning',
+  alert: 'Alert',
+  offline: 'Offline',
+};
+
+/** Worst threshold level in a reading, stored in location_alert_state.reading_level */
+export type ReadingLevel = 'normal' | 'warning' | 'critical';
+
+export function isLocationStatus(value: unknown): value is LocationStatus {
+  return LOCATION_STATUSES.includes(value as LocationStatus);
+}
+
+/**
+ * The worst threshold level any sensor in a reading has reached.
+ *
+ * @param snapshot - Latest readings
+ * @param thresholds - The location's thresholds
+ * @returns "critical" with flame or a sensor past critical, "warning" past warning, otherwise "normal"
+ */
+export function getReadingLevel(snapshot: SensorSnapshot, thresholds: ThresholdSet): ReadingLevel {
+  if (snapshot.flameDetected) return 'critical';
+
+  const statuses = (['temperature', 'gas'] as const).map((sensor) =>
+    getThresholdStatus(snapshot[sensor], thresholds[sensor])
+  );
+  if (statuses.includes('danger')) return 'critical';
+  if (statuses.includes('warning')) return 'warning';
+  return 'normal';
+}
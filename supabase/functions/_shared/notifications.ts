@@ -0,0 +1,92 @@
+/**
+ * Notification Channels
+ *
+ * Alerts reach people outside the browser through outbound channels: email,
+ * SMS, HTTP webhooks and Web Push. Each user picks their channels and the
+ * lowest notification level worth sending in notification_preferences; push
+ * goes to every device they subscribed in push_subscriptions.
+ * notification-dispatcher sends when alert-manager raises or escalates an
+ * alert, and logs every attempt in notification_deliveries.
+ *
+ * Shared by notification-dispatcher and the web app.
+ */
+
+import { NOTIFICATION_LEVELS, type NotificationLevel } from './escalation.ts';
+
+export type NotificationChannel = 'email' | 'sms' | 'webhook' | 'push';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'sms', 'webhook', 'push'];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  webhook: 'Webhook',
+  push: 'Push',
+};
+
+/**
+ * What happened to the alert:
+ * - created: a new alert was raised
+ * - escalated: nobody acknowledged it in time (see _shared/escalation.ts)
+ * - severity_increased: readings worsened on an open alert
+ */
+export type NotificationEvent = 'created' | 'escalated' | 'severity_increased';
+
+export const NOTIFICATION_EVENTS: NotificationEvent[] = ['created', 'escalated', 'severity_increased'];
+
+export const NOTIFICATION_EVENT_LABELS: Record<NotificationEvent, string> = {
+  created: 'Alert raised',
+  escalated: 'Escalated',
+  severity_increased: 'Severity increased',
+};
+
+export interface NotificationPreferences {
+  email_enabled: boolean;
+  email_address: string | null;
+  sms_enabled: boolean;
+  sms_number: string | null;
+  webhook_enabled: boolean;
+  webhook_url: string | null;
+  min_level: string;
+}
+
+export interface ChannelAddress {
+  channel: NotificationChannel;
+  /** Email address, phone number, webhook URL or push endpoint */
+  recipient: string;
+  /** Push only: the subscription's encryption keys */
+  keys?: { p256dh: string; auth: string };
+}
+
+export function isNotificationEvent(value: unknown): value is NotificationEvent {
+  return NOTIFICATION_EVENTS.includes(value as NotificationEvent);
+}
+
+/**
+ * Whether an alert at one notification level should reach someone who only
+ * wants minLevel and above. Unknown levels count as standard.
+ */
+export function meetsNotificationLevel(level: string, minLevel: string): boolean {
+  const rank = (value: string) => Math.max(NOTIFICATION_LEVELS.indexOf(value as NotificationLevel), 0);
+  return rank(level) >= rank(minLevel);
+}
+
+/**
+ * The channels a user has turned on, with the address to send each one to.
+ * Channels without an address are skipped.
+ */
+export function enabledChannels(preferences: NotificationPreferences): ChannelAddress[] {
+  const addresses: ChannelAddress[] = [];
+
+  if (preferences.email_enabled && preferences.email_address) {
+    addresses.push({ channel: 'email', recipient: preferences.email_address });
+  }
+  if (preferences.sms_enabled && preferences.sms_number) {
+    addresses.push({ channel: 'sms', recipient: preferences.sms_number });
+  }
+  if (preferences.webhook_enabled && preferences.webhook_url) {
+    addresses.push({ channel: 'webhook', recipient: preferences.webhook_url });
+  }
+
+  return addresses;
+}
@@ -0,0 +1,58 @@
+/**
+ * Rate-of-Rise Heat Detection
+ *
+ * Fire codes pair fixed-temperature heat detection with rate-of-rise
+ * detection: a room that heats up quickly is on fire long before it reaches
+ * the critical temperature. The rise is measured from the latest reading back
+ * to each earlier stored reading within the window, and the steepest climb
+ * counts, so a short burst is not averaged away by a calm start of the window.
+ *
+ * The rate that triggers an alert is set per location in
+ * location_alert_settings.rate_of_rise_per_minute (°C per minute); the
+ * default of 8 °C/min is the usual 15 °F/min of rate-of-rise detectors.
+ */
+
+/** How far back to look for the start of a climb */
+export const RATE_OF_RISE_WINDOW_MINUTES = 5;
+
+/** Readings closer together than this are too noisy to give a rate */
+export const MIN_RISE_SPAN_MINUTES = 1;
+
+/** A temperature at a point in time, e.g. a stored sensor reading */
+export type TemperatureSample = {
+  temperature: number | null;
+  timestamp: string;
+};
+
+/**
+ * Find how fast the temperature is climbing.
+ *
+ * @param latest - The latest reading
+ * @param history - Earlier readings, in any order
+ * @param windowMinutes - Ignore readings older than this before the latest one
+ * @returns The steepest rise in °C per minute, or null when there is nothing to compare with
+ */
+export function getTemperatureRise(
+  latest: TemperatureSample,
+  history: TemperatureSample[],
+  windowMinutes: number = RATE_OF_RISE_WINDOW_MINUTES
+): number | null {
+  if (latest.temperature === null) return null;
+
+  const latestAt = new Date(latest.timestamp).getTime();
+  if (Number.isNaN(latestAt)) return null;
+
+  let steepest: number | null = null;
+
+  for (const sample of history) {
+    if (sample.temperature === null) continue;
+
+    const minutes = (latestAt - new Date(sample.timestamp).getTime()) / 60000;
+    if (!(minutes >= MIN_RISE_SPAN_MINUTES) || minutes > windowMinutes) continue;
+
+    const rate = (latest.temperature - sample.temperature) / minutes;
+    if (steepest === null || rate > steepest) steepest = rate;
+  }
+
+  return steepest;
+}
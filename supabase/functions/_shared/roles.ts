@@ -0,0 +1,56 @@
+/**
+ * Role Model
+ *
+ * The single authorisation model, backed by the user_roles table and the
+ * app_role enum. Roles are ranked; each one includes the powers of the ones
+ * below it:
+ * - pending_authority: a Fire Authority sign-up awaiting verification by an
+ *   in-charge or admin; no more access than a civilian until approved
+ * - civilian: views locations and alerts, requests new locations
+ * - officer: fire authority staff; handles alerts, manages locations,
+ *   thresholds and location requests
+ * - incharge: station in-charge; everything an officer can do, plus
+ *   verifying authority accounts
+ * - admin: everything, plus granting and revoking roles
+ *
+ * Shared by the edge functions and the web app; RLS policies use the matching
+ * SQL helpers has_min_role() and is_staff().
+ */
+
+export type AppRole = 'pending_authority' | 'civilian' | 'officer' | 'incharge' | 'admin';
+
+/** Lowest to highest */
+export const APP_ROLES: AppRole[] = ['pending_authority', 'civilian', 'officer', 'incharge', 'admin'];
+
+export const ROLE_LABELS: Record<AppRole, string> = {
+  pending_authority: 'Pending Verification',
+  civilian: 'Civilian',
+  officer: 'Fire Officer',
+  incharge: 'Station In-charge',
+  admin: 'Administrator',
+};
+
+/**
+ * Pick the highest of a user's roles.
+ *
+ * @param roles - Rows or values from user_roles
+ * @returns The highest role, or civilian when the user has none
+ */
+export function highestRole(roles: (string | null | undefined)[]): AppRole {
+  if (roles.length === 0) return 'civilian';
+  let highest = 0;
+  for (const role of roles) {
+    highest = Math.max(highest, APP_ROLES.indexOf(role as AppRole));
+  }
+  return APP_ROLES[highest];
+}
+
+/** Whether a role includes the powers of another (e.g. admin includes officer) */
+export function hasMinRole(role: AppRole, minimum: AppRole): boolean {
+  return APP_ROLES.indexOf(role) >= APP_ROLES.indexOf(minimum);
+}
+
+/** Fire authority staff: officers, in-charges and admins */
+export function isStaffRole(role: AppRole): boolean {
+  return hasMinRole(role, 'officer');
+}
@@ -0,0 +1,141 @@
+/**
+ * Sensor Faults
+ *
+ * A sensor that breaks rarely goes silent: a DHT that lost its data line
+ * reads 0 °C and 0 %, a loose gas sensor reads far outside what it can
+ * measure, and a hung one repeats the same value forever. Such values would
+ * either pass the threshold checks as "normal" or hold an alert open, so they
+ * are rejected before anything uses them:
+ * - missing: the sensor is wired in the field map but the entry has no number
+ * - disconnected: a DHT reporting exactly 0 °C and 0 % together
+ * - out_of_range: outside what the sensor can physically report
+ * - stuck: the same value for STUCK_AFTER_READINGS stored readings in a row
+ *
+ * thingspeak-service replaces rejected values with null and lists them in
+ * SensorReading.faults. alert-manager keeps a faulty sensor from clearing an
+ * alert and raises a sensor_fault maintenance alert (_shared/device-health.ts)
+ * until the sensor reports plausible values again.
+ *
+ * Only numeric sensors are checked; a digital flame or PIR input has no value
+ * that is implausible on its own.
+ */
+
+import { NUMERIC_SENSORS, type FieldMap, type NumericSensor, type SensorReading } from './sensors.ts';
+
+export type SensorFault = 'missing' | 'disconnected' | 'out_of_range' | 'stuck';
+
+export const SENSOR_FAULT_LABELS: Record<SensorFault, string> = {
+  missing: 'No value',
+  disconnected: 'Disconnected',
+  out_of_range: 'Out of range',
+  stuck: 'Stuck',
+};
+
+/** Faulty sensors of a reading; sensors that are not listed are fine */
+export type SensorFaults = Partial<Record<NumericSensor, SensorFault>>;
+
+/** A stored reading, as read back to look for stuck sensors */
+export type StoredValues = Pick<SensorReading, NumericSensor | 'timestamp'>;
+
+/** What each sensor can physically report, after the field map's scale and offset */
+export const PLAUSIBLE_RANGES: Record<NumericSensor, { min: number; max: number }> = {
+  temperature: { min: -40, max: 125 },
+  humidity: { min: 0, max: 100 },
+  gas: { min: 0, max: 10000 },
+  smoke: { min: 0, max: 10000 },
+  co: { min: 0, max: 10000 },
+};
+
+/**
+ * Identical readings in a row before a sensor counts as stuck. Analog gas
+ * sensors always jitter; a DHT at whole-degree resolution can legitimately
+ * hold still for a while in a quiet room.
+ */
+export const STUCK_AFTER_READINGS: Record<NumericSensor, number> = {
+  temperature: 60,
+  humidity: 60,
+  gas: 20,
+  smoke: 20,
+  co: 20,
+};
+
+/** Stored readings to load to be able to tell whether any sensor is stuck */
+export const STUCK_HISTORY_READINGS = Math.max(...Object.values(STUCK_AFTER_READINGS));
+
+/**
+ * Find the sensors of a reading whose values cannot be trusted.
+ *
+ * @param reading - Decoded reading
+ * @param fieldMap - Wiring of the location's board
+ * @param history - Earlier stored readings, newest first; without them no sensor is found stuck
+ * @returns The faulty sensors
+ */
+export function findSensorFaults(reading: SensorReading, fieldMap: FieldMap, history: StoredValues[] = []): SensorFaults {
+  const faults: SensorFaults = {};
+  const readAt = new Date(reading.timestamp).getTime();
+  // The reading itself may already have been stored
+  const earlier = history.filter((stored) => new Date(stored.timestamp).getTime() !== readAt);
+
+  for (const sensor of NUMERIC_SENSORS) {
+    if (!fieldMap[sensor]) continue;
+
+    const value = reading[sensor];
+    const range = PLAUSIBLE_RANGES[sensor];
+    const stuckAfter = STUCK_AFTER_READINGS[sensor];
+
+    if (value === null) {
+      faults[sensor] = 'missing';
+    } else if (value < range.min || value > range.max) {
+      faults[sensor] = 'out_of_range';
+    } else if (
+      earlier.length >= stuckAfter - 1
+      && earlier.slice(0, stuckAfter - 1).every((stored) => stored[sensor] === value)
+    ) {
+      faults[sensor] = 'stuck';
+    }
+  }
+
+  if (fieldMap.temperature && fieldMap.humidity && reading.temperature === 0 && reading.humidity === 0) {
+    faults.temperature = 'disconnected';
+    faults.humidity = 'disconnected';
+  }
+
+  return faults;
+}
+
+/**
+ * Drop the values of faulty sensors from a reading.
+ *
+ * @param reading - Decoded reading
+ * @param faults - Its faulty sensors
+ * @returns The reading with faulty values set to null and the faults listed
+ */
+export function rejectFaultyValues(reading: SensorReading, faults: SensorFaults): SensorReading {
+  const checked: SensorReading = { ...reading, faults };
+  for (const sensor of Object.keys(faults) as NumericSensor[]) {
+    checked[sensor] = null;
+  }
+  return checked;
+}
+
+export function hasSensorFaults(faults: SensorFaults | null | undefined): boolean {
+  return !!faults && Object.keys(faults).length > 0;
+}
+
+/**
+ * Validate stored faults (location_alert_state.sensor_faults, SensorReading.faults).
+ *
+ * @param value - Stored JSON value
+ * @returns The faults, empty when there are none
+ */
+export function resolveSensorFaults(value: unknown): SensorFaults {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const faults: SensorFaults = {};
+  for (const [sensor, fault] of Object.entries(value as Record<string, unknown>)) {
+    if (!NUMERIC_SENSORS.includes(sensor as NumericSensor)) continue;
+    if (typeof fault !== 'string' || !(fault in SENSOR_FAULT_LABELS)) continue;
+    faults[sensor as NumericSensor] = fault as SensorFault;
+  }
+  return faults;
+}
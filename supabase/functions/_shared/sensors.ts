@@ -0,0 +1,226 @@
+/**
+ * Sensor Reading Model
+ *
+ * The single definition of what a ThingSpeak feed entry means, shared by the
+ * edge functions and the web app. Every screen and the alert evaluator work
+ * with a decoded SensorReading instead of raw ThingSpeak fields, so the same
+ * entry can never read "No flame" on one screen and raise an alert on another.
+ *
+ * Which ThingSpeak field carries which sensor is described by a FieldMap,
+ * stored per location in locations.field_map. Locations without one use
+ * DEFAULT_FIELD_MAP:
+ * - field1: temperature (°C)
+ * - field2: humidity (%)
+ * - field3: flame sensor, active low ("0" = flame detected)
+ * - field4: gas level (ppm)
+ * - field5: PIR sensor, active low ("0" = motion detected)
+ */
+
+import type { SensorFaults } from './sensor-faults.ts';
+
+export type ThingSpeakField =
+  | 'field1' | 'field2' | 'field3' | 'field4'
+  | 'field5' | 'field6' | 'field7' | 'field8';
+
+export const THINGSPEAK_FIELDS: ThingSpeakField[] = [
+  'field1', 'field2', 'field3', 'field4', 'field5', 'field6', 'field7', 'field8',
+];
+
+export type NumericSensor = 'temperature' | 'humidity' | 'gas' | 'smoke' | 'co';
+export type DigitalSensor = 'flame' | 'pir';
+export type SensorKey = NumericSensor | DigitalSensor;
+
+export const NUMERIC_SENSORS: NumericSensor[] = ['temperature', 'humidity', 'gas', 'smoke', 'co'];
+export const DIGITAL_SENSORS: DigitalSensor[] = ['flame', 'pir'];
+
+export type FieldMapping = {
+  field: ThingSpeakField;
+  /** Digital sensors only: the sensor is active low ("0" = triggered) */
+  invert?: boolean;
+  /** Numeric sensors only: reading = raw * scale + offset */
+  scale?: number;
+  offset?: number;
+};
+
+/** Sensors missing from the map are not wired on the board */
+export type FieldMap = Partial<Record<SensorKey, FieldMapping>>;
+
+export const DEFAULT_FIELD_MAP: FieldMap = {
+  temperature: { field: 'field1' },
+  humidity: { field: 'field2' },
+  flame: { field: 'field3', invert: true },
+  gas: { field: 'field4' },
+  pir: { field: 'field5', invert: true },
+};
+
+export interface SensorReading {
+  /** °C, null when the field is missing or not a number */
+  temperature: number | null;
+  /** %, null when the field is missing or not a number */
+  humidity: number | null;
+  /** ppm, null when the field is missing or not a number */
+  gas: number | null;
+  /** ppm, null when not wired or not a number */
+  smoke: number | null;
+  /** ppm, null when not wired or not a number */
+  co: number | null;
+  flameDetected: boolean;
+  motionDetected: boolean;
+  /** ISO timestamp of the ThingSpeak entry */
+  timestamp: string;
+  /** Sensors whose values were rejected as implausible; see _shared/sensor-faults.ts */
+  faults?: SensorFaults;
+}
+
+/** Raw entry from ThingSpeak's feeds.json / feeds/last.json */
+export interface ThingSpeakFeed {
+  created_at: string;
+  entry_id?: number;
+  field1?: string | null;
+  field2?: string | null;
+  field3?: string | null;
+  field4?: string | null;
+  field5?: string | null;
+  [field: string]: string | number | null | undefined;
+}
+
+export const SENSOR_UNITS = {
+  temperature: '°C',
+  humidity: '%',
+  gas: 'ppm',
+  smoke: 'ppm',
+  co: 'ppm',
+} as const;
+
+export const SENSOR_LABELS: Record<SensorKey, string> = {
+  temperature: 'Temperature',
+  humidity: 'Humidity',
+  gas: 'Gas',
+  smoke: 'Smoke',
+  co: 'Carbon Monoxide',
+  flame: 'Flame',
+  pir: 'Motion (PIR)',
+};
+
+/** Value an active-low digital sensor reports when it is triggered */
+const ACTIVE_LOW_TRIGGERED = '0';
+
+/** Value an active-high digital sensor reports when it is triggered */
+const ACTIVE_HIGH_TRIGGERED = '1';
+
+function parseNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function isTriggered(value: unknown, invert: boolean): boolean {
+  if (value === null || value === undefined) return false;
+  return String(value).trim() === (invert ? ACTIVE_LOW_TRIGGERED : ACTIVE_HIGH_TRIGGERED);
+}
+
+/**
+ * Validate a stored field map (locations.field_map).
+ *
+ * @param value - Stored JSON value
+ * @returns The field map, or DEFAULT_FIELD_MAP when none is configured
+ */
+export function resolveFieldMap(value: unknown): FieldMap {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return DEFAULT_FIELD_MAP;
+
+  const fieldMap: FieldMap = {};
+  for (const [sensor, mapping] of Object.entries(value as Record<string, unknown>)) {
+    if (!NUMERIC_SENSORS.includes(sensor as NumericSensor) && !DIGITAL_SENSORS.includes(sensor as DigitalSensor)) continue;
+    if (!mapping || typeof mapping !== 'object') continue;
+
+    const { field, invert, scale, offset } = mapping as Record<string, unknown>;
+    if (!THINGSPEAK_FIELDS.includes(field as ThingSpeakField)) continue;
+
+    fieldMap[sensor as SensorKey] = {
+      field: field as ThingSpeakField,
+      invert: invert === true,
+      scale: typeof scale === 'number' && Number.isFinite(scale) ? scale : undefined,
+      offset: typeof offset === 'number' && Number.isFinite(offset) ? offset : undefined,
+    };
+  }
+
+  return Object.keys(fieldMap).length > 0 ? fieldMap : DEFAULT_FIELD_MAP;
+}
+
+/**
+ * Decode a raw ThingSpeak feed entry.
+ *
+ * @param feed - Entry from feeds.json or feeds/last.json
+ * @param fieldMap - Wiring of the location's board (default: DEFAULT_FIELD_MAP)
+ * @returns The decoded reading
+ */
+export function decodeFeed(feed: ThingSpeakFeed, fieldMap: FieldMap = DEFAULT_FIELD_MAP): SensorReading {
+  const numeric = (sensor: NumericSensor): number | null => {
+    const mapping = fieldMap[sensor];
+    if (!mapping) return null;
+    const raw = parseNumber(feed[mapping.field]);
+    if (raw === null) return null;
+    return raw * (mapping.scale ?? 1) + (mapping.offset ?? 0);
+  };
+
+  const digital = (sensor: DigitalSensor): boolean => {
+    const mapping = fieldMap[sensor];
+    if (!mapping) return false;
+    return isTriggered(feed[mapping.field], mapping.invert ?? false);
+  };
+
+  return {
+    temperature: numeric('temperature'),
+    humidity: numeric('humidity'),
+    gas: numeric('gas'),
+    smoke: numeric('smoke'),
+    co: numeric('co'),
+    flameDetected: digital('flame'),
+    motionDetected: digital('pir'),
+    timestamp: feed.created_at,
+  };
+}
+
+/**
+ * Turn stored sensor values (e.g. alerts.sensor_values) into a SensorReading.
+ *
+ * Alerts created before the shared model stored the flame as "FLAME"/"NONE"
+ * and PIR as the raw "0"/"1" field; both shapes are accepted.
+ *
+ * @param values - Stored JSON value
+ * @returns The reading, or null when there is nothing to decode
+ */
+export function normalizeReading(values: unknown): SensorReading | null {
+  if (!values || typeof values !== 'object' || Array.isArray(values)) return null;
+  const stored = values as Record<string, unknown>;
+
+  const flameDetected = typeof stored.flameDetected === 'boolean'
+    ? stored.flameDetected
+    : stored.flame === 'FLAME';
+
+  const motionDetected = typeof stored.motionDetected === 'boolean'
+    ? stored.motionDetected
+    : isTriggered(stored.pir, true);
+
+  return {
+    temperature: parseNumber(stored.temperature),
+    humidity: parseNumber(stored.humidity),
+    gas: parseNumber(stored.gas),
+    smoke: parseNumber(stored.smoke),
+    co: parseNumber(stored.co),
+    flameDetected,
+    motionDetected,
+    timestamp: typeof stored.timestamp === 'string' ? stored.timestamp : '',
+  };
+}
+
+/**
+ * Format a numeric reading for display.
+ *
+ * @param value - Reading, possibly null
+ * @param digits - Decimal places (default: 1)
+ * @returns The formatted value or "--" when missing
+ */
+export function formatSensorValue(value: number | null, digits: number = 1): string {
+  return value === null ? '--' : value.toFixed(digits);
+}
@@ -0,0 +1,118 @@
+/**
+ * Alert Severity Classification
+ *
+ * Grades an alert from how many sensors agree that something is wrong and how
+ * far the readings exceed their thresholds:
+ * - one sensor past its critical level is "medium" (flame alone is "high",
+ *   since it is direct evidence of fire)
+ * - two agreeing sensors are "high", three or more are "critical"
+ * - a reading at 1.5x its critical level, or another sensor already at its
+ *   warning level, raises the grade by one step each
+ *
+ * A temperature climbing faster than the location's rate of rise
+ * (_shared/rate-of-rise.ts) counts as a temperature trigger while the
+ * temperature itself is still below critical.
+ */
+
+import { getThresholdStatus, type ThresholdSet } from './thresholds.ts';
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export const SEVERITY_LEVELS: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+/** life_safety is only raised by alert rules (_shared/alert-rules.ts) */
+export type SensorAlertType = 'fire' | 'gas_leak' | 'temperature' | 'life_safety';
+
+/** Lowest to highest priority; a higher type is never replaced by a lower one */
+const ALERT_TYPE_PRIORITY: SensorAlertType[] = ['temperature', 'gas_leak', 'fire', 'life_safety'];
+
+/** How far past critical a reading must be to raise the grade by one step */
+const MAGNITUDE_FACTOR = 1.5;
+
+export interface SensorSnapshot {
+  temperature: number | null;
+  gas: number | null;
+  flameDetected: boolean;
+  /** °C per minute, null when there is no history to compare with */
+  temperatureRise?: number | null;
+}
+
+export interface Classification {
+  alertType: SensorAlertType | null;
+  severity: Severity | null;
+  /** Sensors past their critical level (or flame detected) */
+  triggers: string[];
+}
+
+/**
+ * Classify a set of readings against the location's thresholds.
+ *
+ * @param rateOfRisePerMinute - Temperature climb that triggers an alert; omit to skip the check
+ * @returns The alert type and severity, or nulls when nothing is past critical
+ */
+export function classifyReading(
+  snapshot: SensorSnapshot,
+  thresholds: ThresholdSet,
+  rateOfRisePerMinute?: number
+): Classification {
+  const triggers: string[] = [];
+  let corroborating = 0;
+  let farExceeded = false;
+
+  if (snapshot.flameDetected) triggers.push('flame');
+
+  for (const sensor of ['gas', 'temperature'] as const) {
+    const value = snapshot[sensor];
+    if (value === null) continue;
+    const status = getThresholdStatus(value, thresholds[sensor]);
+    if (status === 'danger') {
+      triggers.push(sensor);
+      if (value >= thresholds[sensor].critical * MAGNITUDE_FACTOR) farExceeded = true;
+    } else if (status === 'warning') {
+      corroborating++;
+    }
+  }
+
+  const rise = snapshot.temperatureRise ?? null;
+  if (
+    rateOfRisePerMinute !== undefined && rise !== null && rise >= rateOfRisePerMinute
+    && !triggers.includes('temperature')
+  ) {
+    triggers.push('temperature_rise');
+  }
+
+  if (triggers.length === 0) {
+    return { alertType: null, severity: null, triggers };
+  }
+
+  const alertType: SensorAlertType = snapshot.flameDetected
+    ? 'fire'
+    : triggers.includes('gas') ? 'gas_leak' : 'temperature';
+
+  let level: number;
+  if (triggers.length >= 3) {
+    level = SEVERITY_LEVELS.indexOf('critical');
+  } else if (triggers.length === 2 || snapshot.flameDetected) {
+    level = SEVERITY_LEVELS.indexOf('high');
+  } else {
+    level = SEVERITY_LEVELS.indexOf('medium');
+  }
+
+  if (farExceeded) level++;
+  if (corroborating > 0) level++;
+
+  const severity = SEVERITY_LEVELS[Math.min(level, SEVERITY_LEVELS.length - 1)];
+
+  return { alertType, severity, triggers };
+}
+
+/** Returns the more severe of two severities */
+export function maxSeverity(a: Severity, b: Severity): Severity {
+  return SEVERITY_LEVELS.indexOf(a) >= SEVERITY_LEVELS.indexOf(b) ? a : b;
+}
+
+/** Returns the higher priority of two alert types (life_safety > fire > gas_leak > temperature) */
+export function maxAlertType(a: string, b: SensorAlertType): string {
+  const current = ALERT_TYPE_PRIORITY.indexOf(a as SensorAlertType);
+  return current >= ALERT_TYPE_PRIORITY.indexOf(b) ? a : b;
+}
@@ -0,0 +1,77 @@
+/**
+ * Fire Station Selection
+ *
+ * Picks the station that should respond to a location:
+ * - stations whose coverage area contains the location and that have units
+ *   available come first
+ * - then any station with units available
+ * - then the nearest station, even if all its units are out
+ *
+ * Within each group the nearest station wins. Distances are straight-line
+ * (haversine) kilometres.
+ */
+
+export interface StationPosition {
+  latitude: number;
+  longitude: number;
+  available_units: number;
+  /** NULL means the station covers everywhere */
+  coverage_radius_km: number | null;
+}
+
+export interface StationMatch<T extends StationPosition> {
+  station: T;
+  distanceKm: number;
+  inCoverage: boolean;
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+/** Great-circle distance between two points in kilometres */
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Rank stations for a location, best first.
+ *
+ * @param stations - Candidate stations
+ * @param latitude - Location latitude
+ * @param longitude - Location longitude
+ * @returns Every station with its distance and whether it covers the location
+ */
+export function rankStations<T extends StationPosition>(
+  stations: T[],
+  latitude: number,
+  longitude: number
+): StationMatch<T>[] {
+  const rank = (match: StationMatch<T>) =>
+    match.station.available_units > 0 ? (match.inCoverage ? 0 : 1) : 2;
+
+  return stations
+    .map((station) => {
+      const distance = distanceKm(latitude, longitude, Number(station.latitude), Number(station.longitude));
+      return {
+        station,
+        distanceKm: distance,
+        inCoverage: station.coverage_radius_km === null || distance <= Number(station.coverage_radius_km),
+      };
+    })
+    .sort((a, b) => rank(a) - rank(b) || a.distanceKm - b.distanceKm);
+}
+
+/** The best station for a location, or null when there are none */
+export function nearestStation<T extends StationPosition>(
+  stations: T[],
+  latitude: number,
+  longitude: number
+): StationMatch<T> | null {
+  return rankStations(stations, latitude, longitude)[0] ?? null;
+}
@@ -0,0 +1,154 @@
+/**
+ * Alert Thresholds
+ *
+ * Shared by the edge functions and the web app so that "dangerous" means the
+ * same thing everywhere. Thresholds live in the location_thresholds table and
+ * alert tuning (sustain window, cool-down, reporting interval, rate of rise)
+ * in location_alert_settings: rows with a null location_id are the defaults
+ * for every location, rows with a location_id override them for that
+ * location.
+ *
+ * Alerts trigger above the critical level and only clear once readings drop
+ * below the clear level (hysteresis); the clear level defaults to the warning
+ * level.
+ */
+
+export type ThresholdSensor = 'temperature' | 'gas';
+
+export const THRESHOLD_SENSORS: ThresholdSensor[] = ['temperature', 'gas'];
+
+export interface SensorThreshold {
+  warning: number;
+  critical: number;
+  /** An open alert may only clear once the reading is below this level */
+  clear: number;
+}
+
+export type ThresholdSet = Record<ThresholdSensor, SensorThreshold>;
+
+export type ThresholdStatus = 'normal' | 'warning' | 'danger';
+
+/** Row shape of the location_thresholds table */
+export interface ThresholdRow {
+  location_id: string | null;
+  sensor: string;
+  warning_level: number;
+  critical_level: number;
+  clear_level?: number | null;
+}
+
+export interface AlertSettings {
+  /** Consecutive readings past critical before a new alert is raised */
+  sustainReadings: number;
+  /** Minutes readings must stay clear before an open alert auto-resolves */
+  clearCooldownMinutes: number;
+  /** How often the board posts to ThingSpeak; see _shared/device-health.ts */
+  reportingIntervalSeconds: number;
+  /** °C per minute a temperature may climb before it alerts; see _shared/rate-of-rise.ts */
+  rateOfRisePerMinute: number;
+}
+
+/** Row shape of the location_alert_settings table */
+export interface AlertSettingsRow {
+  location_id: string | null;
+  sustain_readings: number;
+  clear_cooldown_minutes: number;
+  reporting_interval_seconds: number;
+  rate_of_rise_per_minute: number;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  sustainReadings: 2,
+  clearCooldownMinutes: 5,
+  reportingIntervalSeconds: 180,
+  rateOfRisePerMinute: 8,
+};
+
+/**
+ * Fallback used when the table has no rows at all (e.g. before the migration
+ * has been applied). Matches the seeded global defaults.
+ */
+export const DEFAULT_THRESHOLDS: ThresholdSet = {
+  temperature: { warning: 35, critical: 40, clear: 35 },
+  gas: { warning: 400, critical: 1000, clear: 400 },
+};
+
+/**
+ * Merge threshold rows into the effective set for a location.
+ *
+ * @param rows - Global rows and rows for the location
+ * @param locationId - Location to resolve for; omit for the global defaults
+ * @returns Effective thresholds for every sensor
+ */
+export function resolveThresholds(rows: ThresholdRow[], locationId?: string | null): ThresholdSet {
+  const resolved: ThresholdSet = {
+    temperature: { ...DEFAULT_THRESHOLDS.temperature },
+    gas: { ...DEFAULT_THRESHOLDS.gas },
+  };
+
+  // Global defaults first, then location-specific overrides
+  const ordered = [
+    ...rows.filter((row) => row.location_id === null),
+    ...rows.filter((row) => locationId && row.location_id === locationId),
+  ];
+
+  for (const row of ordered) {
+    if (!THRESHOLD_SENSORS.includes(row.sensor as ThresholdSensor)) continue;
+    resolved[row.sensor as ThresholdSensor] = {
+      warning: Number(row.warning_level),
+      critical: Number(row.critical_level),
+      clear: Number(row.clear_level ?? row.warning_level),
+    };
+  }
+
+  return resolved;
+}
+
+/**
+ * Merge alert settings rows into the effective settings for a location.
+ *
+ * @param rows - Global row and the row for the location
+ * @param locationId - Location to resolve for; omit for the global defaults
+ * @returns Effective alert settings
+ */
+export function resolveAlertSettings(rows: AlertSettingsRow[], locationId?: string | null): AlertSettings {
+  const row = rows.find((r) => locationId && r.location_id === locationId)
+    ?? rows.find((r) => r.location_id === null);
+
+  if (!row) return { ...DEFAULT_ALERT_SETTINGS };
+
+  return {
+    sustainReadings: Math.max(1, Number(row.sustain_readings)),
+    clearCooldownMinutes: Math.max(0, Number(row.clear_cooldown_minutes)),
+    reportingIntervalSeconds: Math.max(15, Number(row.reporting_interval_seconds)),
+    rateOfRisePerMinute: Number(row.rate_of_rise_per_minute) > 0
+      ? Number(row.rate_of_rise_per_minute)
+      : DEFAULT_ALERT_SETTINGS.rateOfRisePerMinute,
+  };
+}
+
+/**
+ * Whether a numeric reading is low enough for an open alert to clear.
+ *
+ * @param value - Sensor reading, null when missing
+ * @param threshold - Levels for the sensor
+ * @returns True below the clear level (a missing reading never holds an alert open)
+ */
+export function isBelowClearLevel(value: number | null, threshold: SensorThreshold): boolean {
+  if (typeof value !== 'number' || Number.isNaN(value)) return true;
+  return value < threshold.clear;
+}
+
+/**
+ * Classify a reading against a threshold.
+ *
+ * @param value - Sensor reading, null when missing
+ * @param threshold - Warning and critical levels for the sensor
+ * @returns "danger" above critical, "warning" above warning, otherwise "normal"
+ */
+export function getThresholdStatus(value: number | null, threshold: SensorThreshold): ThresholdStatus {
+  if (typeof value !== 'number' || Number.isNaN(value)) return 'normal';
+  if (value > threshold.critical) return 'danger';
+  if (value > threshold.warning) return 'warning';
+  return 'normal';
+}
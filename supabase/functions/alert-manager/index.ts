@@ -1,5 +1,29 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { isBelowClearLevel, resolveAlertSettings, resolveThresholds } from "../_shared/thresholds.ts";
+import { classifyReading, maxAlertType, maxSeverity, type Severity } from "../_shared/severity.ts";
+import type { SensorReading } from "../_shared/sensors.ts";
+import { CLOSED_STATUSES, canTransition, isAlertStatus } from "../_shared/alert-status.ts";
+import { hasMinRole, highestRole, isStaffRole, type AppRole } from "../_shared/roles.ts";
+import { nearestStation, rankStations } from "../_shared/stations.ts";
+import {
+  DISPATCH_STEP_COLUMNS,
+  DISPATCH_STEP_LABELS,
+  isDispatchStep,
+  nextDispatchStep,
+} from "../_shared/dispatch.ts";
+import { dueEscalationLevel, NEIGHBOUR_STATION_COUNT, resolveEscalationChain } from "../_shared/escalation.ts";
+import type { NotificationEvent } from "../_shared/notifications.ts";
+import { getReadingLevel } from "../_shared/location-status.ts";
+import {
+  getDeviceHealth,
+  MAINTENANCE_ALERT_TYPES,
+  STALE_AFTER_INTERVALS,
+  type MaintenanceAlertType,
+} from "../_shared/device-health.ts";
+import { hasSensorFaults, resolveSensorFaults } from "../_shared/sensor-faults.ts";
+import { getTemperatureRise, RATE_OF_RISE_WINDOW_MINUTES } from "../_shared/rate-of-rise.ts";
+import { applyRules, firingRules, maxRuleGapMs, resolveAlertRules, type AlertRule } from "../_shared/alert-rules.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,9 +34,807 @@ const corsHeaders = {
  * Alert Manager Edge Function
  * 
  * This function manages alert creation and evaluation based on sensor thresholds.
- * It calls the ThingSpeak service (placeholder) to fetch sensor data.
+ * It calls the ThingSpeak service to fetch sensor data.
+ *
+ * Actions:
+ * - evaluate: evaluate a single location (used by the "Check Sensors" button)
+ * - evaluate_all: evaluate every location with ThingSpeak credentials; invoked
+ *   by the pg_cron schedule so alerts are raised with no dashboard open
+ * - transition: change the status of an alert (officer role or above); the
+ *   only way a person can change alerts.status, checked against the state
+ *   machine in _shared/alert-status.ts
+ * - assign: assign an open alert to a station and optionally one of its
+ *   officers; with neither given, picks the station from _shared/stations.ts
+ * - progress: report the next dispatch step (acknowledged, en_route,
+ *   on_scene) for the assigned crew; see _shared/dispatch.ts
+ * - escalate: move unacknowledged alerts up their region's escalation chain
+ *   (_shared/escalation.ts); invoked every minute by pg_cron. The chain is
+ *   timed from escalation_started_at, which reassigning or reopening an alert
+ *   resets, so the crew that now has it gets the time to acknowledge it
+ *
+ * New alerts are assigned to the responding station as soon as they are
+ * raised; officers can reassign them. Raising, escalating or worsening an
+ * alert has notification-dispatcher tell the responders on their outbound
+ * channels. Officers at the supporting stations
+ * brought in by an escalation can acknowledge an alert too, which hands it to
+ * their station.
+ *
+ * Besides the fixed thresholds, a temperature climbing faster than the
+ * location's rate of rise raises a temperature alert before it reaches
+ * critical (_shared/rate-of-rise.ts); the climb is measured against the
+ * readings thingspeak-service has stored.
+ *
+ * Alert rules (_shared/alert-rules.ts) combine sensors declaratively, e.g.
+ * flame and motion for a life_safety alert; a rule that fires raises or
+ * worsens the alert like a threshold does. Each rule has its own sustain
+ * window, so a new alert raised by rules alone does not wait for the
+ * location's, and carries only the rules' type and severity.
+ *
+ * To keep a sensor hovering around a threshold from flapping, a new alert is
+ * only raised after the location's sustain window of consecutive readings past
+ * critical, and an open alert is only auto-cleared once readings have stayed
+ * below the clear level for the cool-down period. The counters live in
+ * location_alert_state between runs.
+ *
+ * Each evaluation also records the worst threshold level of the reading and
+ * whether the board has gone quiet in location_alert_state, from which the
+ * database derives locations.status (see _shared/location-status.ts).
+ *
+ * Evaluation doubles as the heartbeat monitor: a board whose latest entry is
+ * older than its reporting interval allows gets a device_offline maintenance
+ * alert, cleared once it posts again (_shared/device-health.ts). Readings from
+ * a board that is not online never auto-clear an alert.
+ *
+ * Values thingspeak-service rejected as implausible (_shared/sensor-faults.ts)
+ * take no part in the evaluation; the location gets a sensor_fault
+ * maintenance alert, and no alert auto-clears, until every sensor reports
+ * plausible values again.
+ *
+ * Auto-clearing never overrides a status set by a person: an alert still
+ * 'active' moves to 'auto_cleared', while an 'in_queue' alert keeps its status
+ * and only gets auto_cleared_at set so officers see conditions look normal.
+ * resolved_by stays null either way.
  */
 
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface MonitoredLocation {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  thingspeak_channel_id: string | null;
+}
+
+interface StaffUser {
+  id: string;
+  role: AppRole;
+}
+
+/**
+ * - pending: past critical, but not yet for the sustain window
+ * - cooling_down: open alert kept while readings have not been clear for the cool-down
+ * - clear_suggested: readings are normal but an officer manages the alert
+ */
+type EvaluationOutcome =
+  | 'created' | 'updated' | 'escalated' | 'auto_cleared' | 'clear_suggested'
+  | 'pending' | 'cooling_down' | 'normal' | 'no_data';
+
+interface EvaluationResult {
+  outcome: EvaluationOutcome;
+  alert?: Record<string, unknown>;
+  sensors?: SensorReading;
+}
+
+/**
+ * Pick the station that should respond to a location.
+ *
+ * @param supabaseClient - Service role client
+ * @param location - Coordinates of the location
+ * @returns The station id, or null when there are no stations
+ */
+async function findRespondingStation(
+  supabaseClient: SupabaseClient,
+  location: { latitude: number; longitude: number }
+): Promise<string | null> {
+  const { data: stations, error } = await supabaseClient
+    .from('fire_stations')
+    .select('id, latitude, longitude, available_units, coverage_radius_km');
+
+  if (error) {
+    console.error('[Alert Manager] Error loading fire stations:', error);
+    return null;
+  }
+
+  return nearestStation(stations ?? [], Number(location.latitude), Number(location.longitude))?.station.id ?? null;
+}
+
+/**
+ * Have notification-dispatcher send an alert out on people's outbound
+ * channels. A failure is logged and never fails the caller.
+ *
+ * @param supabaseClient - Service role client
+ * @param alertId - The alert
+ * @param event - What happened to it
+ */
+async function notifyResponders(supabaseClient: SupabaseClient, alertId: string, event: NotificationEvent) {
+  const { error } = await supabaseClient.functions.invoke('notification-dispatcher', {
+    body: { alertId, event },
+  });
+
+  if (error) console.error('[Alert Manager] Error dispatching notifications:', alertId, error);
+}
+
+/**
+ * Keep a location's maintenance alert of one type in step with its board:
+ * raise one when the fault appears, and clear it once the board shows the
+ * fault is gone. While neither is certain the alert is left as it is.
+ *
+ * @param supabaseClient - Service role client
+ * @param location - The location
+ * @param alertType - device_offline or sensor_fault
+ * @param isFaulty - The fault is present; raise the alert if none is open
+ * @param isFixed - The fault is gone; clear the open alert
+ * @param sensors - Reading that showed the fault, kept on a new alert
+ */
+async function syncMaintenanceAlert(
+  supabaseClient: SupabaseClient,
+  location: MonitoredLocation,
+  alertType: MaintenanceAlertType,
+  isFaulty: boolean,
+  isFixed: boolean,
+  sensors?: SensorReading
+) {
+  const { data: openAlert } = await supabaseClient
+    .from('alerts')
+    .select('id, status, auto_cleared_at')
+    .eq('location_id', location.id)
+    .eq('alert_type', alertType)
+    .in('status', ['active', 'in_queue'])
+    .limit(1)
+    .maybeSingle();
+
+  if (isFaulty && !openAlert) {
+    // Maintenance, not an emergency: the nearest station looks after the
+    // board, but nobody is dispatched
+    const stationId = await findRespondingStation(supabaseClient, location);
+    const { data: newAlert, error } = await supabaseClient
+      .from('alerts')
+      .insert({
+        location_id: location.id,
+        alert_type: alertType,
+        severity: 'low',
+        status: 'active',
+        sensor_values: sensors ?? null,
+        timestamp: new Date().toISOString(),
+        assigned_station_id: stationId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    console.log('[Alert Manager] Maintenance alert raised:', alertType, location.name, newAlert.id);
+    await notifyResponders(supabaseClient, newAlert.id, 'created');
+    return;
+  }
+
+  if (!isFixed || !openAlert) return;
+
+  // Same rule as sensor alerts: never override a status set by a person
+  const { error } = await supabaseClient
+    .from('alerts')
+    .update(openAlert.status === 'active'
+      ? { status: 'auto_cleared', auto_cleared_at: new Date().toISOString() }
+      : { auto_cleared_at: openAlert.auto_cleared_at ?? new Date().toISOString() })
+    .eq('id', openAlert.id);
+
+  if (error) throw error;
+
+  console.log('[Alert Manager] Maintenance alert cleared:', alertType, location.name, openAlert.id);
+}
+
+/**
+ * Record that ThingSpeak returned nothing for a location, judging its board's
+ * health from the last reading it did send.
+ *
+ * @param supabaseClient - Service role client
+ * @param location - The location
+ * @param reportingIntervalSeconds - How often the board is expected to post
+ */
+async function recordMissingReading(supabaseClient: SupabaseClient, location: MonitoredLocation, reportingIntervalSeconds: number) {
+  const { data: state } = await supabaseClient
+    .from('location_alert_state')
+    .select('last_reading_at, offline_since')
+    .eq('location_id', location.id)
+    .maybeSingle();
+
+  const health = getDeviceHealth(state?.last_reading_at, reportingIntervalSeconds);
+  const isOffline = health === 'offline' || health === 'unknown';
+
+  if (!state || isOffline !== !!state.offline_since) {
+    const { error } = await supabaseClient
+      .from('location_alert_state')
+      .upsert({
+        location_id: location.id,
+        offline_since: isOffline ? new Date().toISOString() : null,
+      }, { onConflict: 'location_id' });
+
+    if (error) {
+      console.error('[Alert Manager] Error recording missing reading:', error);
+    }
+  }
+
+  await syncMaintenanceAlert(supabaseClient, location, 'device_offline', health === 'offline', health === 'online');
+}
+
+/**
+ * Work out how fast the temperature of a location is climbing, from the
+ * readings thingspeak-service has stored before the latest one.
+ *
+ * @param supabaseClient - Service role client
+ * @param locationId - The location
+ * @param sensors - The latest reading
+ * @param reportingIntervalSeconds - How often the board is expected to post
+ * @returns The rise in °C per minute, or null without earlier readings
+ */
+async function fetchTemperatureRise(
+  supabaseClient: SupabaseClient,
+  locationId: string,
+  sensors: SensorReading,
+  reportingIntervalSeconds: number
+): Promise<number | null> {
+  if (sensors.temperature === null || !sensors.timestamp) return null;
+
+  // A board that posts less often than the window still has an earlier reading in it
+  const windowMinutes = Math.max(RATE_OF_RISE_WINDOW_MINUTES, STALE_AFTER_INTERVALS * reportingIntervalSeconds / 60);
+  const since = new Date(new Date(sensors.timestamp).getTime() - windowMinutes * 60 * 1000).toISOString();
+
+  const { data: readings, error } = await supabaseClient
+    .from('sensor_readings')
+    .select('recorded_at, temperature')
+    .eq('location_id', locationId)
+    .gte('recorded_at', since)
+    .lt('recorded_at', sensors.timestamp);
+
+  if (error) {
+    console.error('[Alert Manager] Error loading recent readings for rate of rise:', error);
+    return null;
+  }
+
+  return getTemperatureRise(
+    sensors,
+    (readings ?? []).map((reading: { recorded_at: string; temperature: number | null }) => ({
+      temperature: reading.temperature,
+      timestamp: reading.recorded_at,
+    })),
+    windowMinutes
+  );
+}
+
+/**
+ * Check a location's alert rules against its latest reading and, for rules
+ * with a sustain window, the readings thingspeak-service stored before it.
+ *
+ * @param supabaseClient - Service role client
+ * @param locationId - The location
+ * @param sensors - The latest reading
+ * @param reportingIntervalSeconds - How often the board is expected to post
+ * @returns The rules that fire
+ */
+async function findFiringRules(
+  supabaseClient: SupabaseClient,
+  locationId: string,
+  sensors: SensorReading,
+  reportingIntervalSeconds: number
+): Promise<AlertRule[]> {
+  const { data: ruleRows, error: rulesError } = await supabaseClient
+    .from('alert_rules')
+    .select('id, location_id, name, enabled, conditions, sustain_readings, alert_type, severity')
+    .eq('enabled', true)
+    .or(`location_id.is.null,location_id.eq.${locationId}`);
+
+  if (rulesError) {
+    console.error('[Alert Manager] Error loading alert rules, skipping them:', rulesError);
+    return [];
+  }
+
+  const rules = resolveAlertRules(ruleRows ?? [], locationId);
+  if (rules.length === 0) return [];
+
+  const earlierCount = Math.max(...rules.map((rule) => rule.sustainReadings)) - 1;
+  const maxGapMs = maxRuleGapMs(reportingIntervalSeconds);
+  let earlier: SensorReading[] = [];
+
+  if (earlierCount > 0 && sensors.timestamp) {
+    // Readings from before an outage cannot be part of the sustain window
+    const oldest = new Date(new Date(sensors.timestamp).getTime() - earlierCount * maxGapMs).toISOString();
+    const { data: readings, error: readingsError } = await supabaseClient
+      .from('sensor_readings')
+      .select('recorded_at, temperature, humidity, gas, smoke, co, flame_detected, motion_detected')
+      .eq('location_id', locationId)
+      .gte('recorded_at', oldest)
+      .lt('recorded_at', sensors.timestamp)
+      .order('recorded_at', { ascending: false })
+      .limit(earlierCount);
+
+    if (readingsError) {
+      console.error('[Alert Manager] Error loading recent readings for alert rules:', readingsError);
+    }
+
+    earlier = (readings ?? []).map(({ recorded_at, flame_detected, motion_detected, ...values }: Record<string, unknown>) => ({
+      ...values,
+      flameDetected: Boolean(flame_detected),
+      motionDetected: Boolean(motion_detected),
+      timestamp: recorded_at,
+    }) as SensorReading);
+  }
+
+  return firingRules(rules, [sensors, ...earlier], maxGapMs);
+}
+
+/**
+ * Evaluate the latest sensor values of a single location and create, update
+ * or auto-clear its open alert accordingly.
+ *
+ * @param supabaseClient - Service role client
+ * @param location - Row from the locations table
+ * @returns The outcome of the evaluation and the affected alert, if any
+ */
+async function evaluateLocation(supabaseClient: SupabaseClient, location: MonitoredLocation): Promise<EvaluationResult> {
+  const { data: settingsRows, error: settingsError } = await supabaseClient
+    .from('location_alert_settings')
+    .select('location_id, sustain_readings, clear_cooldown_minutes, reporting_interval_seconds, rate_of_rise_per_minute')
+    .or(`location_id.is.null,location_id.eq.${location.id}`);
+
+  if (settingsError) {
+    console.error('[Alert Manager] Error loading alert settings, using defaults:', settingsError);
+  }
+
+  const settings = resolveAlertSettings(settingsRows ?? [], location.id);
+
+  // Fetch latest sensor data from ThingSpeak
+  const { data: sensorData, error: sensorError } = await supabaseClient.functions.invoke(
+    'thingspeak-service',
+    {
+      body: { action: 'latest', locationId: location.id }
+    }
+  );
+
+  console.log('[Alert Manager] Sensor data received:', sensorData);
+
+  if (sensorError || !sensorData?.success || !sensorData?.data) {
+    console.log('[Alert Manager] No sensor data available for location:', location.name);
+    await recordMissingReading(supabaseClient, location, settings.reportingIntervalSeconds);
+    return { outcome: 'no_data' };
+  }
+
+  const sensors: SensorReading = sensorData.data;
+
+  // Load global default thresholds and this location's overrides
+  const { data: thresholdRows, error: thresholdError } = await supabaseClient
+    .from('location_thresholds')
+    .select('location_id, sensor, warning_level, critical_level, clear_level')
+    .or(`location_id.is.null,location_id.eq.${location.id}`);
+
+  if (thresholdError) {
+    console.error('[Alert Manager] Error loading thresholds, using defaults:', thresholdError);
+  }
+
+  const thresholds = resolveThresholds(thresholdRows ?? [], location.id);
+
+  const temperatureRise = await fetchTemperatureRise(supabaseClient, location.id, sensors, settings.reportingIntervalSeconds);
+  const firedRules = await findFiringRules(supabaseClient, location.id, sensors, settings.reportingIntervalSeconds);
+
+  // Grade the readings: which sensors agree and by how much they exceed
+  // thresholds, then fold in the location's alert rules
+  const thresholdClassification = classifyReading(
+    {
+      temperature: sensors.temperature,
+      gas: sensors.gas,
+      flameDetected: sensors.flameDetected,
+      temperatureRise,
+    },
+    thresholds,
+    settings.rateOfRisePerMinute
+  );
+  const { alertType, severity, triggers } = applyRules(thresholdClassification, firedRules);
+
+  console.log('[Alert Manager] Classification:', { alertType, severity, triggers, temperatureRise });
+
+  // thingspeak-service has already set the values of faulty sensors to null
+  const faults = resolveSensorFaults(sensors.faults);
+  const hasFaults = hasSensorFaults(faults);
+
+  // Readings are clear only when every sensor is below its clear level, not
+  // merely below critical; in between an open alert stays open. A faulty
+  // sensor cannot vouch that conditions are normal either
+  const isClear = !hasFaults
+    && !sensors.flameDetected
+    && isBelowClearLevel(sensors.temperature, thresholds.temperature)
+    && isBelowClearLevel(sensors.gas, thresholds.gas);
+
+  const { data: state } = await supabaseClient
+    .from('location_alert_state')
+    .select('consecutive_breaches, last_reading_at, clear_since, offline_since')
+    .eq('location_id', location.id)
+    .maybeSingle();
+
+  // An old entry is the board's last word before it went quiet
+  const health = getDeviceHealth(sensors.timestamp, settings.reportingIntervalSeconds);
+  const isOffline = health === 'offline' || health === 'unknown';
+
+  // The schedule can run more often than the board posts; only a new
+  // ThingSpeak entry counts towards the sustain window
+  const isNewReading = !state?.last_reading_at
+    || new Date(state.last_reading_at).getTime() !== new Date(sensors.timestamp).getTime();
+
+  let consecutiveBreaches = state?.consecutive_breaches ?? 0;
+  let clearSince: string | null = state?.clear_since ?? null;
+
+  // Only threshold breaches count towards the location's sustain window
+  if (thresholdClassification.alertType) {
+    if (isNewReading) consecutiveBreaches++;
+  } else {
+    consecutiveBreaches = 0;
+  }
+  clearSince = !alertType && isClear ? clearSince ?? new Date().toISOString() : null;
+
+  const { error: stateError } = await supabaseClient
+    .from('location_alert_state')
+    .upsert({
+      location_id: location.id,
+      consecutive_breaches: consecutiveBreaches,
+      last_reading_at: sensors.timestamp || null,
+      clear_since: clearSince,
+      // location_alert_state drives locations.status (see _shared/location-status.ts)
+      reading_level: getReadingLevel(sensors, thresholds),
+      offline_since: isOffline ? state?.offline_since ?? new Date().toISOString() : null,
+      sensor_faults: faults,
+    }, { onConflict: 'location_id' });
+
+  if (stateError) {
+    console.error('[Alert Manager] Error saving alert state:', stateError);
+  }
+
+  await syncMaintenanceAlert(supabaseClient, location, 'device_offline', health === 'offline', health === 'online');
+  // The faults of an offline board's last entry are old news; device_offline covers it
+  await syncMaintenanceAlert(supabaseClient, location, 'sensor_fault', hasFaults && !isOffline, !hasFaults && health === 'online', sensors);
+
+  // Check if there's an active or in_queue alert for this location
+  const { data: existingAlert } = await supabaseClient
+    .from('alerts')
+    .select('*')
+    .eq('location_id', location.id)
+    .in('status', ['active', 'in_queue'])
+    .not('alert_type', 'in', `(${MAINTENANCE_ALERT_TYPES.join(',')})`)
+    .order('timestamp', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  // Create or update alert if threshold exceeded
+  if (alertType) {
+    if (existingAlert) {
+      // Never downgrade an open alert: keep the worst severity and type seen so
+      // far and flag the update as an escalation when readings have worsened
+      const nextSeverity = maxSeverity(existingAlert.severity as Severity, severity);
+      const escalated = nextSeverity !== existingAlert.severity;
+
+      const { data: updatedAlert, error: updateError } = await supabaseClient
+        .from('alerts')
+        .update({
+          alert_type: maxAlertType(existingAlert.alert_type, alertType),
+          severity: nextSeverity,
+          sensor_values: sensors,
+          timestamp: new Date().toISOString(),
+          // Readings are bad again; withdraw any "conditions normal" suggestion
+          auto_cleared_at: null,
+        })
+        .eq('id', existingAlert.id)
+        .select()
+        .single();
+
+      if (updateError) {
+        console.error('[Alert Manager] Error updating alert:', updateError);
+        throw updateError;
+      }
+
+      if (escalated) {
+        console.log('[Alert Manager] Alert escalated:', existingAlert.severity, '->', nextSeverity, updatedAlert);
+        await notifyResponders(supabaseClient, updatedAlert.id, 'severity_increased');
+        return { outcome: 'escalated', alert: updatedAlert, sensors };
+      }
+
+      console.log('[Alert Manager] Alert updated:', updatedAlert);
+      return { outcome: 'updated', alert: updatedAlert, sensors };
+    }
+
+    // A rule has its own sustain window, already checked against stored
+    // readings; until the thresholds have met the location's, only the rules
+    // decide the new alert
+    const isSustained = consecutiveBreaches >= settings.sustainReadings;
+    if (!isSustained && firedRules.length === 0) {
+      console.log('[Alert Manager] Threshold exceeded, waiting for sustain window:', consecutiveBreaches, '/', settings.sustainReadings);
+      return { outcome: 'pending', sensors };
+    }
+
+    const raised = isSustained
+      ? { alertType, severity }
+      : applyRules({ alertType: null, severity: null, triggers: [] }, firedRules);
+
+    // Create new alert, dispatched to the responding station
+    const stationId = await findRespondingStation(supabaseClient, location);
+    const { data: newAlert, error: alertError } = await supabaseClient
+      .from('alerts')
+      .insert({
+        location_id: location.id,
+        alert_type: raised.alertType,
+        severity: raised.severity,
+        status: 'active',
+        sensor_values: sensors,
+        timestamp: new Date().toISOString(),
+        assigned_station_id: stationId,
+        assigned_at: stationId ? new Date().toISOString() : null,
+      })
+      .select()
+      .single();
+
+    if (alertError) {
+      console.error('[Alert Manager] Error creating alert:', alertError);
+      throw alertError;
+    }
+
+    console.log('[Alert Manager] Alert created:', newAlert);
+    await notifyResponders(supabaseClient, newAlert.id, 'created');
+    return { outcome: 'created', alert: newAlert, sensors };
+  }
+
+  // Sensor values within normal range - auto-clear any existing open alert
+  // once readings have been clear for the cool-down period
+  if (existingAlert) {
+    const cooldownMs = settings.clearCooldownMinutes * 60 * 1000;
+    // A board that stopped posting cannot vouch that conditions are still normal
+    if (health !== 'online' || !clearSince || Date.now() - new Date(clearSince).getTime() < cooldownMs) {
+      console.log('[Alert Manager] Alert kept open during cool-down:', existingAlert.id, { clearSince, health });
+      return { outcome: 'cooling_down', alert: existingAlert, sensors };
+    }
+
+    if (existingAlert.status !== 'active') {
+      // An officer has taken ownership; only flag that conditions look normal
+      if (!existingAlert.auto_cleared_at) {
+        const { error: suggestError } = await supabaseClient
+          .from('alerts')
+          .update({
+            auto_cleared_at: new Date().toISOString(),
+            sensor_values: sensors,
+          })
+          .eq('id', existingAlert.id);
+
+        if (suggestError) {
+          console.error('[Alert Manager] Error flagging alert as clear:', suggestError);
+          throw suggestError;
+        }
+
+        console.log('[Alert Manager] Conditions normal for managed alert, left open:', existingAlert.id);
+      }
+      return { outcome: 'clear_suggested', alert: existingAlert, sensors };
+    }
+
+    const { error: clearError } = await supabaseClient
+      .from('alerts')
+      .update({
+        status: 'auto_cleared',
+        auto_cleared_at: new Date().toISOString(),
+        sensor_values: sensors,
+      })
+      .eq('id', existingAlert.id)
+      .eq('status', 'active');
+
+    if (clearError) {
+      console.error('[Alert Manager] Error auto-clearing alert:', clearError);
+    } else {
+      console.log('[Alert Manager] Alert auto-cleared - values returned to normal:', existingAlert.id);
+      return { outcome: 'auto_cleared', alert: existingAlert, sensors };
+    }
+  }
+
+  console.log('[Alert Manager] Sensor values within normal range');
+  return { outcome: 'normal', sensors };
+}
+
+/**
+ * Evaluate every location that has ThingSpeak credentials and record the run
+ * in alert_evaluation_runs.
+ *
+ * @param supabaseClient - Service role client
+ * @param triggeredBy - Free-form label of what started the run (e.g. "cron")
+ * @returns The finished run record
+ */
+async function evaluateAllLocations(supabaseClient: SupabaseClient, triggeredBy: string) {
+  const { data: run, error: runError } = await supabaseClient
+    .from('alert_evaluation_runs')
+    .insert({ triggered_by: triggeredBy })
+    .select()
+    .single();
+
+  if (runError) throw runError;
+
+  const counts = {
+    created: 0, updated: 0, escalated: 0, auto_cleared: 0, clear_suggested: 0,
+    pending: 0, cooling_down: 0, normal: 0, no_data: 0,
+  };
+  const errors: { location_id: string | null; message: string }[] = [];
+  let status = 'completed';
+  let locationsEvaluated = 0;
+
+  try {
+    const { data: locations, error: locationsError } = await supabaseClient
+      .from('locations')
+      .select('id, name, latitude, longitude, thingspeak_channel_id, location_credentials!inner(location_id)')
+      .not('thingspeak_channel_id', 'is', null);
+
+    if (locationsError) throw locationsError;
+
+    // Evaluate sequentially so one slow channel cannot flood ThingSpeak
+    for (const location of locations || []) {
+      try {
+        const result = await evaluateLocation(supabaseClient, location);
+        counts[result.outcome]++;
+      } catch (error) {
+        console.error('[Alert Manager] Error evaluating location:', location.name, error);
+        errors.push({ location_id: location.id, message: getErrorMessage(error) });
+      }
+      locationsEvaluated++;
+    }
+  } catch (error) {
+    status = 'failed';
+    errors.push({ location_id: null, message: getErrorMessage(error) });
+  }
+
+  const { data: finishedRun, error: finishError } = await supabaseClient
+    .from('alert_evaluation_runs')
+    .update({
+      status,
+      finished_at: new Date().toISOString(),
+      locations_evaluated: locationsEvaluated,
+      alerts_created: counts.created,
+      alerts_updated: counts.updated,
+      alerts_escalated: counts.escalated,
+      alerts_auto_cleared: counts.auto_cleared,
+      alerts_pending: counts.pending,
+      locations_without_data: counts.no_data,
+      errors,
+    })
+    .eq('id', run.id)
+    .select()
+    .single();
+
+  if (finishError) throw finishError;
+
+  console.log('[Alert Manager] Evaluation run finished:', finishedRun);
+  return finishedRun;
+}
+
+/**
+ * Climb the escalation chain of every open alert nobody has acknowledged yet.
+ *
+ * @param supabaseClient - Service role client
+ * @returns How many alerts were escalated
+ */
+async function escalateUnacknowledgedAlerts(supabaseClient: SupabaseClient) {
+  const { data: alerts, error: alertsError } = await supabaseClient
+    .from('alerts')
+    .select('id, status, escalation_started_at, escalation_level, assigned_station_id, supporting_station_ids, locations(region, latitude, longitude)')
+    .in('status', ['active', 'in_queue'])
+    .not('alert_type', 'in', `(${MAINTENANCE_ALERT_TYPES.join(',')})`)
+    .is('acknowledged_at', null);
+
+  if (alertsError) throw alertsError;
+  if (!alerts || alerts.length === 0) return { escalated: 0 };
+
+  const { data: policies, error: policiesError } = await supabaseClient
+    .from('escalation_policies')
+    .select('region, chain');
+
+  if (policiesError) throw policiesError;
+
+  const { data: stations, error: stationsError } = await supabaseClient
+    .from('fire_stations')
+    .select('id, latitude, longitude, available_units, coverage_radius_km');
+
+  if (stationsError) throw stationsError;
+
+  let escalated = 0;
+
+  for (const alert of alerts) {
+    const chain = resolveEscalationChain(policies ?? [], alert.locations?.region);
+    const level = dueEscalationLevel(chain, alert.escalation_started_at);
+    if (level <= alert.escalation_level) continue;
+
+    const tier = chain[level - 1];
+    const supportingStationIds: string[] = [...(alert.supporting_station_ids ?? [])];
+
+    // Bring in neighbours once, when the alert passes that tier
+    const passesNeighbourTier = chain
+      .slice(alert.escalation_level, level)
+      .some((passed) => passed.target === 'neighbouring_stations');
+
+    if (passesNeighbourTier && alert.locations) {
+      const neighbours = rankStations(stations ?? [], Number(alert.locations.latitude), Number(alert.locations.longitude))
+        .map((match) => match.station.id)
+        .filter((id) => id !== alert.assigned_station_id && !supportingStationIds.includes(id))
+        .slice(0, NEIGHBOUR_STATION_COUNT);
+      supportingStationIds.push(...neighbours);
+    }
+
+    // Skip the alert if it was acknowledged or escalated since it was loaded
+    const { data: updatedAlert, error: updateError } = await supabaseClient
+      .from('alerts')
+      .update({
+        escalation_level: level,
+        escalation_target: tier.target,
+        notification_level: tier.notificationLevel,
+        escalated_at: new Date().toISOString(),
+        supporting_station_ids: supportingStationIds,
+      })
+      .eq('id', alert.id)
+      .eq('escalation_level', alert.escalation_level)
+      .is('acknowledged_at', null)
+      .select('id')
+      .maybeSingle();
+
+    if (updateError) {
+      console.error('[Alert Manager] Error escalating alert:', alert.id, updateError);
+      continue;
+    }
+
+    if (updatedAlert) {
+      escalated++;
+      console.log('[Alert Manager] Alert escalated:', { alertId: alert.id, level, target: tier.target });
+      await notifyResponders(supabaseClient, alert.id, 'escalated');
+    }
+  }
+
+  return { escalated };
+}
+
+function getErrorMessage(error: unknown) {
+  if (error instanceof Error) {
+    return error.message;
+  } else if (error && typeof error === 'object' && 'message' in error) {
+    return String(error.message);
+  } else if (typeof error === 'string') {
+    return error;
+  }
+  return 'Unknown error';
+}
+
+/**
+ * Resolve the caller from the request's JWT and require fire authority staff.
+ *
+ * @param supabaseClient - Service role client
+ * @param req - Incoming request
+ * @param deniedMessage - Error message for callers below officer
+ * @returns The caller's id and highest role
+ */
+async function authenticateStaff(supabaseClient: SupabaseClient, req: Request, deniedMessage: string): Promise<StaffUser> {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) throw new Error('No authorization header');
+
+  const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
+  if (!user) throw new Error('Unauthorized');
+
+  const { data: roles, error: rolesError } = await supabaseClient
+    .from('user_roles')
+    .select('role')
+    .eq('user_id', user.id);
+
+  const role = highestRole((roles ?? []).map((row: { role: string }) => row.role));
+  if (rolesError || !isStaffRole(role)) throw new Error(deniedMessage);
+
+  return { id: user.id, role };
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -24,199 +846,282 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    const { action, locationId, alertId, status } = await req.json();
+    const { action, locationId, alertId, status, triggeredBy, stationId, officerId, step } = await req.json();
 
-    console.log('[Alert Manager] Request:', { action, locationId, alertId, status });
+    console.log('[Alert Manager] Request:', { action, locationId, alertId, status, stationId, officerId, step });
 
     if (action === 'evaluate') {
       // Fetch location data
       const { data: location, error: locationError } = await supabaseClient
         .from('locations')
-        .select('*')
+        .select('id, name, latitude, longitude, thingspeak_channel_id')
         .eq('id', locationId)
         .single();
 
       if (locationError) throw locationError;
 
-      // Fetch latest sensor data from ThingSpeak
-      const { data: sensorData, error: sensorError } = await supabaseClient.functions.invoke(
-        'thingspeak-service',
-        {
-          body: { action: 'latest', location }
-        }
-      );
+      const result = await evaluateLocation(supabaseClient, location);
 
-      console.log('[Alert Manager] Sensor data received:', sensorData);
-
-      if (sensorError || !sensorData?.success || !sensorData?.data) {
-        console.log('[Alert Manager] No sensor data available for location:', location.name);
+      if (result.outcome === 'created' || result.outcome === 'updated' || result.outcome === 'escalated') {
         return new Response(
-          JSON.stringify({ success: true, message: 'No sensor data available' }),
+          JSON.stringify({
+            success: true,
+            alert: result.alert,
+            created: result.outcome === 'created',
+            updated: result.outcome !== 'created',
+            escalated: result.outcome === 'escalated',
+          }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
-      const sensors = sensorData.data;
-      
-      // Define thresholds for alerts
-      const thresholds = {
-        temperature: { critical: 40 },
-        gas: { critical: 1000 },
-        flame: { detected: 'FLAME' },
-        pir: { detected: '0' } // 0 = motion detected, 1 = no motion
-      };
-
-      let alertType = null;
-      let severity = 'critical';
-      
-      // Check for fire (flame detected when value is "FLAME")
-      if (sensors.flame === 'FLAME') {
-        alertType = 'fire';
-        severity = 'critical';
-      }
-      // Check for gas leak
-      else if (sensors.gas > thresholds.gas.critical) {
-        alertType = 'gas_leak';
-        severity = 'critical';
-      }
-      // Check for high temperature
-      else if (sensors.temperature > thresholds.temperature.critical) {
-        alertType = 'temperature';
-        severity = 'critical';
-      }
-
-      // Create or update alert if threshold exceeded
-      if (alertType) {
-        // Check if there's an active or in_queue alert for this location
-        const { data: existingAlert } = await supabaseClient
-          .from('alerts')
-          .select('*')
-          .eq('location_id', locationId)
-          .in('status', ['active', 'in_queue'])
-          .order('timestamp', { ascending: false })
-          .limit(1)
-          .single();
-
-        if (existingAlert) {
-          // Update existing alert
-          const { data: updatedAlert, error: updateError } = await supabaseClient
-            .from('alerts')
-            .update({
-              alert_type: alertType,
-              severity,
-              sensor_values: sensors,
-              timestamp: new Date().toISOString(),
-            })
-            .eq('id', existingAlert.id)
-            .select()
-            .single();
-
-          if (updateError) {
-            console.error('[Alert Manager] Error updating alert:', updateError);
-            throw updateError;
-          }
-
-          console.log('[Alert Manager] Alert updated:', updatedAlert);
-          return new Response(
-            JSON.stringify({ success: true, alert: updatedAlert, updated: true }),
-            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        } else {
-          // Create new alert
-          const { data: newAlert, error: alertError } = await supabaseClient
-            .from('alerts')
-            .insert({
-              location_id: locationId,
-              alert_type: alertType,
-              severity,
-              status: 'active',
-              sensor_values: sensors,
-              timestamp: new Date().toISOString(),
-            })
-            .select()
-            .single();
-
-          if (alertError) {
-            console.error('[Alert Manager] Error creating alert:', alertError);
-            throw alertError;
-          }
-
-          console.log('[Alert Manager] Alert created:', newAlert);
-          return new Response(
-            JSON.stringify({ success: true, alert: newAlert, created: true }),
-            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-          );
-        }
-      } else {
-        // Sensor values within normal range - auto-resolve any existing active alerts
-        const { data: existingAlert } = await supabaseClient
-          .from('alerts')
-          .select('*')
-          .eq('location_id', locationId)
-          .in('status', ['active', 'in_queue'])
-          .order('timestamp', { ascending: false })
-          .limit(1)
-          .maybeSingle();
+      if (result.outcome === 'pending') {
+        return new Response(
+          JSON.stringify({ success: true, pending: true, message: 'Threshold exceeded; waiting for the reading to be sustained', sensors: result.sensors }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-        if (existingAlert) {
-          const { error: resolveError } = await supabaseClient
-            .from('alerts')
-            .update({
-              status: 'resolved',
-              resolved_at: new Date().toISOString(),
-              sensor_values: sensors,
-            })
-            .eq('id', existingAlert.id);
-
-          if (resolveError) {
-            console.error('[Alert Manager] Error auto-resolving alert:', resolveError);
-          } else {
-            console.log('[Alert Manager] Alert auto-resolved - values returned to normal:', existingAlert.id);
-          }
-        }
+      if (result.outcome === 'cooling_down') {
+        return new Response(
+          JSON.stringify({ success: true, alert: result.alert, message: 'Open alert kept until readings stay clear for the cool-down period', sensors: result.sensors }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
 
-        console.log('[Alert Manager] Sensor values within normal range');
+      if (result.outcome === 'no_data') {
         return new Response(
-          JSON.stringify({ success: true, message: 'All sensors within normal range', sensors }),
+          JSON.stringify({ success: true, message: 'No sensor data available' }),
           { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
+
+      return new Response(
+        JSON.stringify({ success: true, message: 'All sensors within normal range', sensors: result.sensors }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
     }
 
-    if (action === 'update') {
-      // Update alert status - only authority users can do this
+    if (action === 'evaluate_all') {
+      // Only the scheduler (which holds the service role key) may run a sweep
       const authHeader = req.headers.get('Authorization');
-      if (!authHeader) throw new Error('No authorization header');
+      if (authHeader?.replace('Bearer ', '') !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+        throw new Error('Unauthorized');
+      }
 
-      const { data: { user } } = await supabaseClient.auth.getUser(authHeader.replace('Bearer ', ''));
-      if (!user) throw new Error('Unauthorized');
+      const run = await evaluateAllLocations(supabaseClient, triggeredBy ?? 'manual');
 
-      // Check if user is an authority user
-      const { data: profile, error: profileError } = await supabaseClient
-        .from('profiles')
-        .select('user_type')
-        .eq('user_id', user.id)
+      return new Response(
+        JSON.stringify({ success: true, run }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (action === 'escalate') {
+      // Only the scheduler (which holds the service role key) may escalate
+      const authHeader = req.headers.get('Authorization');
+      if (authHeader?.replace('Bearer ', '') !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+        throw new Error('Unauthorized');
+      }
+
+      const result = await escalateUnacknowledgedAlerts(supabaseClient);
+
+      return new Response(
+        JSON.stringify({ success: true, ...result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (action === 'transition') {
+      // Every human status change goes through here
+      const user = await authenticateStaff(supabaseClient, req, 'Only fire authority staff can update alert status');
+
+      if (!isAlertStatus(status)) throw new Error(`Unknown alert status: ${status}`);
+
+      const { data: alert, error: alertError } = await supabaseClient
+        .from('alerts')
+        .select('id, status')
+        .eq('id', alertId)
         .single();
 
-      if (profileError || profile?.user_type !== 'authority') {
-        throw new Error('Only authority users can update alert status');
+      if (alertError) throw alertError;
+
+      if (!canTransition(alert.status, status)) {
+        throw new Error(`Cannot move an alert from ${alert.status} to ${status}`);
       }
 
-      const { error: updateError } = await supabaseClient
+      const isClosing = CLOSED_STATUSES.includes(status);
+      // Reopened, or handed back from the crew: it needs acknowledging again
+      const isReopening = status === 'active' || (status === 'in_queue' && CLOSED_STATUSES.includes(alert.status));
+
+      // Only apply the change if nobody else moved the alert in the meantime
+      const { data: updatedAlert, error: updateError } = await supabaseClient
         .from('alerts')
         .update({
           status,
-          resolved_at: status !== 'active' ? new Date().toISOString() : null,
-          resolved_by: status !== 'active' ? user.id : null,
+          resolved_at: isClosing ? new Date().toISOString() : null,
+          resolved_by: isClosing ? user.id : null,
+          ...(isReopening ? {
+            acknowledged_at: null,
+            acknowledged_by: null,
+            en_route_at: null,
+            on_scene_at: null,
+            escalation_started_at: new Date().toISOString(),
+          } : {}),
+          // Attributes the change in alert_events; the service role has no auth.uid()
+          changed_by: user.id,
         })
-        .eq('id', alertId);
+        .eq('id', alertId)
+        .eq('status', alert.status)
+        .select()
+        .maybeSingle();
 
       if (updateError) throw updateError;
+      if (!updatedAlert) throw new Error('The alert was changed by someone else; reload and try again');
 
-      console.log('[Alert Manager] Alert updated:', { alertId, status });
+      console.log('[Alert Manager] Alert status changed:', { alertId, from: alert.status, to: status });
 
       return new Response(
-        JSON.stringify({ success: true, message: 'Alert updated successfully' }),
+        JSON.stringify({ success: true, alert: updatedAlert, message: 'Alert updated successfully' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (action === 'assign') {
+      const user = await authenticateStaff(supabaseClient, req, 'Only fire authority staff can assign alerts');
+
+      const { data: alert, error: alertError } = await supabaseClient
+        .from('alerts')
+        .select('id, status, locations(latitude, longitude)')
+        .eq('id', alertId)
+        .single();
+
+      if (alertError) throw alertError;
+      if (CLOSED_STATUSES.includes(alert.status)) throw new Error('Closed alerts cannot be assigned');
+
+      let assignedStationId: string | null = stationId ?? null;
+
+      if (officerId) {
+        const { data: membership } = await supabaseClient
+          .from('fire_station_members')
+          .select('station_id')
+          .eq('user_id', officerId)
+          .maybeSingle();
+
+        if (!membership) throw new Error('That officer is not assigned to a fire station');
+        if (assignedStationId && membership.station_id !== assignedStationId) {
+          throw new Error('That officer belongs to a different station');
+        }
+        assignedStationId = membership.station_id;
+      }
+
+      if (!assignedStationId) {
+        assignedStationId = await findRespondingStation(supabaseClient, alert.locations);
+        if (!assignedStationId) throw new Error('No fire station is available to respond');
+      }
+
+      // A new crew starts the dispatch steps and the escalation clock over
+      const { data: updatedAlert, error: updateError } = await supabaseClient
+        .from('alerts')
+        .update({
+          assigned_station_id: assignedStationId,
+          assigned_to: officerId ?? null,
+          assigned_at: new Date().toISOString(),
+          escalation_started_at: new Date().toISOString(),
+          acknowledged_at: null,
+          acknowledged_by: null,
+          en_route_at: null,
+          on_scene_at: null,
+          changed_by: user.id,
+        })
+        .eq('id', alertId)
+        .select()
+        .single();
+
+      if (updateError) throw updateError;
+
+      console.log('[Alert Manager] Alert assigned:', { alertId, stationId: assignedStationId, officerId });
+
+      return new Response(
+        JSON.stringify({ success: true, alert: updatedAlert, message: 'Alert assigned' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (action === 'progress') {
+      const user = await authenticateStaff(supabaseClient, req, 'Only fire authority staff can report dispatch progress');
+
+      if (!isDispatchStep(step)) throw new Error(`Unknown dispatch step: ${step}`);
+
+      const { data: alert, error: alertError } = await supabaseClient
+        .from('alerts')
+        .select('id, status, assigned_station_id, assigned_to, supporting_station_ids, acknowledged_at, en_route_at, on_scene_at')
+        .eq('id', alertId)
+        .single();
+
+      if (alertError) throw alertError;
+      if (CLOSED_STATUSES.includes(alert.status)) throw new Error('The alert is already closed');
+      if (!alert.assigned_station_id && !alert.assigned_to) throw new Error('Assign the alert to a station first');
+
+      // The named officer reports progress, or anyone at the assigned station
+      // while no officer is named; in-charges may report for a crew. Until
+      // someone acknowledges, officers at supporting stations may take it on.
+      const { data: membership } = await supabaseClient
+        .from('fire_station_members')
+        .select('station_id')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const isSupporting = step === 'acknowledged' && !!membership &&
+        (alert.supporting_station_ids ?? []).includes(membership.station_id);
+      const isResponder = alert.assigned_to
+        ? alert.assigned_to === user.id
+        : membership?.station_id === alert.assigned_station_id;
+
+      if (!isResponder && !isSupporting && !hasMinRole(user.role, 'incharge')) {
+        throw new Error('This alert is assigned to another crew');
+      }
+
+      const expected = nextDispatchStep(alert);
+      if (step !== expected) {
+        throw new Error(expected ? `Report ${DISPATCH_STEP_LABELS[expected]} first` : 'The crew is already on scene');
+      }
+
+      const column = DISPATCH_STEP_COLUMNS[step];
+      const changes: Record<string, unknown> = {
+        [column]: new Date().toISOString(),
+        changed_by: user.id,
+      };
+
+      if (step === 'acknowledged') {
+        changes.acknowledged_by = user.id;
+        // Claim the alert so other officers at the station do not respond too
+        if (!alert.assigned_to && isResponder) changes.assigned_to = user.id;
+        // A supporting station that acknowledges first takes over the response
+        if (!isResponder && isSupporting) {
+          changes.assigned_station_id = membership.station_id;
+          changes.assigned_to = user.id;
+        }
+        // Acknowledging takes ownership, the same as moving it into the queue
+        if (alert.status === 'active') changes.status = 'in_queue';
+      }
+
+      const { data: updatedAlert, error: updateError } = await supabaseClient
+        .from('alerts')
+        .update(changes)
+        .eq('id', alertId)
+        .eq('status', alert.status)
+        .is(column, null)
+        .select()
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      if (!updatedAlert) throw new Error('The alert was changed by someone else; reload and try again');
+
+      console.log('[Alert Manager] Dispatch progress:', { alertId, step, userId: user.id });
+
+      return new Response(
+        JSON.stringify({ success: true, alert: updatedAlert, message: `Marked ${DISPATCH_STEP_LABELS[step]}` }),
         { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
@@ -224,16 +1129,8 @@ serve(async (req) => {
     throw new Error('Invalid action');
   } catch (error) {
     console.error('[Alert Manager] Error:', error);
-    let message = 'Unknown error';
-    if (error instanceof Error) {
-      message = error.message;
-    } else if (error && typeof error === 'object' && 'message' in error) {
-      message = String(error.message);
-    } else if (typeof error === 'string') {
-      message = error;
-    }
     return new Response(
-      JSON.stringify({ success: false, error: message }),
+      JSON.stringify({ success: false, error: getErrorMessage(error) }),
       { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
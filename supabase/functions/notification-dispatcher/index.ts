@@ -0,0 +1,338 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hasMinRole, highestRole, isStaffRole, type AppRole } from "../_shared/roles.ts";
+import { ALERT_STATUS_LABELS, type AlertStatus } from "../_shared/alert-status.ts";
+import { ESCALATION_TARGET_LABELS, type EscalationTarget } from "../_shared/escalation.ts";
+import { isMaintenanceAlert } from "../_shared/device-health.ts";
+import {
+  enabledChannels,
+  isNotificationEvent,
+  meetsNotificationLevel,
+  NOTIFICATION_EVENT_LABELS,
+  type ChannelAddress,
+  type NotificationEvent,
+} from "../_shared/notifications.ts";
+import { ExpiredSubscriptionError, getProvider, type OutboundMessage } from "./providers.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Notification Dispatcher
+ *
+ * Tells people about an alert on the channels they chose in
+ * notification_preferences and by Web Push to the devices they subscribed in
+ * push_subscriptions (see _shared/notifications.ts). Called by
+ * alert-manager, with the service role, when it raises an alert, escalates it
+ * or its severity increases. Providers are picked per channel in providers.ts.
+ *
+ * Who is told:
+ * - officers of the assigned station and of any supporting stations, and the
+ *   assigned officer
+ * - in-charges (and admins) when an alert escalates to in-charges, or when no
+ *   station could take it
+ * - admins when an alert escalates to administrators
+ * - followers of the alert's location (location_subscriptions) when it is
+ *   raised or its severity increases; escalation is a matter for responders
+ *
+ * Maintenance alerts (an offline board, a faulty sensor) only go to the staff
+ * of the station that looks after the location: no followers, and nobody else
+ * when there is no such station.
+ *
+ * Each person only hears about alerts at or above their chosen notification
+ * level. Webhooks are only sent for staff, so civilians cannot make the
+ * server post to an address of their choosing. Every attempt, sent or
+ * failed, is logged in notification_deliveries; push subscriptions the push
+ * service reports as gone are deleted.
+ */
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+interface NotifiedAlert {
+  id: string;
+  location_id: string;
+  alert_type: string;
+  severity: string;
+  status: string;
+  notification_level: string;
+  escalation_target: string | null;
+  assigned_station_id: string | null;
+  assigned_to: string | null;
+  supporting_station_ids: string[] | null;
+  locations: { name: string; region: string } | null;
+}
+
+/**
+ * Work out who should hear about an alert.
+ *
+ * @param supabaseClient - Service role client
+ * @param alert - The alert
+ * @param event - What happened to it
+ * @returns User ids of the recipients
+ */
+async function resolveRecipients(
+  supabaseClient: SupabaseClient,
+  alert: NotifiedAlert,
+  event: NotificationEvent
+): Promise<string[]> {
+  const userIds = new Set<string>();
+  if (alert.assigned_to) userIds.add(alert.assigned_to);
+
+  const isMaintenance = isMaintenanceAlert(alert.alert_type);
+  const stationIds = [alert.assigned_station_id, ...(isMaintenance ? [] : alert.supporting_station_ids ?? [])]
+    .filter(Boolean);
+  if (stationIds.length > 0) {
+    const { data: members, error } = await supabaseClient
+      .from('fire_station_members')
+      .select('user_id')
+      .in('station_id', stationIds);
+
+    if (error) throw error;
+    for (const member of members ?? []) userIds.add(member.user_id);
+  }
+
+  if (isMaintenance) return [...userIds];
+
+  const hasCrew = userIds.size > 0;
+
+  if (event !== 'escalated') {
+    const { data: followers, error } = await supabaseClient
+      .from('location_subscriptions')
+      .select('user_id')
+      .eq('location_id', alert.location_id);
+
+    if (error) throw error;
+    for (const follower of followers ?? []) userIds.add(follower.user_id);
+  }
+
+  let minRole: AppRole | null = null;
+  if (event === 'escalated' && alert.escalation_target === 'admin') {
+    minRole = 'admin';
+  } else if ((event === 'escalated' && alert.escalation_target === 'incharge') || !hasCrew) {
+    minRole = 'incharge';
+  }
+
+  if (minRole) {
+    const { data: roles, error } = await supabaseClient
+      .from('user_roles')
+      .select('user_id, role');
+
+    if (error) throw error;
+
+    const rolesByUser = new Map<string, string[]>();
+    for (const row of roles ?? []) {
+      rolesByUser.set(row.user_id, [...(rolesByUser.get(row.user_id) ?? []), row.role]);
+    }
+    for (const [userId, userRoles] of rolesByUser) {
+      if (hasMinRole(highestRole(userRoles), minRole)) userIds.add(userId);
+    }
+  }
+
+  return [...userIds];
+}
+
+/**
+ * Render an alert for the outbound channels.
+ *
+ * @param alert - The alert
+ * @param event - What happened to it
+ */
+function buildMessage(alert: NotifiedAlert, event: NotificationEvent): OutboundMessage {
+  const locationName = alert.locations?.name ?? 'Unknown location';
+  const alertType = alert.alert_type.replace(/_/g, ' ');
+  const escalationTarget = ESCALATION_TARGET_LABELS[alert.escalation_target as EscalationTarget];
+  const levelPrefix = alert.notification_level === 'standard' ? '' : `[${alert.notification_level.toUpperCase()}] `;
+  const appUrl = Deno.env.get('APP_URL');
+  const path = `/alert/${alert.id}`;
+  const url = appUrl ? `${appUrl.replace(/\/$/, '')}${path}` : null;
+
+  const lines = [
+    `${NOTIFICATION_EVENT_LABELS[event]}: ${alertType} at ${locationName}`,
+    `Severity: ${alert.severity}`,
+    `Status: ${ALERT_STATUS_LABELS[alert.status as AlertStatus] ?? alert.status}`,
+  ];
+  if (event === 'escalated' && escalationTarget) {
+    lines.push(`Not acknowledged; escalated to ${escalationTarget.toLowerCase()}`);
+  }
+  const summary = lines.slice(1).join(' · ');
+  if (url) lines.push(url);
+
+  return {
+    subject: `${levelPrefix}${alertType.toUpperCase()} at ${locationName}`,
+    text: lines.join('\n'),
+    summary,
+    path,
+    tag: alert.id,
+    notificationLevel: alert.notification_level,
+    payload: {
+      event,
+      alert: {
+        id: alert.id,
+        type: alert.alert_type,
+        severity: alert.severity,
+        status: alert.status,
+        notificationLevel: alert.notification_level,
+        escalationTarget: alert.escalation_target,
+        location: alert.locations,
+      },
+      url,
+    },
+  };
+}
+
+/**
+ * Send an alert to everyone who should hear about it and log the deliveries.
+ *
+ * @param supabaseClient - Service role client
+ * @param alertId - The alert
+ * @param event - What happened to it
+ * @returns How many deliveries were sent and how many failed
+ */
+async function dispatchAlert(supabaseClient: SupabaseClient, alertId: string, event: NotificationEvent) {
+  const { data: alert, error: alertError } = await supabaseClient
+    .from('alerts')
+    .select('id, location_id, alert_type, severity, status, notification_level, escalation_target, assigned_station_id, assigned_to, supporting_station_ids, locations(name, region)')
+    .eq('id', alertId)
+    .single();
+
+  if (alertError) throw alertError;
+
+  const recipients = await resolveRecipients(supabaseClient, alert, event);
+  if (recipients.length === 0) return { sent: 0, failed: 0 };
+
+  const { data: preferences, error: preferencesError } = await supabaseClient
+    .from('notification_preferences')
+    .select('user_id, email_enabled, email_address, sms_enabled, sms_number, webhook_enabled, webhook_url, min_level')
+    .in('user_id', recipients);
+
+  if (preferencesError) throw preferencesError;
+
+  const { data: subscriptions, error: subscriptionsError } = await supabaseClient
+    .from('push_subscriptions')
+    .select('user_id, endpoint, p256dh, auth')
+    .in('user_id', recipients);
+
+  if (subscriptionsError) throw subscriptionsError;
+
+  const { data: recipientRoles, error: rolesError } = await supabaseClient
+    .from('user_roles')
+    .select('user_id, role')
+    .in('user_id', recipients);
+
+  if (rolesError) throw rolesError;
+
+  const message = buildMessage(alert, event);
+  const deliveries: Record<string, unknown>[] = [];
+
+  // Send one at a time so a slow provider cannot fan out into a burst
+  for (const userId of recipients) {
+    const preference = (preferences ?? []).find((row: { user_id: string }) => row.user_id === userId);
+    // Without saved preferences only push (if subscribed) applies, at every level
+    if (preference && !meetsNotificationLevel(alert.notification_level, preference.min_level)) continue;
+
+    const isStaff = isStaffRole(highestRole(
+      (recipientRoles ?? [])
+        .filter((row: { user_id: string }) => row.user_id === userId)
+        .map((row: { role: string }) => row.role)
+    ));
+
+    const addresses: ChannelAddress[] = [
+      ...(preference ? enabledChannels(preference) : [])
+        .filter((address) => address.channel !== 'webhook' || isStaff),
+      ...(subscriptions ?? [])
+        .filter((subscription: { user_id: string }) => subscription.user_id === userId)
+        .map((subscription: { endpoint: string; p256dh: string; auth: string }) => ({
+          channel: 'push' as const,
+          recipient: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        })),
+    ];
+
+    for (const address of addresses) {
+      const { channel, recipient } = address;
+      let provider = 'unknown';
+      try {
+        const sender = getProvider(channel);
+        provider = sender.name;
+        await sender.send(address, message);
+        deliveries.push({ provider, status: 'sent', error: null, channel, recipient, user_id: userId });
+      } catch (error) {
+        console.error('[Notification Dispatcher] Delivery failed:', { channel, recipient }, error);
+        deliveries.push({ provider, status: 'failed', error: getErrorMessage(error), channel, recipient, user_id: userId });
+
+        if (error instanceof ExpiredSubscriptionError) {
+          await supabaseClient.from('push_subscriptions').delete().eq('endpoint', recipient);
+        }
+      }
+    }
+  }
+
+  if (deliveries.length > 0) {
+    const { error: logError } = await supabaseClient
+      .from('notification_deliveries')
+      .insert(deliveries.map((delivery) => ({
+        ...delivery,
+        alert_id: alert.id,
+        event,
+        notification_level: alert.notification_level,
+      })));
+
+    if (logError) console.error('[Notification Dispatcher] Error logging deliveries:', logError);
+  }
+
+  const sent = deliveries.filter((delivery) => delivery.status === 'sent').length;
+  console.log('[Notification Dispatcher] Dispatched:', { alertId, event, sent, failed: deliveries.length - sent });
+  return { sent, failed: deliveries.length - sent };
+}
+
+function getErrorMessage(error: unknown) {
+  if (error instanceof Error) {
+    return error.message;
+  } else if (error && typeof error === 'object' && 'message' in error) {
+    return String(error.message);
+  } else if (typeof error === 'string') {
+    return error;
+  }
+  return 'Unknown error';
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Only alert-manager (which holds the service role key) may send
+    const authHeader = req.headers.get('Authorization');
+    if (authHeader?.replace('Bearer ', '') !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      throw new Error('Unauthorized');
+    }
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { alertId, event } = await req.json();
+
+    console.log('[Notification Dispatcher] Request:', { alertId, event });
+
+    if (!alertId) throw new Error('alertId is required');
+    if (!isNotificationEvent(event)) throw new Error(`Unknown notification event: ${event}`);
+
+    const result = await dispatchAlert(supabaseClient, alertId, event);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  } catch (error) {
+    console.error('[Notification Dispatcher] Error:', error);
+    return new Response(
+      JSON.stringify({ success: false, error: getErrorMessage(error) }),
+      { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,296 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import webpush from "npm:web-push@3.6.7";
+import type { ChannelAddress, NotificationChannel } from "../_shared/notifications.ts";
+
+/**
+ * Notification Providers
+ *
+ * One provider sends one channel. Which provider a channel uses is picked by
+ * an environment variable, so a real service can be swapped for another or
+ * for the stub that only logs:
+ * - NOTIFY_EMAIL_PROVIDER: smtp | stub (SMTP_HOST, SMTP_PORT, SMTP_USERNAME,
+ *   SMTP_PASSWORD, SMTP_FROM)
+ * - NOTIFY_SMS_PROVIDER: twilio | stub (TWILIO_ACCOUNT_SID,
+ *   TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER)
+ * - NOTIFY_WEBHOOK_PROVIDER: http | stub (optional WEBHOOK_SIGNING_SECRET;
+ *   optional WEBHOOK_ALLOWED_HOSTS, a comma-separated list of the only hosts
+ *   webhooks may be sent to)
+ * - NOTIFY_PUSH_PROVIDER: webpush | stub (VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY,
+ *   VAPID_SUBJECT; the web app needs the same public key in
+ *   VITE_VAPID_PUBLIC_KEY)
+ *
+ * Every channel defaults to the stub, so a local or test setup never sends
+ * anything until a provider is configured.
+ */
+
+export interface OutboundMessage {
+  subject: string;
+  text: string;
+  /** One line for short channels (push) */
+  summary: string;
+  /** Where the alert opens in the web app, e.g. /alert/:id */
+  path: string;
+  /** Identifies the alert, so a later push about it replaces the earlier one */
+  tag: string;
+  notificationLevel: string;
+  /** Machine-readable form of the message, posted to webhooks */
+  payload: Record<string, unknown>;
+}
+
+export interface NotificationProvider {
+  /** Recorded in notification_deliveries.provider */
+  name: string;
+  /** Resolves once the provider accepted the message; throws otherwise */
+  send(address: ChannelAddress, message: OutboundMessage): Promise<void>;
+}
+
+/** The push service no longer knows the subscription; it should be deleted */
+export class ExpiredSubscriptionError extends Error {
+  constructor() {
+    super('Push subscription has expired');
+    this.name = 'ExpiredSubscriptionError';
+  }
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+}
+
+function stubProvider(channel: NotificationChannel): NotificationProvider {
+  return {
+    name: 'stub',
+    send({ recipient }, message) {
+      console.log(`[Notification Dispatcher] Stub ${channel} to ${recipient}:`, message.subject);
+      return Promise.resolve();
+    },
+  };
+}
+
+function smtpProvider(): NotificationProvider {
+  return {
+    name: 'smtp',
+    async send({ recipient }, message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname: requireEnv('SMTP_HOST'),
+          port: Number(Deno.env.get('SMTP_PORT') ?? 465),
+          tls: true,
+          auth: {
+            username: requireEnv('SMTP_USERNAME'),
+            password: requireEnv('SMTP_PASSWORD'),
+          },
+        },
+      });
+
+      try {
+        await client.send({
+          from: requireEnv('SMTP_FROM'),
+          to: recipient,
+          subject: message.subject,
+          content: message.text,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+}
+
+function twilioProvider(): NotificationProvider {
+  return {
+    name: 'twilio',
+    async send({ recipient }, message) {
+      const accountSid = requireEnv('TWILIO_ACCOUNT_SID');
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${accountSid}:${requireEnv('TWILIO_AUTH_TOKEN')}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          From: requireEnv('TWILIO_FROM_NUMBER'),
+          To: recipient,
+          Body: `${message.subject}\n${message.text}`,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+/** Hex HMAC-SHA256 of the body, so receivers can check the request came from us */
+async function signPayload(secret: string, body: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Whether an IPv4 address is loopback, private, link-local or otherwise not on the internet */
+function isPrivateIPv4(address: string): boolean {
+  const octets = address.split('.').map(Number);
+  if (octets.length !== 4 || octets.some((octet) => !Number.isInteger(octet) || octet < 0 || octet > 255)) return true;
+
+  const [a, b] = octets;
+  return a === 0
+    || a === 10
+    || a === 127
+    || (a === 100 && b >= 64 && b <= 127)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && octets[2] === 0)
+    || (a === 198 && (b === 18 || b === 19))
+    || a >= 224;
+}
+
+/** Whether an IPv6 address is loopback, unique-local, link-local or otherwise not on the internet */
+function isPrivateIPv6(address: string): boolean {
+  const normalized = address.toLowerCase();
+  const mappedIPv4 = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedIPv4) return isPrivateIPv4(mappedIPv4[1]);
+
+  return normalized === '::'
+    || normalized === '::1'
+    || normalized.startsWith('::ffff:')
+    || /^f[cd]/.test(normalized)
+    || /^fe[89ab]/.test(normalized)
+    || normalized.startsWith('ff');
+}
+
+/**
+ * Refuse to post to a URL users should not be able to reach through us: a
+ * host outside WEBHOOK_ALLOWED_HOSTS when that is set, and otherwise any host
+ * that is or resolves to a loopback, private or link-local address (internal
+ * services, cloud metadata).
+ */
+async function assertPublicWebhookUrl(recipient: string): Promise<void> {
+  const url = new URL(recipient);
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Webhook URL must use http or https, not ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+
+  const allowedHosts = (Deno.env.get('WEBHOOK_ALLOWED_HOSTS') ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+  if (allowedHosts.length > 0) {
+    if (!allowedHosts.includes(hostname)) throw new Error(`Webhook host ${hostname} is not allowed`);
+    return;
+  }
+
+  if (hostname === 'localhost' || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new Error(`Webhook host ${hostname} is not public`);
+  }
+
+  let addresses: string[];
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(hostname) || hostname.includes(':')) {
+    addresses = [hostname];
+  } else {
+    const lookups = await Promise.allSettled([
+      Deno.resolveDns(hostname, 'A'),
+      Deno.resolveDns(hostname, 'AAAA'),
+    ]);
+    addresses = lookups.flatMap((lookup) => lookup.status === 'fulfilled' ? lookup.value : []);
+    if (addresses.length === 0) throw new Error(`Webhook host ${hostname} does not resolve`);
+  }
+
+  if (addresses.some((address) => address.includes(':') ? isPrivateIPv6(address) : isPrivateIPv4(address))) {
+    throw new Error(`Webhook host ${hostname} is not public`);
+  }
+}
+
+function httpWebhookProvider(): NotificationProvider {
+  return {
+    name: 'http',
+    async send({ recipient }, message) {
+      await assertPublicWebhookUrl(recipient);
+
+      const body = JSON.stringify(message.payload);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+
+      const secret = Deno.env.get('WEBHOOK_SIGNING_SECRET');
+      if (secret) headers['X-FireProtector-Signature'] = `sha256=${await signPayload(secret, body)}`;
+
+      const response = await fetch(recipient, {
+        method: 'POST',
+        headers,
+        body,
+        // A redirect could point anywhere, past the host check above
+        redirect: 'manual',
+        signal: AbortSignal.timeout(10000),
+      });
+
+      if (!response.ok) throw new Error(`Webhook responded ${response.status}`);
+    },
+  };
+}
+
+function webPushProvider(): NotificationProvider {
+  return {
+    name: 'webpush',
+    async send({ recipient, keys }, message) {
+      if (!keys) throw new Error('Push subscription keys are missing');
+
+      try {
+        await webpush.sendNotification(
+          { endpoint: recipient, keys },
+          JSON.stringify({
+            title: message.subject,
+            body: message.summary,
+            url: message.path,
+            alertId: message.tag,
+            level: message.notificationLevel,
+          }),
+          {
+            vapidDetails: {
+              subject: requireEnv('VAPID_SUBJECT'),
+              publicKey: requireEnv('VAPID_PUBLIC_KEY'),
+              privateKey: requireEnv('VAPID_PRIVATE_KEY'),
+            },
+            // An alert an hour old is better seen in the app than pushed late
+            TTL: 3600,
+            urgency: message.notificationLevel === 'standard' ? 'normal' : 'high',
+          }
+        );
+      } catch (error) {
+        const statusCode = (error as { statusCode?: number }).statusCode;
+        if (statusCode === 404 || statusCode === 410) throw new ExpiredSubscriptionError();
+        throw error;
+      }
+    },
+  };
+}
+
+const PROVIDERS: Record<NotificationChannel, { env: string; factories: Record<string, () => NotificationProvider> }> = {
+  email: { env: 'NOTIFY_EMAIL_PROVIDER', factories: { smtp: smtpProvider, stub: () => stubProvider('email') } },
+  sms: { env: 'NOTIFY_SMS_PROVIDER', factories: { twilio: twilioProvider, stub: () => stubProvider('sms') } },
+  webhook: { env: 'NOTIFY_WEBHOOK_PROVIDER', factories: { http: httpWebhookProvider, stub: () => stubProvider('webhook') } },
+  push: { env: 'NOTIFY_PUSH_PROVIDER', factories: { webpush: webPushProvider, stub: () => stubProvider('push') } },
+};
+
+/**
+ * The provider configured for a channel.
+ *
+ * @param channel - Channel to send on
+ * @returns The configured provider, or the stub when none is configured
+ */
+export function getProvider(channel: NotificationChannel): NotificationProvider {
+  const { env, factories } = PROVIDERS[channel];
+  const name = Deno.env.get(env) ?? 'stub';
+  const factory = factories[name];
+  if (!factory) throw new Error(`Unknown ${channel} provider: ${name}`);
+  return factory();
+}
@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { decodeFeed, resolveFieldMap, type SensorReading, type ThingSpeakFeed } from "../_shared/sensors.ts";
+import { findSensorFaults, rejectFaultyValues, STUCK_HISTORY_READINGS, type StoredValues } from "../_shared/sensor-faults.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -6,21 +9,100 @@ const corsHeaders = {
 };
 
 /**
- * ThingSpeak Service - Placeholder Functions
+ * ThingSpeak Service
  * 
- * TODO: Implement actual ThingSpeak API integration
+ * Actions:
+ * - latest: fetch and decode the latest ThingSpeak entry of a location
+ * - history: read stored readings from sensor_readings for a time range,
+ *   aggregated per minute/hour/day
+ * - ingest: copy new ThingSpeak entries of every location into
+ *   sensor_readings; invoked by the pg_cron schedule
+ *
+ * Implausible values (a disconnected, out-of-range or stuck sensor) are
+ * rejected before they are returned or stored: they read as null and the
+ * latest reading lists them in its faults (see _shared/sensor-faults.ts).
+ *
+ * Callers only ever pass a locationId. ThingSpeak read keys live in
+ * location_credentials, which has no RLS policies, so only this service (via
+ * the service role) can read them and they never reach the browser. latest
+ * and history need a signed-in user (who may see every location) or the
+ * service role, as alert-manager uses; the anon key alone is not enough.
+ */
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+type HistoryBucket = 'raw' | 'minute' | 'hour' | 'day';
+
+const HISTORY_BUCKETS: HistoryBucket[] = ['raw', 'minute', 'hour', 'day'];
+
+/** Entries fetched for a location that has no stored readings yet (ThingSpeak's maximum) */
+const BACKFILL_RESULTS = 8000;
+
+/** A location joined with its ThingSpeak credentials */
+interface ThingSpeakLocation {
+  id: string;
+  name: string;
+  thingspeak_channel_id: string;
+  thingspeak_read_key: string;
+  field_map: unknown;
+}
+
+/**
+ * Load locations together with their ThingSpeak read keys
  * 
- * This service provides placeholder functions for fetching sensor data from ThingSpeak.
- * The actual implementation should be added by the user with their ThingSpeak credentials.
+ * @param supabaseClient - Service role client
+ * @param locationId - Only load this location; omit to load every configured location
+ * @returns Locations that have both a channel and a read key
  */
+async function loadThingSpeakLocations(supabaseClient: SupabaseClient, locationId?: string): Promise<ThingSpeakLocation[]> {
+  let query = supabaseClient
+    .from('locations')
+    .select('id, name, thingspeak_channel_id, field_map, location_credentials!inner(thingspeak_read_key)')
+    .not('thingspeak_channel_id', 'is', null);
+
+  if (locationId) query = query.eq('id', locationId);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(({ location_credentials, ...location }) => ({
+    ...location,
+    thingspeak_read_key: location_credentials.thingspeak_read_key,
+  }));
+}
+
+/**
+ * Read back the latest stored readings of a location
+ * 
+ * @param supabaseClient - Service role client
+ * @param locationId - Location to read
+ * @returns Up to STUCK_HISTORY_READINGS readings, newest first
+ */
+async function fetchRecentReadings(supabaseClient: SupabaseClient, locationId: string): Promise<StoredValues[]> {
+  const { data, error } = await supabaseClient
+    .from('sensor_readings')
+    .select('recorded_at, temperature, humidity, gas, smoke, co')
+    .eq('location_id', locationId)
+    .order('recorded_at', { ascending: false })
+    .limit(STUCK_HISTORY_READINGS);
+
+  if (error) {
+    console.error('[ThingSpeak Service] Error loading recent readings:', error);
+    return [];
+  }
+
+  return (data || []).map(({ recorded_at, ...values }) => ({ ...values, timestamp: recorded_at }));
+}
 
 /**
  * Fetch the latest sensor values from ThingSpeak
  * 
- * @param location - Location object containing thingspeak_channel_id and thingspeak_read_key
- * @returns Object containing sensor values or null
+ * @param supabaseClient - Service role client
+ * @param location - Location with its ThingSpeak credentials
+ * @returns Decoded and validated sensor reading or null
  */
-async function fetchLatestSensorValues(location: any) {
+async function fetchLatestSensorValues(supabaseClient: SupabaseClient, location: ThingSpeakLocation): Promise<SensorReading | null> {
   try {
     const url = `https://api.thingspeak.com/channels/${location.thingspeak_channel_id}/feeds/last.json?api_key=${location.thingspeak_read_key}`;
     
@@ -33,18 +115,20 @@ async function fetchLatestSensorValues(location: any) {
       return null;
     }
     
-    const data = await response.json();
+    const data: ThingSpeakFeed = await response.json();
     
     console.log('[ThingSpeak Service] Received data:', data);
     
-    return {
-      temperature: parseFloat(data.field1),
-      humidity: parseFloat(data.field2),
-      flame: data.field3 == "0" ? "FLAME" : "NONE",
-      gas: parseFloat(data.field4),
-      pir: data.field5,
-      timestamp: data.created_at,
-    };
+    const fieldMap = resolveFieldMap(location.field_map);
+    const reading = decodeFeed(data, fieldMap);
+    const history = await fetchRecentReadings(supabaseClient, location.id);
+    const faults = findSensorFaults(reading, fieldMap, history);
+
+    if (Object.keys(faults).length > 0) {
+      console.log('[ThingSpeak Service] Rejected faulty sensors for location:', location.name, faults);
+    }
+
+    return rejectFaultyValues(reading, faults);
   } catch (error) {
     console.error('[ThingSpeak Service] Error fetching latest values:', error);
     return null;
@@ -52,17 +136,25 @@ async function fetchLatestSensorValues(location: any) {
 }
 
 /**
- * Fetch historical sensor data from ThingSpeak
+ * Fetch raw feed entries from ThingSpeak
  * 
- * @param location - Location object containing thingspeak_channel_id and thingspeak_read_key
- * @param results - Number of results to fetch (default: 100)
- * @returns Array of historical sensor readings or empty array
+ * @param location - Location with its ThingSpeak credentials
+ * @param since - Only fetch entries after this timestamp; omit to backfill
+ * @returns Array of raw feed entries or empty array
  */
-async function fetchSensorHistory(location: any, results: number = 100) {
+async function fetchThingSpeakFeeds(location: ThingSpeakLocation, since?: string): Promise<ThingSpeakFeed[]> {
   try {
-    const url = `https://api.thingspeak.com/channels/${location.thingspeak_channel_id}/feeds.json?api_key=${location.thingspeak_read_key}&results=${results}`;
+    const params = new URLSearchParams({ api_key: location.thingspeak_read_key });
+    if (since) {
+      // ThingSpeak expects "YYYY-MM-DD HH:NN:SS" in UTC; start is inclusive
+      params.set('start', new Date(new Date(since).getTime() + 1000).toISOString().slice(0, 19).replace('T', ' '));
+    } else {
+      params.set('results', String(BACKFILL_RESULTS));
+    }
+
+    const url = `https://api.thingspeak.com/channels/${location.thingspeak_channel_id}/feeds.json?${params}`;
     
-    console.log('[ThingSpeak Service] Fetching history for location:', location.name, 'results:', results);
+    console.log('[ThingSpeak Service] Fetching feeds for location:', location.name, 'since:', since ?? 'backfill');
     
     const response = await fetch(url);
     
@@ -73,44 +165,172 @@ async function fetchSensorHistory(location: any, results: number = 100) {
     
     const data = await response.json();
     
-    console.log('[ThingSpeak Service] Received', data.feeds?.length || 0, 'historical records');
+    console.log('[ThingSpeak Service] Received', data.feeds?.length || 0, 'feed entries');
     
     if (!data.feeds || !Array.isArray(data.feeds)) {
       return [];
     }
     
-    return data.feeds.map((feed: any) => ({
-      timestamp: feed.created_at,
-      temperature: parseFloat(feed.field1),
-      humidity: parseFloat(feed.field2),
-      flame: feed.field3,
-      gas: parseFloat(feed.field4),
-      pir: feed.field5,
-    }));
+    return data.feeds;
   } catch (error) {
-    console.error('[ThingSpeak Service] Error fetching history:', error);
+    console.error('[ThingSpeak Service] Error fetching feeds:', error);
     return [];
   }
 }
 
+/**
+ * Copy new ThingSpeak entries of every location into sensor_readings
+ * 
+ * @param supabaseClient - Service role client
+ * @returns Number of readings ingested per location
+ */
+async function ingestSensorReadings(supabaseClient: SupabaseClient) {
+  const locations = await loadThingSpeakLocations(supabaseClient);
+
+  const ingested: Record<string, number> = {};
+
+  for (const location of locations) {
+    const { data: lastReading } = await supabaseClient
+      .from('sensor_readings')
+      .select('recorded_at')
+      .eq('location_id', location.id)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    const feeds = await fetchThingSpeakFeeds(location, lastReading?.recorded_at);
+    const fieldMap = resolveFieldMap(location.field_map);
+
+    const rows = feeds.map((feed) => {
+      // Stuck sensors can only be told from stored history, so only per-entry faults are dropped here
+      const decoded = decodeFeed(feed, fieldMap);
+      const reading = rejectFaultyValues(decoded, findSensorFaults(decoded, fieldMap));
+      return {
+        location_id: location.id,
+        recorded_at: reading.timestamp,
+        entry_id: feed.entry_id ?? null,
+        temperature: reading.temperature,
+        humidity: reading.humidity,
+        gas: reading.gas,
+        smoke: reading.smoke,
+        co: reading.co,
+        flame_detected: reading.flameDetected,
+        motion_detected: reading.motionDetected,
+      };
+    });
+
+    if (rows.length > 0) {
+      const { error: insertError } = await supabaseClient
+        .from('sensor_readings')
+        .upsert(rows, { onConflict: 'location_id,recorded_at', ignoreDuplicates: true });
+
+      if (insertError) {
+        console.error('[ThingSpeak Service] Error storing readings for location:', location.name, insertError);
+        continue;
+      }
+    }
+
+    ingested[location.id] = rows.length;
+  }
+
+  console.log('[ThingSpeak Service] Ingested readings:', ingested);
+  return ingested;
+}
+
+/**
+ * Read stored sensor history for a location
+ * 
+ * @param supabaseClient - Service role client
+ * @param locationId - Location to read
+ * @param from - Start of the range (ISO timestamp)
+ * @param to - End of the range (ISO timestamp, default: now)
+ * @param bucket - Aggregation interval (default: minute)
+ * @returns Array of readings, one per bucket, oldest first
+ */
+async function fetchSensorHistory(
+  supabaseClient: SupabaseClient,
+  locationId: string,
+  from: string,
+  to?: string,
+  bucket: HistoryBucket = 'minute'
+): Promise<SensorReading[]> {
+  if (!HISTORY_BUCKETS.includes(bucket)) {
+    throw new Error(`Invalid bucket. Use one of: ${HISTORY_BUCKETS.join(', ')}`);
+  }
+
+  const { data, error } = await supabaseClient.rpc('get_sensor_history', {
+    _location_id: locationId,
+    _from: from,
+    _to: to ?? new Date().toISOString(),
+    _bucket: bucket,
+  });
+
+  if (error) throw error;
+
+  return (data || []).map((row: Record<string, unknown>) => ({
+    temperature: row.temperature as number | null,
+    humidity: row.humidity as number | null,
+    gas: row.gas as number | null,
+    smoke: row.smoke as number | null,
+    co: row.co as number | null,
+    flameDetected: Boolean(row.flame_detected),
+    motionDetected: Boolean(row.motion_detected),
+    timestamp: row.bucket as string,
+  }));
+}
+
+/**
+ * Reject callers that are neither a signed-in user nor the service role.
+ *
+ * @param supabaseClient - Service role client
+ * @param req - The request, with the caller's JWT in its Authorization header
+ */
+async function authenticateReader(supabaseClient: SupabaseClient, req: Request) {
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) throw new Error('No authorization header');
+
+  const token = authHeader.replace('Bearer ', '');
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) return;
+
+  const { data: { user } } = await supabaseClient.auth.getUser(token);
+  if (!user) throw new Error('Unauthorized');
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { action, location, results } = await req.json();
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { action, locationId, from, to, bucket } = await req.json();
 
-    console.log('[ThingSpeak Service] Request received:', { action, locationName: location?.name });
+    console.log('[ThingSpeak Service] Request received:', { action, locationId });
 
     let data;
     
     if (action === 'latest') {
-      data = await fetchLatestSensorValues(location);
+      await authenticateReader(supabaseClient, req);
+      if (!locationId) throw new Error('locationId is required');
+      const [location] = await loadThingSpeakLocations(supabaseClient, locationId);
+      data = location ? await fetchLatestSensorValues(supabaseClient, location) : null;
     } else if (action === 'history') {
-      data = await fetchSensorHistory(location, results);
+      await authenticateReader(supabaseClient, req);
+      if (!locationId || !from) throw new Error('locationId and from are required');
+      data = await fetchSensorHistory(supabaseClient, locationId, from, to, bucket);
+    } else if (action === 'ingest') {
+      // Only the scheduler (which holds the service role key) may ingest
+      const authHeader = req.headers.get('Authorization');
+      if (authHeader?.replace('Bearer ', '') !== Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+        throw new Error('Unauthorized');
+      }
+      data = await ingestSensorReadings(supabaseClient);
     } else {
-      throw new Error('Invalid action. Use "latest" or "history"');
+      throw new Error('Invalid action. Use "latest", "history" or "ingest"');
     }
 
     return new Response(
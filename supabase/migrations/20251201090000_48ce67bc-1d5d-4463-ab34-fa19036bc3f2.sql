@@ -0,0 +1,53 @@
+-- Record of every server-side alert evaluation sweep
+CREATE TABLE public.alert_evaluation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  triggered_by TEXT NOT NULL DEFAULT 'cron',
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  locations_evaluated INTEGER NOT NULL DEFAULT 0,
+  locations_without_data INTEGER NOT NULL DEFAULT 0,
+  alerts_created INTEGER NOT NULL DEFAULT 0,
+  alerts_updated INTEGER NOT NULL DEFAULT 0,
+  alerts_resolved INTEGER NOT NULL DEFAULT 0,
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+ALTER TABLE public.alert_evaluation_runs ENABLE ROW LEVEL SECURITY;
+
+-- Runs are written by the alert-manager function with the service role key;
+-- authority users can read them to check the scheduler is healthy
+CREATE POLICY "Authority users can view evaluation runs"
+ON public.alert_evaluation_runs
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.user_id = auth.uid()
+    AND profiles.user_type = 'authority'
+  )
+);
+
+CREATE INDEX idx_alert_evaluation_runs_started_at ON public.alert_evaluation_runs(started_at DESC);
+
+-- Schedule the evaluation sweep every minute.
+-- Requires the vault secrets 'project_url' and 'service_role_key':
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'evaluate-all-locations',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/alert-manager',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('action', 'evaluate_all', 'triggeredBy', 'cron')
+  );
+  $$
+);
@@ -0,0 +1,43 @@
+-- Per-location alert thresholds. Rows with a NULL location_id are the
+-- defaults for every location; a row for a location overrides them.
+CREATE TABLE public.location_thresholds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  sensor TEXT NOT NULL CHECK (sensor IN ('temperature', 'gas')),
+  warning_level NUMERIC NOT NULL,
+  critical_level NUMERIC NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT location_thresholds_levels_check CHECK (warning_level <= critical_level),
+  CONSTRAINT location_thresholds_location_sensor_key UNIQUE NULLS NOT DISTINCT (location_id, sensor)
+);
+
+ALTER TABLE public.location_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view thresholds"
+ON public.location_thresholds
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authority users can manage thresholds"
+ON public.location_thresholds
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.user_id = auth.uid()
+    AND profiles.user_type = 'authority'
+  )
+);
+
+CREATE INDEX idx_location_thresholds_location_id ON public.location_thresholds(location_id);
+
+CREATE TRIGGER update_location_thresholds_updated_at
+BEFORE UPDATE ON public.location_thresholds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Global defaults (previously hardcoded in alert-manager)
+INSERT INTO public.location_thresholds (location_id, sensor, warning_level, critical_level) VALUES
+  (NULL, 'temperature', 35, 40),
+  (NULL, 'gas', 400, 1000);
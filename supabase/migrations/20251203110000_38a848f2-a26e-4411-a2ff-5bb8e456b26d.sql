@@ -0,0 +1,3 @@
+-- Count severity escalations of open alerts in each evaluation run
+ALTER TABLE public.alert_evaluation_runs
+ADD COLUMN IF NOT EXISTS alerts_escalated INTEGER NOT NULL DEFAULT 0;
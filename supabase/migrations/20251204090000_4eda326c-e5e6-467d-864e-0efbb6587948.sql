@@ -0,0 +1,7 @@
+-- Per-location ThingSpeak field mapping (which field carries which sensor,
+-- active-low flags and scaling). NULL means the default board layout.
+ALTER TABLE public.locations ADD COLUMN IF NOT EXISTS field_map JSONB;
+ALTER TABLE public.location_requests ADD COLUMN IF NOT EXISTS field_map JSONB;
+
+COMMENT ON COLUMN public.locations.field_map IS 'ThingSpeak field mapping, e.g. {"temperature": {"field": "field1", "scale": 1}, "flame": {"field": "field3", "invert": true}}';
+COMMENT ON COLUMN public.location_requests.field_map IS 'ThingSpeak field mapping requested for the location';
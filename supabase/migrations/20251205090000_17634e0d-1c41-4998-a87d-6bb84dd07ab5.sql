@@ -0,0 +1,92 @@
+-- Time series of decoded sensor readings, ingested from ThingSpeak so that
+-- history survives ThingSpeak's retention and pages don't re-hit its API
+CREATE TABLE public.sensor_readings (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  entry_id INTEGER,
+  temperature DOUBLE PRECISION,
+  humidity DOUBLE PRECISION,
+  gas DOUBLE PRECISION,
+  smoke DOUBLE PRECISION,
+  co DOUBLE PRECISION,
+  flame_detected BOOLEAN NOT NULL DEFAULT false,
+  motion_detected BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT sensor_readings_location_recorded_at_key UNIQUE (location_id, recorded_at)
+);
+
+ALTER TABLE public.sensor_readings ENABLE ROW LEVEL SECURITY;
+
+-- Readings are written by the thingspeak-service function with the service role key
+CREATE POLICY "Authenticated users can view sensor readings"
+ON public.sensor_readings
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE INDEX idx_sensor_readings_location_recorded_at ON public.sensor_readings(location_id, recorded_at DESC);
+
+-- Readings for a location in a time range, aggregated per minute/hour/day
+-- ('raw' returns every reading)
+CREATE OR REPLACE FUNCTION public.get_sensor_history(
+  _location_id UUID,
+  _from TIMESTAMP WITH TIME ZONE,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  _bucket TEXT DEFAULT 'minute'
+)
+RETURNS TABLE (
+  bucket TIMESTAMP WITH TIME ZONE,
+  temperature DOUBLE PRECISION,
+  humidity DOUBLE PRECISION,
+  gas DOUBLE PRECISION,
+  smoke DOUBLE PRECISION,
+  co DOUBLE PRECISION,
+  flame_detected BOOLEAN,
+  motion_detected BOOLEAN,
+  samples BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _bucket NOT IN ('raw', 'minute', 'hour', 'day') THEN
+    RAISE EXCEPTION 'Invalid bucket: %', _bucket;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE WHEN _bucket = 'raw' THEN r.recorded_at ELSE date_trunc(_bucket, r.recorded_at) END AS bucket,
+    avg(r.temperature),
+    avg(r.humidity),
+    avg(r.gas),
+    avg(r.smoke),
+    avg(r.co),
+    bool_or(r.flame_detected),
+    bool_or(r.motion_detected),
+    count(*)
+  FROM public.sensor_readings r
+  WHERE r.location_id = _location_id
+    AND r.recorded_at >= _from
+    AND r.recorded_at <= _to
+  GROUP BY 1
+  ORDER BY 1;
+END;
+$$;
+
+-- Ingest new ThingSpeak entries every minute (uses the vault secrets set up
+-- for the evaluate-all-locations job)
+SELECT cron.schedule(
+  'ingest-sensor-readings',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/thingspeak-service',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('action', 'ingest')
+  );
+  $$
+);
@@ -0,0 +1,67 @@
+-- Hysteresis: an open alert only clears once readings drop below the clear
+-- level. NULL means the warning level.
+ALTER TABLE public.location_thresholds
+ADD COLUMN IF NOT EXISTS clear_level NUMERIC;
+
+ALTER TABLE public.location_thresholds
+ADD CONSTRAINT location_thresholds_clear_level_check
+CHECK (clear_level IS NULL OR clear_level <= critical_level);
+
+-- Per-location alert tuning. Rows with a NULL location_id are the defaults
+-- for every location; a row for a location overrides them.
+CREATE TABLE public.location_alert_settings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  sustain_readings INTEGER NOT NULL DEFAULT 2 CHECK (sustain_readings >= 1),
+  clear_cooldown_minutes INTEGER NOT NULL DEFAULT 5 CHECK (clear_cooldown_minutes >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT location_alert_settings_location_key UNIQUE NULLS NOT DISTINCT (location_id)
+);
+
+ALTER TABLE public.location_alert_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view alert settings"
+ON public.location_alert_settings
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authority users can manage alert settings"
+ON public.location_alert_settings
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE profiles.user_id = auth.uid()
+    AND profiles.user_type = 'authority'
+  )
+);
+
+CREATE TRIGGER update_location_alert_settings_updated_at
+BEFORE UPDATE ON public.location_alert_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.location_alert_settings (location_id, sustain_readings, clear_cooldown_minutes)
+VALUES (NULL, 2, 5);
+
+-- Evaluator bookkeeping between runs; only alert-manager (service role)
+-- reads and writes it, so RLS is enabled without policies.
+CREATE TABLE public.location_alert_state (
+  location_id UUID PRIMARY KEY REFERENCES public.locations(id) ON DELETE CASCADE,
+  consecutive_breaches INTEGER NOT NULL DEFAULT 0,
+  last_reading_at TIMESTAMP WITH TIME ZONE,
+  clear_since TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.location_alert_state ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_location_alert_state_updated_at
+BEFORE UPDATE ON public.location_alert_state
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Count readings held back by the sustain window in each evaluation run
+ALTER TABLE public.alert_evaluation_runs
+ADD COLUMN IF NOT EXISTS alerts_pending INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,14 @@
+-- Auto-clearing no longer resolves alerts. An alert nobody has picked up
+-- moves to 'auto_cleared'; alerts an officer manages keep their status and
+-- only get auto_cleared_at set as a suggestion that conditions are normal.
+ALTER TABLE public.alerts DROP CONSTRAINT IF EXISTS alerts_status_check;
+
+ALTER TABLE public.alerts ADD CONSTRAINT alerts_status_check
+CHECK (status IN ('active', 'resolved', 'false_alarm', 'in_queue', 'unsolved', 'auto_cleared'));
+
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS auto_cleared_at TIMESTAMP WITH TIME ZONE;
+
+-- Count alerts auto-cleared by each evaluation run
+ALTER TABLE public.alert_evaluation_runs
+RENAME COLUMN alerts_resolved TO alerts_auto_cleared;
@@ -0,0 +1,92 @@
+-- Audit timeline of every alert: creation, status changes, severity changes,
+-- readings written by the evaluator and "conditions normal" suggestions.
+-- Written by triggers on public.alerts so every mutation path is covered.
+CREATE TABLE public.alert_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'created', 'status_changed', 'severity_changed', 'readings_updated', 'clear_suggested'
+  )),
+  from_status TEXT,
+  to_status TEXT,
+  from_severity TEXT,
+  to_severity TEXT,
+  sensor_values JSONB,
+  -- NULL when the change was made by the system (alert-manager)
+  actor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.alert_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view alert events"
+ON public.alert_events
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE INDEX idx_alert_events_alert_id ON public.alert_events(alert_id, created_at);
+
+-- Service-role writers (alert-manager) have no auth.uid(); they name the
+-- person they act for in changed_by. The trigger consumes it, so it is
+-- never stored on the alert itself.
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS changed_by UUID;
+
+CREATE OR REPLACE FUNCTION public.log_alert_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.alert_events (alert_id, event_type, to_status, to_severity, sensor_values, actor_id)
+  VALUES (NEW.id, 'created', NEW.status, NEW.severity, NEW.sensor_values, COALESCE(auth.uid(), NEW.changed_by));
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_alert_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := COALESCE(auth.uid(), NEW.changed_by);
+BEGIN
+  NEW.changed_by := NULL;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, from_status, to_status, sensor_values, actor_id)
+    VALUES (NEW.id, 'status_changed', OLD.status, NEW.status, NEW.sensor_values, _actor);
+  END IF;
+
+  IF NEW.severity IS DISTINCT FROM OLD.severity THEN
+    INSERT INTO public.alert_events (alert_id, event_type, from_severity, to_severity, sensor_values, actor_id)
+    VALUES (NEW.id, 'severity_changed', OLD.severity, NEW.severity, NEW.sensor_values, _actor);
+  ELSIF NEW.sensor_values IS DISTINCT FROM OLD.sensor_values AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, sensor_values, actor_id)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.auto_cleared_at IS NOT NULL AND OLD.auto_cleared_at IS NULL
+        THEN 'clear_suggested' ELSE 'readings_updated' END,
+      NEW.sensor_values,
+      _actor
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_alert_created
+AFTER INSERT ON public.alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.log_alert_created();
+
+-- BEFORE so the trigger can clear changed_by; the event rows are rolled back
+-- with the update if it fails
+CREATE TRIGGER log_alert_changes
+BEFORE UPDATE ON public.alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.log_alert_changes();
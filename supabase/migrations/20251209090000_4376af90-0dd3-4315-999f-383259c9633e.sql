@@ -0,0 +1,4 @@
+-- Alert status changes go through alert-manager's transition action, which
+-- checks the caller is an authority user and enforces the state machine.
+-- Clients can no longer update alerts directly; the service role bypasses RLS.
+DROP POLICY IF EXISTS "Officers and admins can update alerts" ON public.alerts;
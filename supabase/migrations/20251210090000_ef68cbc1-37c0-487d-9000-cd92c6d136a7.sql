@@ -0,0 +1,3 @@
+-- Civilians get an explicit role so every user has one. Added in its own
+-- migration: a new enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'civilian';
@@ -0,0 +1,121 @@
+-- One role model: user_roles / app_role replaces profiles.user_type for
+-- authorisation. Roles are ranked civilian < officer < incharge < admin and
+-- each includes the powers of the ones below it.
+
+CREATE OR REPLACE FUNCTION public.role_rank(_role app_role)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _role
+    WHEN 'civilian' THEN 0
+    WHEN 'officer' THEN 1
+    WHEN 'incharge' THEN 2
+    WHEN 'admin' THEN 3
+  END
+$$;
+
+-- Whether the user holds the given role or a higher one
+CREATE OR REPLACE FUNCTION public.has_min_role(_user_id uuid, _role app_role)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND public.role_rank(role) >= public.role_rank(_role)
+  )
+$$;
+
+-- Fire authority staff: officers, in-charges and admins
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_min_role(_user_id, 'officer')
+$$;
+
+-- Map existing users: self-declared authorities become officers, everyone
+-- else a civilian. Existing roles are kept.
+INSERT INTO public.user_roles (user_id, role)
+SELECT profiles.user_id, 'officer'::app_role
+FROM public.profiles
+WHERE profiles.user_type = 'authority'
+ON CONFLICT (user_id, role) DO NOTHING;
+
+INSERT INTO public.user_roles (user_id, role)
+SELECT users.id, 'civilian'::app_role
+FROM auth.users
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.user_roles WHERE user_roles.user_id = users.id
+)
+ON CONFLICT (user_id, role) DO NOTHING;
+
+-- New sign-ups get a role from the account type picked on the sign-up form.
+-- profiles.user_type only records that choice; nothing authorises on it.
+CREATE OR REPLACE FUNCTION public.assign_signup_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (
+    NEW.user_id,
+    CASE WHEN NEW.user_type = 'authority' THEN 'officer'::app_role ELSE 'civilian'::app_role END
+  )
+  ON CONFLICT (user_id, role) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_signup_role
+AFTER INSERT ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_signup_role();
+
+-- Replace policies that checked profiles.user_type
+DROP POLICY IF EXISTS "Authority users can manage locations" ON public.locations;
+CREATE POLICY "Staff can manage locations"
+ON public.locations
+FOR ALL
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Authorities can view all location requests" ON public.location_requests;
+CREATE POLICY "Staff can view all location requests"
+ON public.location_requests
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Authorities can update location requests" ON public.location_requests;
+CREATE POLICY "Staff can update location requests"
+ON public.location_requests
+FOR UPDATE
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Authority users can view evaluation runs" ON public.alert_evaluation_runs;
+CREATE POLICY "Staff can view evaluation runs"
+ON public.alert_evaluation_runs
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Authority users can manage thresholds" ON public.location_thresholds;
+CREATE POLICY "Staff can manage thresholds"
+ON public.location_thresholds
+FOR ALL
+USING (public.is_staff(auth.uid()));
+
+DROP POLICY IF EXISTS "Authority users can manage alert settings" ON public.location_alert_settings;
+CREATE POLICY "Staff can manage alert settings"
+ON public.location_alert_settings
+FOR ALL
+USING (public.is_staff(auth.uid()));
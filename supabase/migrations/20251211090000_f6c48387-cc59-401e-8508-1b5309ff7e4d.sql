@@ -0,0 +1,3 @@
+-- Authority sign-ups wait for verification in this role. Added in its own
+-- migration: a new enum value cannot be used in the transaction that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'pending_authority';
@@ -0,0 +1,126 @@
+-- Authority account verification. Fire Authority sign-ups start as
+-- 'pending_authority' (no more access than a civilian) with a verification
+-- request; an in-charge or admin approves them to 'officer' or rejects them
+-- to 'civilian' with a reason.
+
+CREATE OR REPLACE FUNCTION public.role_rank(_role app_role)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE _role
+    WHEN 'pending_authority' THEN 0
+    WHEN 'civilian' THEN 0
+    WHEN 'officer' THEN 1
+    WHEN 'incharge' THEN 2
+    WHEN 'admin' THEN 3
+  END
+$$;
+
+CREATE TABLE public.authority_verifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  -- Snapshot of the details submitted at sign-up
+  badge_number TEXT,
+  department TEXT,
+  fire_station TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  rejection_reason TEXT,
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT authority_verifications_reason_check CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL)
+);
+
+ALTER TABLE public.authority_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own verification"
+ON public.authority_verifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "In-charges can view all verifications"
+ON public.authority_verifications
+FOR SELECT
+USING (public.has_min_role(auth.uid(), 'incharge'));
+
+CREATE INDEX idx_authority_verifications_status ON public.authority_verifications(status);
+
+CREATE TRIGGER update_authority_verifications_updated_at
+BEFORE UPDATE ON public.authority_verifications
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Authority sign-ups no longer get the officer role straight away
+CREATE OR REPLACE FUNCTION public.assign_signup_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.user_type = 'authority' THEN
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.user_id, 'pending_authority')
+    ON CONFLICT (user_id, role) DO NOTHING;
+
+    INSERT INTO public.authority_verifications (user_id, badge_number, department, fire_station)
+    VALUES (NEW.user_id, NEW.badge_number, NEW.department, NEW.fire_station)
+    ON CONFLICT (user_id) DO NOTHING;
+  ELSE
+    INSERT INTO public.user_roles (user_id, role)
+    VALUES (NEW.user_id, 'civilian')
+    ON CONFLICT (user_id, role) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Approve or reject a pending authority account in one transaction
+CREATE OR REPLACE FUNCTION public.review_authority_verification(
+  _verification_id uuid,
+  _approve boolean,
+  _reason text DEFAULT NULL
+)
+RETURNS public.authority_verifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _verification public.authority_verifications;
+BEGIN
+  IF NOT public.has_min_role(auth.uid(), 'incharge') THEN
+    RAISE EXCEPTION 'Only in-charges and admins can review authority accounts';
+  END IF;
+
+  IF NOT _approve AND COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject an authority account';
+  END IF;
+
+  UPDATE public.authority_verifications
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      rejection_reason = CASE WHEN _approve THEN NULL ELSE trim(_reason) END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _verification_id
+    AND status = 'pending'
+  RETURNING * INTO _verification;
+
+  IF _verification.id IS NULL THEN
+    RAISE EXCEPTION 'Verification request not found or already reviewed';
+  END IF;
+
+  DELETE FROM public.user_roles
+  WHERE user_id = _verification.user_id
+    AND role = 'pending_authority';
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (_verification.user_id, CASE WHEN _approve THEN 'officer'::app_role ELSE 'civilian'::app_role END)
+  ON CONFLICT (user_id, role) DO NOTHING;
+
+  RETURN _verification;
+END;
+$$;
@@ -0,0 +1,53 @@
+-- ThingSpeak read keys were readable by every signed-in user through the
+-- locations table. They now live in a table with RLS enabled and no
+-- policies, so only the service role (thingspeak-service) can read them.
+CREATE TABLE public.location_credentials (
+  location_id UUID PRIMARY KEY REFERENCES public.locations(id) ON DELETE CASCADE,
+  thingspeak_read_key TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.location_credentials ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_location_credentials_updated_at
+BEFORE UPDATE ON public.location_credentials
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.location_credentials (location_id, thingspeak_read_key)
+SELECT id, thingspeak_read_key
+FROM public.locations
+WHERE thingspeak_read_key IS NOT NULL;
+
+ALTER TABLE public.locations
+DROP COLUMN thingspeak_read_key;
+
+-- Staff set keys through this function; they can write a key but never read
+-- one back. An empty key removes the credentials.
+CREATE OR REPLACE FUNCTION public.set_location_read_key(
+  _location_id uuid,
+  _read_key text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only fire authority staff can set ThingSpeak credentials';
+  END IF;
+
+  IF COALESCE(trim(_read_key), '') = '' THEN
+    DELETE FROM public.location_credentials
+    WHERE location_id = _location_id;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.location_credentials (location_id, thingspeak_read_key)
+  VALUES (_location_id, trim(_read_key))
+  ON CONFLICT (location_id) DO UPDATE
+  SET thingspeak_read_key = EXCLUDED.thingspeak_read_key;
+END;
+$$;
@@ -0,0 +1,86 @@
+-- Fire stations used to be three columns on an authority's profile, so every
+-- officer at a station produced another copy of it. Stations are now their
+-- own rows with contact details, unit availability and a coverage area, and
+-- officers are linked to them as members.
+CREATE TABLE public.fire_stations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  address TEXT,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  phone TEXT,
+  total_units INTEGER NOT NULL DEFAULT 0 CHECK (total_units >= 0),
+  available_units INTEGER NOT NULL DEFAULT 0,
+  -- NULL means the station answers calls anywhere
+  coverage_radius_km NUMERIC CHECK (coverage_radius_km IS NULL OR coverage_radius_km > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT fire_stations_available_units_check CHECK (available_units BETWEEN 0 AND total_units)
+);
+
+ALTER TABLE public.fire_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view fire stations"
+ON public.fire_stations
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "In-charges and admins can manage fire stations"
+ON public.fire_stations
+FOR ALL
+USING (public.has_min_role(auth.uid(), 'incharge'));
+
+CREATE TRIGGER update_fire_stations_updated_at
+BEFORE UPDATE ON public.fire_stations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- An officer belongs to at most one station
+CREATE TABLE public.fire_station_members (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  station_id UUID NOT NULL REFERENCES public.fire_stations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX idx_fire_station_members_station ON public.fire_station_members(station_id);
+
+ALTER TABLE public.fire_station_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view station members"
+ON public.fire_station_members
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "In-charges and admins can manage station members"
+ON public.fire_station_members
+FOR ALL
+USING (public.has_min_role(auth.uid(), 'incharge'));
+
+-- In-charges assign officers to stations, so they need to see who is staff
+CREATE POLICY "In-charges and admins can view all roles"
+ON public.user_roles
+FOR SELECT
+USING (public.has_min_role(auth.uid(), 'incharge'));
+
+-- One station per distinct name that had coordinates on a profile
+INSERT INTO public.fire_stations (name, latitude, longitude)
+SELECT DISTINCT ON (lower(trim(fire_station)))
+  trim(fire_station), fire_station_latitude, fire_station_longitude
+FROM public.profiles
+WHERE COALESCE(trim(fire_station), '') <> ''
+  AND fire_station_latitude IS NOT NULL
+  AND fire_station_longitude IS NOT NULL
+ORDER BY lower(trim(fire_station)), created_at;
+
+INSERT INTO public.fire_station_members (user_id, station_id)
+SELECT profiles.user_id, fire_stations.id
+FROM public.profiles
+JOIN public.fire_stations ON lower(trim(profiles.fire_station)) = lower(fire_stations.name)
+WHERE public.is_staff(profiles.user_id)
+ON CONFLICT (user_id) DO NOTHING;
+
+-- profiles.fire_station stays as the station an authority sign-up claims,
+-- which the in-charge checks during verification
+ALTER TABLE public.profiles
+DROP COLUMN fire_station_latitude,
+DROP COLUMN fire_station_longitude;
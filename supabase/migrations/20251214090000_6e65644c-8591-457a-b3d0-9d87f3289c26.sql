@@ -0,0 +1,105 @@
+-- Alert ownership: which station (and optionally which officer) responds,
+-- and when the crew acknowledged, set off and arrived. Written only by
+-- alert-manager, which checks who may assign and report progress.
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS assigned_station_id UUID REFERENCES public.fire_stations(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS en_route_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS on_scene_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_alerts_assigned_station ON public.alerts(assigned_station_id);
+CREATE INDEX idx_alerts_assigned_to ON public.alerts(assigned_to);
+
+-- Dispatch events in the alert timeline
+ALTER TABLE public.alert_events
+ADD COLUMN IF NOT EXISTS station_id UUID,
+ADD COLUMN IF NOT EXISTS assignee_id UUID;
+
+ALTER TABLE public.alert_events
+DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+
+ALTER TABLE public.alert_events
+ADD CONSTRAINT alert_events_event_type_check CHECK (event_type IN (
+  'created', 'status_changed', 'severity_changed', 'readings_updated', 'clear_suggested',
+  'assigned', 'acknowledged', 'en_route', 'on_scene'
+));
+
+CREATE OR REPLACE FUNCTION public.log_alert_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := COALESCE(auth.uid(), NEW.changed_by);
+BEGIN
+  INSERT INTO public.alert_events (alert_id, event_type, to_status, to_severity, sensor_values, actor_id)
+  VALUES (NEW.id, 'created', NEW.status, NEW.severity, NEW.sensor_values, _actor);
+
+  -- New alerts are dispatched to the nearest station straight away
+  IF NEW.assigned_station_id IS NOT NULL OR NEW.assigned_to IS NOT NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, assignee_id, actor_id)
+    VALUES (NEW.id, 'assigned', NEW.assigned_station_id, NEW.assigned_to, _actor);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_alert_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := COALESCE(auth.uid(), NEW.changed_by);
+BEGIN
+  NEW.changed_by := NULL;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, from_status, to_status, sensor_values, actor_id)
+    VALUES (NEW.id, 'status_changed', OLD.status, NEW.status, NEW.sensor_values, _actor);
+  END IF;
+
+  IF NEW.severity IS DISTINCT FROM OLD.severity THEN
+    INSERT INTO public.alert_events (alert_id, event_type, from_severity, to_severity, sensor_values, actor_id)
+    VALUES (NEW.id, 'severity_changed', OLD.severity, NEW.severity, NEW.sensor_values, _actor);
+  ELSIF NEW.sensor_values IS DISTINCT FROM OLD.sensor_values AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, sensor_values, actor_id)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.auto_cleared_at IS NOT NULL AND OLD.auto_cleared_at IS NULL
+        THEN 'clear_suggested' ELSE 'readings_updated' END,
+      NEW.sensor_values,
+      _actor
+    );
+  END IF;
+
+  IF NEW.assigned_station_id IS DISTINCT FROM OLD.assigned_station_id
+    OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, assignee_id, actor_id)
+    VALUES (NEW.id, 'assigned', NEW.assigned_station_id, NEW.assigned_to, _actor);
+  END IF;
+
+  IF NEW.acknowledged_at IS NOT NULL AND OLD.acknowledged_at IS NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, actor_id)
+    VALUES (NEW.id, 'acknowledged', NEW.assigned_station_id, _actor);
+  END IF;
+
+  IF NEW.en_route_at IS NOT NULL AND OLD.en_route_at IS NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, actor_id)
+    VALUES (NEW.id, 'en_route', NEW.assigned_station_id, _actor);
+  END IF;
+
+  IF NEW.on_scene_at IS NOT NULL AND OLD.on_scene_at IS NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, actor_id)
+    VALUES (NEW.id, 'on_scene', NEW.assigned_station_id, _actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,134 @@
+-- Escalation chains per region. The row with a NULL region is the default
+-- for regions without their own; see supabase/functions/_shared/escalation.ts
+-- for the chain format.
+CREATE TABLE public.escalation_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  region TEXT,
+  chain JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(chain) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CONSTRAINT escalation_policies_region_key UNIQUE NULLS NOT DISTINCT (region)
+);
+
+ALTER TABLE public.escalation_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view escalation policies"
+ON public.escalation_policies
+FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "In-charges and admins can manage escalation policies"
+ON public.escalation_policies
+FOR ALL
+USING (public.has_min_role(auth.uid(), 'incharge'));
+
+CREATE TRIGGER update_escalation_policies_updated_at
+BEFORE UPDATE ON public.escalation_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.escalation_policies (region, chain)
+VALUES (NULL, '[
+  {"afterMinutes": 5, "target": "incharge", "notificationLevel": "urgent"},
+  {"afterMinutes": 10, "target": "neighbouring_stations", "notificationLevel": "critical"},
+  {"afterMinutes": 20, "target": "admin", "notificationLevel": "critical"}
+]'::jsonb);
+
+-- How far an unacknowledged alert has escalated. supporting_station_ids are
+-- the neighbouring stations brought in; their officers may acknowledge it.
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS escalation_level INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS escalation_target TEXT,
+ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS notification_level TEXT NOT NULL DEFAULT 'standard'
+  CHECK (notification_level IN ('standard', 'urgent', 'critical')),
+ADD COLUMN IF NOT EXISTS supporting_station_ids UUID[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.alert_events
+ADD COLUMN IF NOT EXISTS escalation_level INTEGER,
+ADD COLUMN IF NOT EXISTS escalation_target TEXT;
+
+ALTER TABLE public.alert_events
+DROP CONSTRAINT IF EXISTS alert_events_event_type_check;
+
+ALTER TABLE public.alert_events
+ADD CONSTRAINT alert_events_event_type_check CHECK (event_type IN (
+  'created', 'status_changed', 'severity_changed', 'readings_updated', 'clear_suggested',
+  'assigned', 'acknowledged', 'en_route', 'on_scene', 'escalated'
+));
+
+CREATE OR REPLACE FUNCTION public.log_alert_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _actor UUID := COALESCE(auth.uid(), NEW.changed_by);
+BEGIN
+  NEW.changed_by := NULL;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, from_status, to_status, sensor_values, actor_id)
+    VALUES (NEW.id, 'status_changed', OLD.status, NEW.status, NEW.sensor_values, _actor);
+  END IF;
+
+  IF NEW.severity IS DISTINCT FROM OLD.severity THEN
+    INSERT INTO public.alert_events (alert_id, event_type, from_severity, to_severity, sensor_values, actor_id)
+    VALUES (NEW.id, 'severity_changed', OLD.severity, NEW.severity, NEW.sensor_values, _actor);
+  ELSIF NEW.sensor_values IS DISTINCT FROM OLD.sensor_values AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    INSERT INTO public.alert_events (alert_id, event_type, sensor_values, actor_id)
+    VALUES (
+      NEW.id,
+      CASE WHEN NEW.auto_cleared_at IS NOT NULL AND OLD.auto_cleared_at IS NULL
+        THEN 'clear_suggested' ELSE 'readings_updated' END,
+      NEW.sensor_values,
+      _actor
+    );
+  END IF;
+
+  IF NEW.assigned_station_id IS DISTINCT FROM OLD.assigned_station_id
+    OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, assignee_id, actor_id)
+    VALUES (NEW.id, 'assigned', NEW.assigned_station_id, NEW.assigned_to, _actor);
+  END IF;
+
+  IF NEW.acknowledged_at IS NOT NULL AND OLD.acknowledged_at IS NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, actor_id)
+    VALUES (NEW.id, 'acknowledged', NEW.assigned_station_id, _actor);
+  END IF;
+
+  IF NEW.en_route_at IS NOT NULL AND OLD.en_route_at IS NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, actor_id)
+    VALUES (NEW.id, 'en_route', NEW.assigned_station_id, _actor);
+  END IF;
+
+  IF NEW.on_scene_at IS NOT NULL AND OLD.on_scene_at IS NULL THEN
+    INSERT INTO public.alert_events (alert_id, event_type, station_id, actor_id)
+    VALUES (NEW.id, 'on_scene', NEW.assigned_station_id, _actor);
+  END IF;
+
+  IF NEW.escalation_level > OLD.escalation_level THEN
+    INSERT INTO public.alert_events (alert_id, event_type, escalation_level, escalation_target, actor_id)
+    VALUES (NEW.id, 'escalated', NEW.escalation_level, NEW.escalation_target, _actor);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Check for unacknowledged alerts every minute
+SELECT cron.schedule(
+  'escalate-alerts',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/alert-manager',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := jsonb_build_object('action', 'escalate')
+  );
+  $$
+);
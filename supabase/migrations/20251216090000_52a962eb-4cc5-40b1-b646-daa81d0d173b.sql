@@ -0,0 +1,61 @@
+-- Outbound notification channels each user wants alerts on, and the lowest
+-- notification level (see alerts.notification_level) worth sending
+CREATE TABLE public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT false,
+  email_address TEXT,
+  sms_enabled BOOLEAN NOT NULL DEFAULT false,
+  sms_number TEXT,
+  webhook_enabled BOOLEAN NOT NULL DEFAULT false,
+  webhook_url TEXT,
+  min_level TEXT NOT NULL DEFAULT 'standard' CHECK (min_level IN ('standard', 'urgent', 'critical')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  CHECK (NOT email_enabled OR email_address IS NOT NULL),
+  CHECK (NOT sms_enabled OR sms_number IS NOT NULL),
+  CHECK (NOT webhook_enabled OR webhook_url ~ '^https?://')
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own notification preferences"
+ON public.notification_preferences
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON public.notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every attempt notification-dispatcher makes to reach someone. Written only
+-- by the service role.
+CREATE TABLE public.notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  alert_id UUID NOT NULL REFERENCES public.alerts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  event TEXT NOT NULL CHECK (event IN ('created', 'escalated', 'severity_increased')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms', 'webhook')),
+  recipient TEXT NOT NULL,
+  notification_level TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Staff can view all notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE INDEX idx_notification_deliveries_alert_id ON public.notification_deliveries(alert_id, created_at);
+CREATE INDEX idx_notification_deliveries_user_id ON public.notification_deliveries(user_id, created_at DESC);
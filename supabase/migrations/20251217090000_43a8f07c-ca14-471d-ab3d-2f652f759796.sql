@@ -0,0 +1,65 @@
+-- Web Push subscriptions, one per browser/device a user turned push on for.
+-- notification-dispatcher (service role) reads them to push alerts.
+CREATE TABLE public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own push subscriptions"
+ON public.push_subscriptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own push subscriptions"
+ON public.push_subscriptions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+BEFORE UPDATE ON public.push_subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_push_subscriptions_user_id ON public.push_subscriptions(user_id);
+
+-- Save the caller's subscription. A browser keeps its endpoint across
+-- sign-ins, so whoever subscribes last on a device takes it over.
+CREATE OR REPLACE FUNCTION public.save_push_subscription(
+  _endpoint text,
+  _p256dh text,
+  _auth text,
+  _user_agent text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to turn on push notifications';
+  END IF;
+
+  INSERT INTO public.push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  VALUES (auth.uid(), _endpoint, _p256dh, _auth, _user_agent)
+  ON CONFLICT (endpoint) DO UPDATE
+  SET user_id = EXCLUDED.user_id,
+      p256dh = EXCLUDED.p256dh,
+      auth = EXCLUDED.auth,
+      user_agent = EXCLUDED.user_agent;
+END;
+$$;
+
+ALTER TABLE public.notification_deliveries
+DROP CONSTRAINT IF EXISTS notification_deliveries_channel_check;
+
+ALTER TABLE public.notification_deliveries
+ADD CONSTRAINT notification_deliveries_channel_check CHECK (channel IN ('email', 'sms', 'webhook', 'push'));
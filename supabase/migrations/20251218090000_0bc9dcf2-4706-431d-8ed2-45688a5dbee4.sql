@@ -0,0 +1,84 @@
+-- Locations a user follows. Whoever requested a location owns it and follows
+-- it from approval; anyone else may follow it too. Civilians only see alerts
+-- at locations they follow, and notification-dispatcher tells followers when
+-- an alert is raised there.
+CREATE TABLE public.location_subscriptions (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES public.locations(id) ON DELETE CASCADE,
+  is_owner BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (user_id, location_id)
+);
+
+ALTER TABLE public.location_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own location subscriptions"
+ON public.location_subscriptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can follow locations"
+ON public.location_subscriptions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND NOT is_owner);
+
+CREATE POLICY "Users can unfollow locations"
+ON public.location_subscriptions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Staff record the requester as owner when approving a request
+CREATE POLICY "Staff can manage location subscriptions"
+ON public.location_subscriptions
+FOR ALL
+USING (public.is_staff(auth.uid()));
+
+CREATE INDEX idx_location_subscriptions_location_id ON public.location_subscriptions(location_id);
+
+-- Requests approved before now have no link to their location; match them on
+-- the ThingSpeak channel and name they were created from
+INSERT INTO public.location_subscriptions (user_id, location_id, is_owner)
+SELECT DISTINCT location_requests.user_id, locations.id, true
+FROM public.location_requests
+JOIN public.locations
+  ON locations.thingspeak_channel_id = location_requests.thingspeak_channel_id
+  AND locations.name = location_requests.location_name
+WHERE location_requests.status = 'approved'
+ON CONFLICT (user_id, location_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.can_view_location_alerts(_user_id uuid, _location_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_staff(_user_id) OR EXISTS (
+    SELECT 1
+    FROM public.location_subscriptions
+    WHERE user_id = _user_id
+      AND location_id = _location_id
+  )
+$$;
+
+-- Staff see every alert; civilians only those at locations they follow
+DROP POLICY IF EXISTS "Authenticated users can view alerts" ON public.alerts;
+
+CREATE POLICY "Staff and followers can view alerts"
+ON public.alerts
+FOR SELECT
+USING (public.can_view_location_alerts(auth.uid(), location_id));
+
+DROP POLICY IF EXISTS "Authenticated users can view alert events" ON public.alert_events;
+
+CREATE POLICY "Staff and followers can view alert events"
+ON public.alert_events
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.alerts
+    WHERE alerts.id = alert_events.alert_id
+      AND public.can_view_location_alerts(auth.uid(), alerts.location_id)
+  )
+);
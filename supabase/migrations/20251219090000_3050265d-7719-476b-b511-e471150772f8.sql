@@ -0,0 +1,101 @@
+-- Location requests are approved or rejected in one transaction by
+-- review_location_request instead of separate client writes, so a failed
+-- step can no longer leave a location behind that a retry duplicates.
+-- Approved requests point at the location they created; rejections carry a
+-- reason the requester sees.
+ALTER TABLE public.location_requests
+ADD COLUMN location_id UUID REFERENCES public.locations(id) ON DELETE SET NULL,
+ADD COLUMN rejection_reason TEXT;
+
+-- Link requests approved before now to their location the same way their
+-- owners were found (see location_subscriptions)
+UPDATE public.location_requests
+SET location_id = locations.id
+FROM public.locations
+WHERE location_requests.status = 'approved'
+  AND locations.thingspeak_channel_id = location_requests.thingspeak_channel_id
+  AND locations.name = location_requests.location_name;
+
+UPDATE public.location_requests
+SET rejection_reason = 'No reason was recorded'
+WHERE status = 'rejected';
+
+ALTER TABLE public.location_requests
+ADD CONSTRAINT location_requests_reason_check CHECK (status <> 'rejected' OR rejection_reason IS NOT NULL);
+
+CREATE INDEX idx_location_requests_location_id ON public.location_requests(location_id);
+
+-- Staff review through review_location_request only
+DROP POLICY IF EXISTS "Staff can update location requests" ON public.location_requests;
+
+CREATE OR REPLACE FUNCTION public.review_location_request(
+  _request_id uuid,
+  _approve boolean,
+  _reason text DEFAULT NULL
+)
+RETURNS public.location_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request public.location_requests;
+  _location_id uuid;
+BEGIN
+  IF NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only fire authority staff can review location requests';
+  END IF;
+
+  IF NOT _approve AND COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to reject a location request';
+  END IF;
+
+  -- Lock the request so two reviewers cannot both approve it
+  SELECT * INTO _request
+  FROM public.location_requests
+  WHERE id = _request_id
+    AND status = 'pending'
+  FOR UPDATE;
+
+  IF _request.id IS NULL THEN
+    RAISE EXCEPTION 'Location request not found or already reviewed';
+  END IF;
+
+  IF _approve THEN
+    INSERT INTO public.locations (name, region, latitude, longitude, thingspeak_channel_id, field_map, status)
+    VALUES (
+      _request.location_name,
+      _request.region,
+      _request.latitude,
+      _request.longitude,
+      _request.thingspeak_channel_id,
+      _request.field_map,
+      'normal'
+    )
+    RETURNING id INTO _location_id;
+
+    INSERT INTO public.location_credentials (location_id, thingspeak_read_key)
+    VALUES (_location_id, trim(_request.thingspeak_read_key));
+
+    -- The requester owns the location and hears about its alerts
+    INSERT INTO public.location_subscriptions (user_id, location_id, is_owner)
+    VALUES (_request.user_id, _location_id, true)
+    ON CONFLICT (user_id, location_id) DO UPDATE
+    SET is_owner = true;
+  END IF;
+
+  UPDATE public.location_requests
+  SET status = CASE WHEN _approve THEN 'approved' ELSE 'rejected' END,
+      location_id = _location_id,
+      rejection_reason = CASE WHEN _approve THEN NULL ELSE trim(_reason) END,
+      reviewed_by = auth.uid(),
+      reviewed_at = now()
+  WHERE id = _request.id
+  RETURNING * INTO _request;
+
+  RETURN _request;
+END;
+$$;
+
+-- Requesters see the outcome as soon as it is decided
+ALTER PUBLICATION supabase_realtime ADD TABLE public.location_requests;
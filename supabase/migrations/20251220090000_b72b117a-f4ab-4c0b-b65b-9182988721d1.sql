@@ -0,0 +1,95 @@
+-- locations.status was only ever written when a location was created. It is
+-- now derived by sync_location_status whenever a location's alerts or the
+-- evaluator's view of its readings change:
+-- - alert: an alert at the location is open (active or in_queue)
+-- - offline: the sensors have stopped reporting
+-- - warning: the latest reading has a sensor past its warning level
+-- - normal: otherwise
+ALTER TABLE public.locations
+DROP CONSTRAINT IF EXISTS locations_status_check;
+
+ALTER TABLE public.locations
+ADD CONSTRAINT locations_status_check CHECK (status IN ('normal', 'warning', 'alert', 'offline'));
+
+-- Recorded by alert-manager on every evaluation
+ALTER TABLE public.location_alert_state
+ADD COLUMN reading_level TEXT NOT NULL DEFAULT 'normal' CHECK (reading_level IN ('normal', 'warning', 'critical')),
+ADD COLUMN offline_since TIMESTAMP WITH TIME ZONE;
+
+CREATE OR REPLACE FUNCTION public.sync_location_status(_location_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status text;
+BEGIN
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.alerts
+      WHERE location_id = _location_id
+        AND status IN ('active', 'in_queue')
+    ) THEN 'alert'
+    WHEN state.offline_since IS NOT NULL THEN 'offline'
+    WHEN state.reading_level IN ('warning', 'critical') THEN 'warning'
+    ELSE 'normal'
+  END
+  INTO _status
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.location_alert_state AS state ON state.location_id = _location_id;
+
+  -- Skip no-op updates so realtime subscribers only hear about real changes
+  UPDATE public.locations
+  SET status = _status
+  WHERE id = _location_id
+    AND status IS DISTINCT FROM _status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_location_status_from_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.sync_location_status(NEW.location_id);
+  END IF;
+
+  IF TG_OP <> 'INSERT' AND OLD.location_id IS DISTINCT FROM NEW.location_id THEN
+    PERFORM public.sync_location_status(OLD.location_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_location_status_from_alert
+AFTER INSERT OR DELETE OR UPDATE OF status, location_id ON public.alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_location_status_from_alert();
+
+CREATE OR REPLACE FUNCTION public.sync_location_status_from_state()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_location_status(NEW.location_id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_location_status_from_state
+AFTER INSERT OR UPDATE OF reading_level, offline_since ON public.location_alert_state
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_location_status_from_state();
+
+SELECT public.sync_location_status(id) FROM public.locations;
+
+-- The map, location list and status page follow status changes live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.locations;
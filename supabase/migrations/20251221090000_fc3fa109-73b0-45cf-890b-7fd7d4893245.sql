@@ -0,0 +1,54 @@
+-- Heartbeat monitoring. Each location has an expected reporting interval;
+-- alert-manager judges the board's health from the age of its latest
+-- ThingSpeak entry and raises a device_offline maintenance alert when it has
+-- gone quiet (see _shared/device-health.ts).
+ALTER TABLE public.location_alert_settings
+ADD COLUMN reporting_interval_seconds INTEGER NOT NULL DEFAULT 180 CHECK (reporting_interval_seconds >= 15);
+
+ALTER TABLE public.alerts
+  DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+
+ALTER TABLE public.alerts
+  ADD CONSTRAINT alerts_alert_type_check
+  CHECK (alert_type IN ('fire', 'gas_leak', 'temperature', 'motion', 'device_offline'));
+
+-- Staff see when each board last reported (device health on ManageLocations)
+CREATE POLICY "Staff can view alert state"
+ON public.location_alert_state
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+-- A board that needs maintenance does not put its location on alert; it
+-- shows as offline instead
+CREATE OR REPLACE FUNCTION public.sync_location_status(_location_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status text;
+BEGIN
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.alerts
+      WHERE location_id = _location_id
+        AND status IN ('active', 'in_queue')
+        AND alert_type <> 'device_offline'
+    ) THEN 'alert'
+    WHEN state.offline_since IS NOT NULL THEN 'offline'
+    WHEN state.reading_level IN ('warning', 'critical') THEN 'warning'
+    ELSE 'normal'
+  END
+  INTO _status
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.location_alert_state AS state ON state.location_id = _location_id;
+
+  -- Skip no-op updates so realtime subscribers only hear about real changes
+  UPDATE public.locations
+  SET status = _status
+  WHERE id = _location_id
+    AND status IS DISTINCT FROM _status;
+END;
+$$;
@@ -0,0 +1,48 @@
+-- Sensor fault detection. thingspeak-service rejects implausible values
+-- (missing, disconnected, out of range or stuck; see _shared/sensor-faults.ts)
+-- and alert-manager raises a sensor_fault maintenance alert while any sensor
+-- of a location is faulty.
+ALTER TABLE public.location_alert_state
+ADD COLUMN sensor_faults JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.alerts
+  DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+
+ALTER TABLE public.alerts
+  ADD CONSTRAINT alerts_alert_type_check
+  CHECK (alert_type IN ('fire', 'gas_leak', 'temperature', 'motion', 'device_offline', 'sensor_fault'));
+
+-- A faulty sensor needs maintenance; like an offline board it does not put
+-- its location on alert
+CREATE OR REPLACE FUNCTION public.sync_location_status(_location_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _status text;
+BEGIN
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1
+      FROM public.alerts
+      WHERE location_id = _location_id
+        AND status IN ('active', 'in_queue')
+        AND alert_type NOT IN ('device_offline', 'sensor_fault')
+    ) THEN 'alert'
+    WHEN state.offline_since IS NOT NULL THEN 'offline'
+    WHEN state.reading_level IN ('warning', 'critical') THEN 'warning'
+    ELSE 'normal'
+  END
+  INTO _status
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.location_alert_state AS state ON state.location_id = _location_id;
+
+  -- Skip no-op updates so realtime subscribers only hear about real changes
+  UPDATE public.locations
+  SET status = _status
+  WHERE id = _location_id
+    AND status IS DISTINCT FROM _status;
+END;
+$$;
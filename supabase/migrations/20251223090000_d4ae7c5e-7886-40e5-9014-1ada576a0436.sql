@@ -0,0 +1,6 @@
+-- Rate-of-rise heat detection. alert-manager raises a temperature alert when
+-- the temperature climbs faster than this many °C per minute, even below the
+-- critical level (see _shared/rate-of-rise.ts). 8 °C/min is the usual
+-- 15 °F/min of rate-of-rise heat detectors.
+ALTER TABLE public.location_alert_settings
+ADD COLUMN rate_of_rise_per_minute NUMERIC NOT NULL DEFAULT 8 CHECK (rate_of_rise_per_minute > 0);
@@ -0,0 +1,58 @@
+-- Alert rules: declarative multi-sensor conditions checked by alert-manager
+-- next to the fixed thresholds (see _shared/alert-rules.ts for the condition
+-- format). Rows with a NULL location_id apply to every location.
+CREATE TABLE public.alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  location_id UUID REFERENCES public.locations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  description TEXT,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  conditions JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(conditions) = 'array'),
+  sustain_readings INTEGER NOT NULL DEFAULT 1 CHECK (sustain_readings >= 1),
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('fire', 'gas_leak', 'temperature', 'life_safety')),
+  severity TEXT NOT NULL CHECK (severity IN ('low', 'medium', 'high', 'critical')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.alert_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view alert rules"
+ON public.alert_rules
+FOR SELECT
+USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "In-charges and admins can manage alert rules"
+ON public.alert_rules
+FOR ALL
+USING (public.has_min_role(auth.uid(), 'incharge'));
+
+CREATE INDEX idx_alert_rules_location_id ON public.alert_rules(location_id);
+
+CREATE TRIGGER update_alert_rules_updated_at
+BEFORE UPDATE ON public.alert_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Raised by rules only
+ALTER TABLE public.alerts
+  DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+
+ALTER TABLE public.alerts
+  ADD CONSTRAINT alerts_alert_type_check
+  CHECK (alert_type IN ('fire', 'gas_leak', 'temperature', 'motion', 'device_offline', 'sensor_fault', 'life_safety'));
+
+INSERT INTO public.alert_rules (location_id, name, description, conditions, sustain_readings, alert_type, severity)
+VALUES (
+  NULL,
+  'Fire with people present',
+  'Flame while the PIR sensor sees movement: someone may be trapped',
+  '[
+    {"sensor": "flame", "operator": "detected"},
+    {"sensor": "pir", "operator": "detected"}
+  ]'::jsonb,
+  1,
+  'life_safety',
+  'critical'
+);
@@ -0,0 +1,18 @@
+-- Webhooks are posted by the server to whatever URL is saved, so only staff
+-- may turn them on. Everyone still manages the rest of their own preferences.
+DROP POLICY "Users can manage their own notification preferences" ON public.notification_preferences;
+
+CREATE POLICY "Users can manage their own notification preferences"
+ON public.notification_preferences
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (NOT webhook_enabled OR public.has_min_role(auth.uid(), 'officer'))
+);
+
+-- Turn off webhooks civilians already saved
+UPDATE public.notification_preferences
+SET webhook_enabled = false
+WHERE webhook_enabled
+  AND NOT public.has_min_role(user_id, 'officer');
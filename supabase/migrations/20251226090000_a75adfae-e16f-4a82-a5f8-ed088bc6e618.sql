@@ -0,0 +1,8 @@
+-- When an alert last started waiting to be acknowledged: when it was raised,
+-- reassigned to another crew or reopened. The escalation chain is timed from
+-- here rather than from created_at, so a new crew gets the full chain.
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS escalation_started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+UPDATE public.alerts
+SET escalation_started_at = GREATEST(created_at, COALESCE(assigned_at, created_at));